@@ -0,0 +1,44 @@
+// app/api/feed/[token]/route.ts
+// 订阅用的 iCalendar 源，地址为 /api/feed/<token>.ics。手机的日历应用可以订阅它，不需要登录 Google；
+// 每次读取都使用服务器上最新的数据。
+// The iCalendar feed for subscriptions, served at /api/feed/<token>.ics. A phone's calendar app can subscribe to it
+// without signing in to Google, and every request reads the latest data on the server.
+import { buildExportEvents } from "@/lib/calendar-export"
+import { addDays } from "@/lib/date-utils"
+import { buildIcsFile } from "@/lib/ics"
+import { migrateData } from "@/lib/migration"
+import { createInitialScheduleState, createScheduleState } from "@/lib/schedule-domain"
+import { loadCalendarFeed } from "@/lib/server-storage"
+import { toZonedDateTime } from "@/lib/time-zones"
+
+// 订阅中包含的过去天数，更早的时间块不再发送 (Past days included in the feed, older blocks are left out)
+const FEED_PAST_DAYS = 30
+
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const feed = loadCalendarFeed(token.replace(/\.ics$/, ""))
+  // 撤销的链接与不存在的一样 (A revoked link looks the same as one that never existed)
+  if (!feed) return new Response("Not found", { status: 404 })
+
+  const { projects, schedules } = feed.data
+    ? createScheduleState(migrateData(feed.data).data)
+    : createInitialScheduleState()
+  const now = Date.now()
+  const firstDate = addDays(toZonedDateTime(now, feed.timeZone).dateKey, -FEED_PAST_DAYS)
+  const dateKeys = Object.keys(schedules)
+    .filter((dateKey) => dateKey >= firstDate)
+    .sort()
+  const body = buildIcsFile(buildExportEvents(projects, schedules, dateKeys), {
+    calendarName: feed.profileName,
+    timeZone: feed.timeZone,
+    now,
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      // 日历应用定期重新读取，不要缓存旧的计划 (Calendar apps poll the feed, so no stale plan is cached)
+      "Cache-Control": "no-store",
+    },
+  })
+}
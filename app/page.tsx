@@ -1,8 +1,9 @@
 // app/page.tsx
-// Main page component with local storage persistence and data migration.
+// Main page component with per-profile persistence and data migration.
+// The business rules live in lib/schedule-domain.ts and migrations in lib/migration.ts; this page wires them to the UI.
 "use client"
 
-import { useState, useCallback, useEffect } from "react"
+import { useState, useCallback, useMemo } from "react"
 import {
   DndContext,
   PointerSensor,
@@ -11,362 +12,273 @@ import {
   useSensors,
   type DragEndEvent,
   type DragStartEvent,
+  type CollisionDetection,
   DragOverlay,
   closestCorners,
 } from "@dnd-kit/core"
-import { sortableKeyboardCoordinates, arrayMove } from "@dnd-kit/sortable"
-import type { Project, ScheduledTask, ScheduleData, SubTask } from "@/types/schedule"
-import { initialProjectsData as defaultInitialProjects, allTimeSlots } from "@/lib/schedule-data"
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable"
+import { useSession } from "next-auth/react"
+import type {
+  Project,
+  ProjectDetails,
+  ScheduledTaskView,
+  ScheduleData,
+  ScheduleViewMode,
+  TimeGridSettings as TimeGridSettingsValue,
+} from "@/types/schedule"
+import { APP_VERSION, migrateData, type MigrationReport } from "@/lib/migration"
+import {
+  createInitialScheduleState,
+  createScheduleState,
+  fitNewTask,
+  getActionError,
+  getHistoryGroupKey,
+  isOutsideHistory,
+  scheduleReducer,
+  type ScheduleAction,
+} from "@/lib/schedule-domain"
+import { selectDeadlineStatus, selectProjectList, selectScheduledTaskViews } from "@/lib/selectors"
+import { selectRunningEntry, selectTrackedTime } from "@/lib/time-tracking"
+import { buildTimeSections } from "@/lib/time-grid"
+import { getTodayKey, getWeekDateKeys } from "@/lib/date-utils"
+import { generateId } from "@/lib/utils"
+import { buildExportEvents } from "@/lib/calendar-export"
+import { formatCalendarSyncSummary, hasCalendarChanges, planCalendarSync } from "@/lib/calendar-sync"
+import { planDay, type AutoPlanRequest, type PlannedBlock } from "@/lib/auto-plan"
+import type { CalendarDateRange, CalendarFetchResult, CalendarProvider } from "@/lib/calendar-provider"
 import { ProjectColumn } from "@/components/schedule-builder/project-column"
 import { ScheduleColumn } from "@/components/schedule-builder/schedule-column"
-import { ProjectCard } from "@/components/schedule-builder/project-card"
+import { WeekScheduleColumn } from "@/components/schedule-builder/week-schedule-column"
+import {
+  ProjectCard,
+  SubTaskDragPreview,
+  type SubTaskDragData,
+} from "@/components/schedule-builder/project-card"
 import { ScheduledItemCard } from "@/components/schedule-builder/scheduled-item-card"
 import { Button } from "@/components/ui/button"
-import { Printer } from "lucide-react"
+import { CalendarDays, CalendarRange, Printer, Redo2, Undo2, WandSparkles } from "lucide-react"
 import { GoogleCalendarSync } from "@/components/schedule-builder/google-calendar-sync"
+import { IcsCalendarControls } from "@/components/schedule-builder/ics-calendar-controls"
+import { CalendarFeedSettings } from "@/components/schedule-builder/calendar-feed-settings"
+import { AutoPlanDialog } from "@/components/schedule-builder/auto-plan-dialog"
+import { RunningTimer } from "@/components/schedule-builder/running-timer"
 import { DebugSection } from "@/components/schedule-builder/debug-section"
+import { SubTaskPicker } from "@/components/schedule-builder/sub-task-picker"
+import { SyncStatus } from "@/components/schedule-builder/sync-status"
+import { ProfileSwitcher } from "@/components/schedule-builder/profile-switcher"
+import { useUndoableReducer } from "@/hooks/use-undoable-reducer"
+import { useProfileStorage, type StorageMode } from "@/hooks/use-profile-storage"
+import { DateNavigator } from "@/components/schedule-builder/date-navigator"
+import { TimeGridSettings } from "@/components/schedule-builder/time-grid-settings"
 
-const APP_VERSION = "1.0.3" // Incremented version for data migration feature
-const MAX_TASKS_PER_SLOT = 3
-const LOCAL_STORAGE_KEY = "personal-schedule-builder-data"
-const generateId = () => crypto.randomUUID()
-
-const projectColors = [
-  "bg-blue-500 text-white",
-  "bg-pink-500 text-white",
-  "bg-amber-500 text-white",
-  "bg-rose-500 text-white",
-  "bg-sky-500 text-white",
-  "bg-purple-500 text-white",
-  "bg-green-500 text-white",
-  "bg-fuchsia-500 text-white",
-  "bg-teal-500 text-white",
-  "bg-cyan-500 text-white",
-  "bg-lime-500 text-white",
-  "bg-orange-500 text-white",
-]
-
-// 本地存储数据格式 (Local storage data format)
-interface LocalStorageData {
-  version: string
-  projects: Project[]
-  schedule: ScheduleData
-  nextColorIndex: number
-}
-
-// 数据迁移函数 (Data migration function)
-const migrateData = (data: any): LocalStorageData => {
-  // 如果没有版本信息，假设是最早版本 (If no version info, assume earliest version)
-  const version = data.version || "1.0.0"
-
-  const migratedData = { ...data }
-
-  console.log(`Migrating data from version ${version} to ${APP_VERSION}`)
-
-  // 版本 1.0.0 到 1.0.1 的迁移 (Migration from 1.0.0 to 1.0.1)
-  if (version === "1.0.0") {
-    // 在早期版本中，可能没有 nextColorIndex (Early versions might not have nextColorIndex)
-    if (typeof migratedData.nextColorIndex !== "number") {
-      migratedData.nextColorIndex = (migratedData.projects?.length || 0) % projectColors.length
-    }
-
-    // 确保所有项目都有颜色 (Ensure all projects have colors)
-    if (Array.isArray(migratedData.projects)) {
-      migratedData.projects = migratedData.projects.map((project: any, index: number) => ({
-        ...project,
-        color: project.color || projectColors[index % projectColors.length],
-      }))
-    }
-  }
-
-  // 版本 1.0.1 到 1.0.2 的迁移 (Migration from 1.0.1 to 1.0.2)
-  if (version === "1.0.1") {
-    // 在这个版本中添加了本地存储功能，但数据结构没有变化
-    // (Local storage was added in this version, but data structure didn't change)
-    console.log("No migration needed from 1.0.1 to 1.0.2")
-  }
-
-  // 版本 1.0.2 到 1.0.3 的迁移 (Migration from 1.0.2 to 1.0.3)
-  if (version === "1.0.2") {
-    // 在这个版本中添加了数据迁移功能，但数据结构没有变化
-    // (Data migration was added in this version, but data structure didn't change)
-    console.log("No migration needed from 1.0.2 to 1.0.3")
-  }
-
-  // 通用数据验证和修复 (General data validation and repair)
+const getInitialSchedule = (): ScheduleData => []
 
-  // 确保 projects 是数组 (Ensure projects is an array)
-  if (!Array.isArray(migratedData.projects)) {
-    console.warn("Invalid projects data, resetting to defaults")
-    migratedData.projects = getInitialProjects()
-  }
+export default function SchedulePage() {
+  // 除计时器外，每个动作都记录在撤销历史中 (Every action except the timer's is recorded in the undo history)
+  const {
+    state: scheduleState,
+    dispatch,
+    undo,
+    redo,
+    reset,
+    replace,
+    canUndo,
+    canRedo,
+  } = useUndoableReducer(scheduleReducer, createInitialScheduleState, getHistoryGroupKey, isOutsideHistory)
+  const { projects, schedules, events, timeEntries, timeGrid, nextColorIndex } = scheduleState
+  const eventList = useMemo(() => Object.values(events), [events])
+  const timeEntryList = useMemo(() => Object.values(timeEntries), [timeEntries])
+  const trackedTime = useMemo(() => selectTrackedTime(timeEntries), [timeEntries])
+  const runningEntry = useMemo(() => selectRunningEntry(timeEntries), [timeEntries])
+  // 登录后从服务器加载，未登录时使用浏览器存储 (Load from the server when signed in, from the browser when signed out)
+  const { status: sessionStatus } = useSession()
+  const storageMode: StorageMode | null =
+    sessionStatus === "loading" ? null : sessionStatus === "authenticated" ? "server" : "local"
+  // 挂载后异步加载当前配置文件；加载或切换配置文件会清空撤销历史 (The active profile loads after mount; loading or switching clears the undo history)
+  // 其他设备的修改直接替换当前状态，不算撤销步骤 (Edits from other devices replace the state without an undo step)
+  const {
+    profiles,
+    activeProfileId,
+    pendingChangeCount,
+    conflicts,
+    switchProfile,
+    createProfile,
+    clearActiveProfile,
+    dismissConflict,
+  } = useProfileStorage(scheduleState, storageMode, { onLoad: reset, onRemoteChange: replace })
+
+  const [selectedDate, setSelectedDate] = useState<string>(() => getTodayKey())
+  const [viewMode, setViewMode] = useState<ScheduleViewMode>("day")
+  const [isAutoPlanOpen, setIsAutoPlanOpen] = useState(false)
+
+  const [activeDraggedItem, setActiveDraggedItem] = useState<Project | ScheduledTaskView | SubTaskDragData | null>(
+    null,
+  )
+  const [activeDraggedItemType, setActiveDraggedItemType] = useState<string | null>(null)
+  const [activeParentDate, setActiveParentDate] = useState<string | null>(null)
+  // 等待选择子任务的放置操作 (A drop waiting for its sub-tasks to be picked)
+  const [pendingDrop, setPendingDrop] = useState<{ project: Project; dateKey: string; startMinutes: number } | null>(
+    null,
+  )
 
-  // 确保每个项目都有必需的字段 (Ensure each project has required fields)
-  migratedData.projects = migratedData.projects.map((project: any, index: number) => ({
-    id: project.id || generateId(),
-    name: project.name || `Project ${index + 1}`,
-    subTasks: Array.isArray(project.subTasks)
-      ? project.subTasks.map((subTask: any) => ({
-          id: subTask.id || generateId(),
-          text: subTask.text || "Untitled Task",
-          completed: Boolean(subTask.completed),
-        }))
-      : [],
-    color: project.color || projectColors[index % projectColors.length],
-  }))
-
-  // 确保 schedule 是对象 (Ensure schedule is an object)
-  if (typeof migratedData.schedule !== "object" || migratedData.schedule === null) {
-    console.warn("Invalid schedule data, resetting to defaults")
-    migratedData.schedule = getInitialSchedule()
-  } else {
-    // 验证和修复 schedule 数据 (Validate and repair schedule data)
-    const validatedSchedule: ScheduleData = {}
-    allTimeSlots.forEach((slot) => {
-      const slotTasks = migratedData.schedule[slot.id]
-      if (Array.isArray(slotTasks)) {
-        validatedSchedule[slot.id] = slotTasks.map((task: any) => ({
-          id: task.id || generateId(),
-          projectId: task.projectId || generateId(),
-          projectName: task.projectName || "Unknown Project",
-          projectColor: task.projectColor || "bg-gray-500 text-white",
-          originalProjectSubTasks: Array.isArray(task.originalProjectSubTasks)
-            ? task.originalProjectSubTasks.map((subTask: any) => ({
-                id: subTask.id || generateId(),
-                text: subTask.text || "Untitled Task",
-                completed: Boolean(subTask.completed),
-              }))
-            : [],
-        }))
-      } else {
-        validatedSchedule[slot.id] = []
+  const projectList = useMemo(() => selectProjectList(projects), [projects])
+  const scheduleData = useMemo(
+    () => selectScheduledTaskViews(projects, schedules[selectedDate] || getInitialSchedule(), trackedTime.byTask),
+    [projects, schedules, selectedDate, trackedTime],
+  )
+  const timeSections = useMemo(() => buildTimeSections(timeGrid), [timeGrid])
+  // 页眉中显示正在计时的时间块或项目 (The header shows the block or project being timed)
+  const runningTimerView = useMemo(() => {
+    const project = runningEntry && projects.byId[runningEntry.projectId]
+    if (!runningEntry || !project) return null
+    const task = runningEntry.taskId
+      ? Object.values(schedules)
+          .flat()
+          .find((t) => t.id === runningEntry.taskId)
+      : undefined
+    return { label: task?.title || project.name, color: project.color, startedAt: runningEntry.startedAt }
+  }, [runningEntry, projects, schedules])
+  // 当前视图中的日期 (The dates in the current view)
+  const viewDateKeys = useMemo(
+    () => (viewMode === "week" ? getWeekDateKeys(selectedDate) : [selectedDate]),
+    [viewMode, selectedDate],
+  )
+  // 先检查业务规则，违反时提示用户 (Check the business rules first and tell the user when one is broken)
+  const applyAction = useCallback(
+    (action: ScheduleAction) => {
+      const error = getActionError(scheduleState, action)
+      if (error) {
+        alert(error)
+        return false
       }
-    })
-    migratedData.schedule = validatedSchedule
-  }
-
-  // 确保 nextColorIndex 是数字 (Ensure nextColorIndex is a number)
-  if (typeof migratedData.nextColorIndex !== "number") {
-    migratedData.nextColorIndex = (migratedData.projects?.length || 0) % projectColors.length
-  }
-
-  // 更新版本号 (Update version number)
-  migratedData.version = APP_VERSION
+      dispatch(action)
+      return true
+    },
+    [scheduleState, dispatch],
+  )
 
-  console.log("Data migration completed successfully")
-  return migratedData as LocalStorageData
-}
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  )
 
-const getInitialProjects = () => JSON.parse(JSON.stringify(defaultInitialProjects)) as Project[]
+  // --- Project & Sub-task Management Callbacks ---
+  // 已安排的任务只引用项目，所以编辑项目时不需要改动日程 (Scheduled tasks only reference projects, so edits leave the schedule untouched)
+  const handleProjectNameChange = useCallback(
+    (projectId: string, name: string) => dispatch({ type: "renameProject", projectId, name }),
+    [dispatch],
+  )
 
-const getInitialSchedule = (): ScheduleData => {
-  const initialSchedule: ScheduleData = {}
-  allTimeSlots.forEach((slot) => {
-    initialSchedule[slot.id] = []
-  })
-  return initialSchedule
-}
+  // 无效的日期或小时数会被提示 (Invalid dates or hours are reported)
+  const handleProjectDetailsChange = useCallback(
+    (projectId: string, details: Partial<ProjectDetails>) =>
+      applyAction({ type: "updateProjectDetails", projectId, details }),
+    [applyAction],
+  )
 
-// 从本地存储加载数据 (Load data from local storage)
-const loadFromLocalStorage = (): LocalStorageData | null => {
-  if (typeof window === "undefined") return null
+  const handleSubTaskTextChange = useCallback(
+    (projectId: string, subTaskId: string, text: string) =>
+      dispatch({ type: "editSubTaskText", projectId, subTaskId, text }),
+    [dispatch],
+  )
 
-  try {
-    const stored = localStorage.getItem(LOCAL_STORAGE_KEY)
-    if (!stored) return null
+  const handleSubTaskToggle = useCallback(
+    (projectId: string, subTaskId: string) => dispatch({ type: "toggleSubTask", projectId, subTaskId }),
+    [dispatch],
+  )
 
-    const parsed = JSON.parse(stored)
+  const handleAddSubTask = useCallback(
+    (projectId: string) => dispatch({ type: "addSubTask", projectId, subTaskId: generateId() }),
+    [dispatch],
+  )
 
-    // 应用数据迁移 (Apply data migration)
-    const migrated = migrateData(parsed)
+  const handleRemoveSubTask = useCallback(
+    (projectId: string, subTaskId: string) => dispatch({ type: "removeSubTask", projectId, subTaskId }),
+    [dispatch],
+  )
 
-    // 如果数据被迁移了，保存新版本 (If data was migrated, save the new version)
-    if (migrated.version !== parsed.version) {
-      console.log(`Data migrated from ${parsed.version || "unknown"} to ${migrated.version}`)
-      saveToLocalStorage(migrated)
-    }
+  const handleAddNewProject = useCallback(() => dispatch({ type: "addProject", projectId: generateId() }), [dispatch])
 
-    return migrated
-  } catch (error) {
-    console.error("Error loading from localStorage:", error)
-    return null
-  }
-}
+  const handleRemoveProject = useCallback(
+    (projectId: string) => dispatch({ type: "removeProject", projectId }),
+    [dispatch],
+  )
 
-// 保存数据到本地存储 (Save data to local storage)
-const saveToLocalStorage = (data: LocalStorageData) => {
-  if (typeof window === "undefined") return
+  const handleDeleteTaskFromSchedule = useCallback(
+    (taskId: string, fromDate: string) => dispatch({ type: "deleteTask", taskId, dateKey: fromDate }),
+    [dispatch],
+  )
 
-  try {
-    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data))
-  } catch (error) {
-    console.error("Error saving to localStorage:", error)
-  }
-}
+  // 同一时间只有一个计时器：再次点击正在计时的项目或时间块会停止它，点击其他的会切换过去
+  // (One timer at a time: clicking the running project or block again stops it, clicking another switches to it)
+  const handleTimerToggle = useCallback(
+    (projectId: string, taskId?: string) => {
+      const at = new Date().toISOString()
+      if (runningEntry && runningEntry.projectId === projectId && (!taskId || runningEntry.taskId === taskId)) {
+        dispatch({ type: "stopTimer", at })
+      } else {
+        applyAction({ type: "startTimer", entryId: generateId(), projectId, taskId, at })
+      }
+    },
+    [runningEntry, dispatch, applyAction],
+  )
 
-export default function SchedulePage() {
-  // 初始化状态，优先使用本地存储的数据 (Initialize state, prioritizing local storage data)
-  const [projects, setProjects] = useState<Project[]>(() => {
-    const stored = loadFromLocalStorage()
-    return stored?.projects || getInitialProjects()
-  })
-
-  const [scheduleData, setScheduleData] = useState<ScheduleData>(() => {
-    const stored = loadFromLocalStorage()
-    return stored?.schedule || getInitialSchedule()
-  })
-
-  const [nextColorIndex, setNextColorIndex] = useState<number>(() => {
-    const stored = loadFromLocalStorage()
-    return stored?.nextColorIndex ?? getInitialProjects().length % projectColors.length
-  })
-
-  const [activeDraggedItem, setActiveDraggedItem] = useState<Project | ScheduledTask | null>(null)
-  const [activeDraggedItemType, setActiveDraggedItemType] = useState<string | null>(null)
-  const [activeParentSlotId, setActiveParentSlotId] = useState<string | null>(null)
-
-  // 自动保存到本地存储 (Auto-save to local storage)
-  useEffect(() => {
-    const dataToSave: LocalStorageData = {
-      version: APP_VERSION,
-      projects,
-      schedule: scheduleData,
-      nextColorIndex,
-    }
-    saveToLocalStorage(dataToSave)
-  }, [projects, scheduleData, nextColorIndex])
+  const handleStopTimer = useCallback(() => dispatch({ type: "stopTimer", at: new Date().toISOString() }), [dispatch])
 
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
-    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  // 拖动任务底边改变时长 (Change a task's duration by dragging its bottom edge)
+  const handleResizeTask = useCallback(
+    (taskId: string, dateKey: string, durationMinutes: number) =>
+      applyAction({ type: "resizeTask", taskId, dateKey, durationMinutes }),
+    [applyAction],
   )
 
-  // --- Project & Sub-task Management Callbacks ---
-  const handleProjectNameChange = useCallback((projectId: string, newName: string) => {
-    setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, name: newName } : p)))
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      for (const slotId in newSchedule) {
-        newSchedule[slotId] = newSchedule[slotId].map((task) =>
-          task.projectId === projectId ? { ...task, projectName: newName } : task,
-        )
-      }
-      return newSchedule
-    })
-  }, [])
-
-  const handleSubTaskTextChange = useCallback((projectId: string, subTaskId: string, newText: string) => {
-    const updateSubTasks = (subTasks: SubTask[]) =>
-      subTasks.map((st) => (st.id === subTaskId ? { ...st, text: newText } : st))
-    setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, subTasks: updateSubTasks(p.subTasks) } : p)))
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      for (const slotId in newSchedule) {
-        newSchedule[slotId] = newSchedule[slotId].map((task) =>
-          task.projectId === projectId
-            ? { ...task, originalProjectSubTasks: updateSubTasks(task.originalProjectSubTasks) }
-            : task,
-        )
-      }
-      return newSchedule
-    })
-  }, [])
-
-  const handleSubTaskToggle = useCallback((projectId: string, subTaskId: string) => {
-    const toggleCompletion = (subTasks: SubTask[]) =>
-      subTasks.map((st) => (st.id === subTaskId ? { ...st, completed: !st.completed } : st))
-    setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, subTasks: toggleCompletion(p.subTasks) } : p)))
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      for (const slotId in newSchedule) {
-        newSchedule[slotId] = newSchedule[slotId].map((task) =>
-          task.projectId === projectId
-            ? { ...task, originalProjectSubTasks: toggleCompletion(task.originalProjectSubTasks) }
-            : task,
-        )
-      }
-      return newSchedule
-    })
-  }, [])
-
-  const handleAddSubTask = useCallback((projectId: string) => {
-    const newSubTask: SubTask = { id: generateId(), text: "New Sub-task", completed: false }
-    const updateAndReturnSubTasks = (subTasks: SubTask[]) => [...subTasks, newSubTask]
-    setProjects((prev) =>
-      prev.map((p) => (p.id === projectId ? { ...p, subTasks: updateAndReturnSubTasks(p.subTasks) } : p)),
-    )
-  }, [])
-
-  const handleRemoveSubTask = useCallback((projectId: string, subTaskId: string) => {
-    const filterSubTasks = (subTasks: SubTask[]) => subTasks.filter((st) => st.id !== subTaskId)
-    setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, subTasks: filterSubTasks(p.subTasks) } : p)))
-  }, [])
-
-  const handleAddNewProject = useCallback(() => {
-    const newProject: Project = {
-      id: generateId(),
-      name: "New Project",
-      subTasks: [],
-      color: projectColors[nextColorIndex % projectColors.length],
-    }
-    setProjects((prev) => [...prev, newProject])
-    setNextColorIndex((prevIndex) => prevIndex + 1)
-  }, [nextColorIndex])
-
-  const handleRemoveProject = useCallback((projectId: string) => {
-    setProjects((prev) => prev.filter((p) => p.id !== projectId))
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      for (const slotId in newSchedule) {
-        newSchedule[slotId] = newSchedule[slotId].filter((task) => task.projectId !== projectId)
-      }
-      return newSchedule
-    })
-  }, [])
+  // 今天已经过去的时间不安排 (Time that has already passed today isn't planned)
+  const handleAutoPlan = useCallback(
+    (requests: AutoPlanRequest[]) => {
+      const now = new Date()
+      const earliestMinutes = selectedDate === getTodayKey() ? now.getHours() * 60 + now.getMinutes() : 0
+      return planDay(scheduleState, selectedDate, requests, { earliestMinutes })
+    },
+    [scheduleState, selectedDate],
+  )
 
-  const handleDeleteTaskFromSchedule = useCallback((taskId: string, fromSlotId: string) => {
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      newSchedule[fromSlotId] = newSchedule[fromSlotId].filter((t) => t.id !== taskId)
-      return newSchedule
-    })
-  }, [])
-
-  const handleGoogleSync = useCallback((newTasks: ScheduledTask[]) => {
-    setScheduleData((prev) => {
-      const newSchedule = { ...prev }
-      let addedCount = 0
-
-      newTasks.forEach((task: any) => {
-        const slotId = task.targetSlotId
-        if (!slotId) return
-        
-        // Ensure slot exists
-        if (!newSchedule[slotId]) {
-          newSchedule[slotId] = []
-        }
-
-        // Avoid duplicates
-        if (newSchedule[slotId].some(t => t.id === task.id)) return
-
-        // Check capacity
-        if (newSchedule[slotId].length < MAX_TASKS_PER_SLOT) {
-          // Remove temporary targetSlotId property before adding
-          const { targetSlotId, ...cleanTask } = task
-          newSchedule[slotId] = [...newSchedule[slotId], cleanTask]
-          addedCount++
-        }
+  const handleApplyPlan = useCallback(
+    (blocks: PlannedBlock[]) => {
+      const applied = applyAction({
+        type: "scheduleBlocks",
+        dateKey: selectedDate,
+        blocks: blocks.map((block) => ({ taskId: generateId(), ...block })),
       })
+      if (applied) setIsAutoPlanOpen(false)
+    },
+    [applyAction, selectedDate],
+  )
 
-      if (addedCount > 0) {
-        alert(`Successfully added ${addedCount} event(s) from Google Calendar!`)
-      } else {
-        alert("No new events added. Slots might be full or events already synced.")
+  const handleCalendarSync = useCallback(
+    (provider: CalendarProvider, results: CalendarFetchResult[], range: CalendarDateRange) => {
+      const plan = planCalendarSync(scheduleState, provider.source, results, { ...range, timeGrid })
+      if (hasCalendarChanges(plan)) {
+        dispatch({ type: "syncCalendarEvents", upserts: plan.upserts, removedEventIds: plan.removedEventIds })
       }
+      alert(formatCalendarSyncSummary(provider.label, plan.summary))
+    },
+    [scheduleState, timeGrid, dispatch],
+  )
 
-      return newSchedule
-    })
-  }, [])
+  // 导出当前视图中的日期 (Export the dates in the current view)
+  const handleCalendarExport = useCallback(
+    async (provider: CalendarProvider) => {
+      const exportEvents = buildExportEvents(projects, schedules, viewDateKeys)
+      // 失败时由调用的组件提示 (The calling component reports failures)
+      const message = await provider.exportEvents(exportEvents, {
+        startDate: viewDateKeys[0],
+        endDate: viewDateKeys[viewDateKeys.length - 1],
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      })
+      if (message) alert(message)
+    },
+    [viewDateKeys, projects, schedules],
+  )
 
   // --- DND Logic ---
   const handleDragStart = (event: DragStartEvent) => {
@@ -376,12 +288,15 @@ export default function SchedulePage() {
 
     if (type === "project" && active.data.current?.project) {
       setActiveDraggedItem(active.data.current.project as Project)
+    } else if (type === "sub-task" && active.data.current?.subTask) {
+      const { project, subTask } = active.data.current as SubTaskDragData
+      setActiveDraggedItem({ project, subTask })
     } else if (type === "scheduled-task" && active.data.current?.task) {
-      setActiveDraggedItem(active.data.current.task as ScheduledTask)
-      setActiveParentSlotId(active.data.current.fromSlotId as string)
+      setActiveDraggedItem(active.data.current.task as ScheduledTaskView)
+      setActiveParentDate(active.data.current.fromDate as string)
     } else {
       setActiveDraggedItem(null)
-      setActiveParentSlotId(null)
+      setActiveParentDate(null)
     }
   }
 
@@ -389,7 +304,7 @@ export default function SchedulePage() {
     const { active, over } = event
     setActiveDraggedItem(null)
     setActiveDraggedItemType(null)
-    setActiveParentSlotId(null)
+    setActiveParentDate(null)
     if (!over) return
 
     const activeId = active.id as string
@@ -398,122 +313,265 @@ export default function SchedulePage() {
     const overData = over.data.current
 
     if (activeType === "project" && overData?.type === "project" && activeId !== overId) {
-      setProjects((items) =>
-        arrayMove(
-          items,
-          items.findIndex((i) => i.id === activeId),
-          items.findIndex((i) => i.id === overId),
-        ),
-      )
+      dispatch({ type: "reorderProjects", activeId, overId })
     } else if (activeType === "project" && overData?.type === "time-slot") {
       const project = active.data.current?.project as Project
+      const { dateKey: toDate, startMinutes } = overData as { dateKey: string; startMinutes: number }
       if (!project) return
 
-      if ((scheduleData[overId] || []).length >= MAX_TASKS_PER_SLOT) {
-        alert(`Time slot is full. Cannot add more than ${MAX_TASKS_PER_SLOT} tasks.`)
+      const action: ScheduleAction = {
+        type: "scheduleProject",
+        taskId: generateId(),
+        projectId: project.id,
+        dateKey: toDate,
+        startMinutes,
+      }
+      const error = getActionError(scheduleState, action)
+      if (error) {
+        alert(error)
         return
       }
-
-      const newTask: ScheduledTask = {
-        id: generateId(),
-        projectId: project.id,
-        projectName: project.name,
-        projectColor: project.color,
-        originalProjectSubTasks: project.subTasks.map((st) => ({ ...st })),
+      // 有子任务的项目先选择这个时间块要做的子任务 (Projects with sub-tasks first pick the ones this block is for)
+      if (project.subTasks.length > 0) {
+        setPendingDrop({ project, dateKey: toDate, startMinutes })
+        return
       }
-      setScheduleData((prev) => ({ ...prev, [overId]: [...(prev[overId] || []), newTask] }))
+      dispatch(action)
+    } else if (activeType === "sub-task" && overData?.type === "time-slot") {
+      // 单个子任务直接成为一个时间块，使用其项目的颜色 (A single sub-task becomes a block of its own, in its project's color)
+      const { project, subTask } = active.data.current as SubTaskDragData
+      const { dateKey: toDate, startMinutes } = overData as { dateKey: string; startMinutes: number }
+      if (!project || !subTask) return
+
+      applyAction({
+        type: "scheduleProject",
+        taskId: generateId(),
+        projectId: project.id,
+        dateKey: toDate,
+        startMinutes,
+        subTaskIds: [subTask.id],
+      })
     } else if (activeType === "scheduled-task" && overData?.type === "time-slot") {
-      const task = active.data.current?.task as ScheduledTask
-      const fromSlotId = active.data.current?.fromSlotId as string
-      if (!task || !fromSlotId) return
-      if (fromSlotId === overId) return
+      const fromDate = active.data.current?.fromDate as string
+      const taskId = active.data.current?.task?.id as string
+      const { dateKey: toDate, startMinutes } = overData as { dateKey: string; startMinutes: number }
+      if (!taskId || !fromDate) return
 
-      if ((scheduleData[overId] || []).length >= MAX_TASKS_PER_SLOT) {
-        alert(`Target time slot is full. Cannot move task here.`)
-        return
-      }
+      // 可以在同一天内或跨天移动 (Tasks can move within a day or across days)
+      applyAction({ type: "moveTask", taskId, fromDate, toDate, startMinutes })
+    }
+  }
 
-      setScheduleData((prevSchedule) => {
-        const newSchedule = { ...prevSchedule }
-        newSchedule[fromSlotId] = (newSchedule[fromSlotId] || []).filter((t) => t.id !== task.id)
-        newSchedule[overId] = [...(newSchedule[overId] || []), task]
-        return newSchedule
+  const handleSubTaskPickConfirm = (subTaskIds: string[]) => {
+    if (!pendingDrop) return
+    const { project, dateKey, startMinutes } = pendingDrop
+    setPendingDrop(null)
+    // 选择期间日程可能已经改变，会重新检查容量 (The schedule may have changed while picking, so capacity is checked again)
+    applyAction({
+      type: "scheduleProject",
+      taskId: generateId(),
+      projectId: project.id,
+      dateKey,
+      startMinutes,
+      subTaskIds,
+    })
+  }
+
+  // 拖动已安排的任务时，以任务块的上边缘决定放置的时间段 (When dragging a scheduled task, its top edge picks the target slot)
+  const collisionDetection: CollisionDetection = (args) => {
+    if (args.active.data.current?.type === "scheduled-task" && args.pointerCoordinates) {
+      const point = { x: args.pointerCoordinates.x, y: args.collisionRect.top + 1 }
+      const hit = args.droppableContainers.find((container) => {
+        const rect = args.droppableRects.get(container.id)
+        return (
+          container.data.current?.type === "time-slot" &&
+          rect &&
+          point.x >= rect.left &&
+          point.x <= rect.right &&
+          point.y >= rect.top &&
+          point.y <= rect.bottom
+        )
       })
+      if (hit) return [{ id: hit.id, data: { droppableContainer: hit, value: 0 } }]
     }
+    return closestCorners(args)
   }
 
   const handlePrint = () => window.print()
 
-  const handleDebugStateApply = useCallback(
-    (newData: { version: string; projects: Project[]; schedule: ScheduleData; nextColorIndex?: number }) => {
-      // 应用数据迁移到导入的数据 (Apply data migration to imported data)
-      const migratedData = migrateData(newData)
+  // 修改时间网格时，把超出新的时间范围的任务移回一天之内；会超过容量时拒绝
+  // (When the grid changes, move tasks outside the new hours back into the day; refused when that goes over capacity)
+  const handleTimeGridChange = useCallback(
+    (newTimeGrid: TimeGridSettingsValue) => applyAction({ type: "setTimeGrid", timeGrid: newTimeGrid }),
+    [applyAction],
+  )
 
-      if (migratedData.version !== newData.version) {
-        console.log(`Imported data migrated from ${newData.version || "unknown"} to ${migratedData.version}`)
-        // 可以在这里显示一个通知给用户 (Could show a notification to the user here)
-      }
+  const handleOpenDay = (dateKey: string) => {
+    setSelectedDate(dateKey)
+    setViewMode("day")
+  }
 
-      setProjects(migratedData.projects || [])
-      setScheduleData(migratedData.schedule || getInitialSchedule())
-      setNextColorIndex(migratedData.nextColorIndex !== undefined ? migratedData.nextColorIndex : 0)
+  const handleDebugStateApply = useCallback(
+    (newData: unknown): MigrationReport => {
+      // 应用数据迁移到导入的数据，报告会显示在调试区 (Apply data migration to imported data, the report is shown in the debug section)
+      const { data, report } = migrateData(newData)
+      dispatch({ type: "replaceState", state: createScheduleState(data) })
+      return report
     },
-    [],
+    [dispatch],
   )
 
+  // 只清除当前配置文件；清除后仍然可以撤销，撤销时数据会重新保存 (Only the active profile is cleared; clearing can still be undone, the data is saved again on undo)
   const handleClearAllData = useCallback(() => {
-    setProjects(getInitialProjects())
-    setScheduleData(getInitialSchedule())
-    setNextColorIndex(getInitialProjects().length % projectColors.length)
-    // 清除本地存储 (Clear local storage)
-    if (typeof window !== "undefined") {
-      try {
-        localStorage.removeItem(LOCAL_STORAGE_KEY)
-      } catch (error) {
-        console.error("Error clearing localStorage:", error)
-      }
-    }
-  }, [])
+    const clearedState = createInitialScheduleState()
+    dispatch({ type: "replaceState", state: clearedState })
+    clearActiveProfile(clearedState)
+  }, [dispatch, clearActiveProfile])
 
   return (
     <DndContext
       sensors={sensors}
-      collisionDetection={closestCorners}
+      collisionDetection={collisionDetection}
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
       <div className="min-h-screen bg-gray-200 p-2 print:p-0 print:bg-white">
         <header className="mb-4 flex justify-between items-center print:hidden">
-          <h1 className="text-xl font-bold text-gray-800">个人日程构建器</h1>
+          <div className="flex items-center gap-4">
+            <h1 className="text-xl font-bold text-gray-800">个人日程构建器</h1>
+            <DateNavigator selectedDate={selectedDate} viewMode={viewMode} onDateChange={setSelectedDate} />
+          </div>
           <div className="flex items-center gap-2">
-            <GoogleCalendarSync onSync={handleGoogleSync} />
+            {runningTimerView && <RunningTimer {...runningTimerView} onStop={handleStopTimer} />}
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              storageMode={storageMode}
+              onSwitch={switchProfile}
+              onCreate={createProfile}
+            />
+            <div className="flex">
+              <Button
+                onClick={undo}
+                disabled={!canUndo}
+                variant="outline"
+                size="sm"
+                className="rounded-r-none"
+                title="Undo (Ctrl+Z)"
+                aria-label="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={redo}
+                disabled={!canRedo}
+                variant="outline"
+                size="sm"
+                className="rounded-l-none"
+                title="Redo (Ctrl+Shift+Z)"
+                aria-label="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex">
+              <Button
+                onClick={() => setViewMode("day")}
+                variant={viewMode === "day" ? "default" : "outline"}
+                size="sm"
+                className="rounded-r-none"
+              >
+                <CalendarDays className="mr-1.5 h-4 w-4" /> Day
+              </Button>
+              <Button
+                onClick={() => setViewMode("week")}
+                variant={viewMode === "week" ? "default" : "outline"}
+                size="sm"
+                className="rounded-l-none"
+              >
+                <CalendarRange className="mr-1.5 h-4 w-4" /> Week
+              </Button>
+            </div>
+            <TimeGridSettings settings={timeGrid} onChange={handleTimeGridChange} />
+            {/* 安排所选的日期 (Plans the selected date) */}
+            <Button onClick={() => setIsAutoPlanOpen(true)} variant="outline" size="sm">
+              <WandSparkles className="mr-1.5 h-4 w-4" /> Auto-plan
+            </Button>
+            <GoogleCalendarSync
+              profileId={activeProfileId}
+              dateKeys={viewDateKeys}
+              onSync={handleCalendarSync}
+              onExport={handleCalendarExport}
+            />
+            <IcsCalendarControls dateKeys={viewDateKeys} onSync={handleCalendarSync} onExport={handleCalendarExport} />
+            {/* 订阅链接需要服务器上的数据 (The subscription link needs the data on the server) */}
+            {storageMode === "server" && activeProfileId && <CalendarFeedSettings profileId={activeProfileId} />}
             <Button onClick={handlePrint} variant="outline" size="sm">
               <Printer className="mr-1.5 h-4 w-4" /> Print
             </Button>
           </div>
         </header>
+        <div className="print:hidden">
+          <SyncStatus
+            pendingChangeCount={pendingChangeCount}
+            conflicts={conflicts}
+            onDismissConflict={dismissConflict}
+          />
+        </div>
         {/* Wrapper for print layout control */}
         <div className="print:max-w-[20cm] print:mx-auto">
           <main className="flex flex-col md:flex-row gap-3 print:flex-row print:gap-2">
             <ProjectColumn
-              projects={projects}
+              projects={projectList}
+              schedules={schedules}
+              trackedByProject={trackedTime.byProject}
               onSubTaskToggle={handleSubTaskToggle}
               onProjectNameChange={handleProjectNameChange}
+              onProjectDetailsChange={handleProjectDetailsChange}
               onSubTaskTextChange={handleSubTaskTextChange}
               onAddSubTask={handleAddSubTask}
               onRemoveSubTask={handleRemoveSubTask}
               onRemoveProject={handleRemoveProject}
+              onTimerToggle={handleTimerToggle}
               onAddNewProject={handleAddNewProject}
             />
-            <ScheduleColumn scheduleData={scheduleData} onDeleteTask={handleDeleteTaskFromSchedule} />
+            {viewMode === "week" ? (
+              <WeekScheduleColumn
+                selectedDate={selectedDate}
+                sections={timeSections}
+                schedules={schedules}
+                projects={projects}
+                events={events}
+                trackedByTask={trackedTime.byTask}
+                onDeleteTask={handleDeleteTaskFromSchedule}
+                onResizeTask={handleResizeTask}
+                onSubTaskToggle={handleSubTaskToggle}
+                onTimerToggle={handleTimerToggle}
+                onOpenDay={handleOpenDay}
+              />
+            ) : (
+              <ScheduleColumn
+                dateKey={selectedDate}
+                sections={timeSections}
+                scheduleData={scheduleData}
+                events={events}
+                onDeleteTask={handleDeleteTaskFromSchedule}
+                onResizeTask={handleResizeTask}
+                onSubTaskToggle={handleSubTaskToggle}
+                onTimerToggle={handleTimerToggle}
+              />
+            )}
           </main>
         </div>
 
         <div className="print:hidden">
           <DebugSection
-            projects={projects}
-            scheduleData={scheduleData}
+            projects={projectList}
+            schedules={schedules}
+            events={eventList}
+            timeEntries={timeEntryList}
             nextColorIndex={nextColorIndex}
+            timeGrid={timeGrid}
             onStateApply={handleDebugStateApply}
             onClearAllData={handleClearAllData}
             appVersion={APP_VERSION}
@@ -525,19 +583,45 @@ export default function SchedulePage() {
         {activeDraggedItem && activeDraggedItemType === "project" && (
           <ProjectCard
             project={activeDraggedItem as Project}
+            deadlineStatus={selectDeadlineStatus(activeDraggedItem as Project, schedules)}
             isOverlay
             onSubTaskToggle={() => {}}
             onProjectNameChange={() => {}}
+            onProjectDetailsChange={() => {}}
             onSubTaskTextChange={() => {}}
             onAddSubTask={() => {}}
             onRemoveSubTask={() => {}}
             onRemoveProject={() => {}}
+            onTimerToggle={() => {}}
           />
         )}
-        {activeDraggedItem && activeDraggedItemType === "scheduled-task" && activeParentSlotId && (
-          <ScheduledItemCard task={activeDraggedItem as ScheduledTask} parentSlotId={activeParentSlotId} isOverlay />
+        {activeDraggedItem && activeDraggedItemType === "sub-task" && (
+          <SubTaskDragPreview {...(activeDraggedItem as SubTaskDragData)} />
+        )}
+        {activeDraggedItem && activeDraggedItemType === "scheduled-task" && activeParentDate && (
+          <ScheduledItemCard task={activeDraggedItem as ScheduledTaskView} parentDate={activeParentDate} isOverlay />
         )}
       </DragOverlay>
+
+      {pendingDrop && (
+        <SubTaskPicker
+          project={pendingDrop.project}
+          dateKey={pendingDrop.dateKey}
+          {...fitNewTask(scheduleState, pendingDrop.startMinutes)}
+          onConfirm={handleSubTaskPickConfirm}
+          onCancel={() => setPendingDrop(null)}
+        />
+      )}
+      {isAutoPlanOpen && (
+        <AutoPlanDialog
+          dateKey={selectedDate}
+          projects={projectList}
+          timeGrid={timeGrid}
+          onPlan={handleAutoPlan}
+          onApply={handleApplyPlan}
+          onCancel={() => setIsAutoPlanOpen(false)}
+        />
+      )}
     </DndContext>
   )
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+// components/schedule-builder/all-day-strip.tsx
+// 这个组件在上午部分之前显示当天的全天事件。全天事件不占用时间段，也不能拖动。
+// This component shows the day's all-day events above the morning section. They take no slot and can't be dragged.
+"use client"
+
+import type { CalendarEvent } from "@/types/schedule"
+import { CalendarEventCard } from "./calendar-event-card"
+
+interface AllDayStripProps {
+  events: CalendarEvent[] // 当天的全天事件 (The day's all-day events)
+  compact?: boolean
+}
+
+export function AllDayStrip({ events, compact = false }: AllDayStripProps) {
+  return (
+    <div className={`${compact ? "mb-2 min-h-6 rounded p-0.5" : "mb-4 rounded-lg p-2 shadow"} bg-gray-50`}>
+      {!compact && <h3 className="mb-1 text-xs font-semibold text-gray-600">全天 (All day)</h3>}
+      <ul className="space-y-0.5">
+        {events.map((event) => (
+          <li key={event.id}>
+            <CalendarEventCard event={event} compact={compact} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+// components/schedule-builder/auto-plan-dialog.tsx
+// "自动安排我的一天"对话框：用户先为每个项目填写今天的时间、优先级和偏好的时间部分，然后查看并修改预览，最后再应用。
+// The "Auto-plan my day" dialog: the user first enters today's effort, a priority and a preferred section for each
+// project, then reviews and edits the preview before applying it.
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { X } from "lucide-react"
+import type { Project, ProjectPriority, TimeGridSettings, TimeSectionKey } from "@/types/schedule"
+import type { AutoPlanRequest, AutoPlanResult, PlannedBlock } from "@/lib/auto-plan"
+import { getColorProps } from "@/lib/colors"
+import { PRIORITY_LABELS, PROJECT_PRIORITIES } from "@/lib/schedule-data"
+import { formatDateLabel } from "@/lib/date-utils"
+import { buildTimeSections, formatMinutes, generateTimeSlots } from "@/lib/time-grid"
+
+interface AutoPlanDialogProps {
+  dateKey: string
+  projects: Project[]
+  timeGrid: TimeGridSettings
+  onPlan: (requests: AutoPlanRequest[]) => AutoPlanResult
+  onApply: (blocks: PlannedBlock[]) => void // 违反规则时对话框保持打开 (The dialog stays open when a rule is broken)
+  onCancel: () => void
+}
+
+// 每个项目在对话框中的设置 (The dialog's settings for one project)
+interface ProjectPlanSettings {
+  included: boolean
+  effortHours: number
+  priority: ProjectPriority
+  preferredSection: TimeSectionKey | null
+}
+
+// 默认安排还有未完成子任务的项目，优先级取自项目 (Projects with unfinished sub-tasks are included by default, the
+// priority comes from the project)
+const getDefaultSettings = (project: Project): ProjectPlanSettings => ({
+  included: project.subTasks.some((subTask) => !subTask.completed),
+  effortHours: 1,
+  priority: project.priority ?? "medium",
+  preferredSection: null,
+})
+
+export function AutoPlanDialog({ dateKey, projects, timeGrid, onPlan, onApply, onCancel }: AutoPlanDialogProps) {
+  const [settings, setSettings] = useState<Record<string, ProjectPlanSettings>>(() =>
+    Object.fromEntries(projects.map((project) => [project.id, getDefaultSettings(project)])),
+  )
+  // 为 null 时显示设置，否则显示预览 (Settings are shown while this is null, the preview otherwise)
+  const [preview, setPreview] = useState<AutoPlanResult | null>(null)
+
+  const sections = useMemo(() => buildTimeSections(timeGrid), [timeGrid])
+  const slots = useMemo(() => generateTimeSlots(timeGrid), [timeGrid])
+  const projectsById = useMemo(() => Object.fromEntries(projects.map((project) => [project.id, project])), [projects])
+  // 时间块可以一直延长到一天结束，剪短的时间块也保留当前的长度
+  // (A block can extend up to the end of the day; a trimmed block keeps its current length as an option)
+  const getDurationOptions = (block: PlannedBlock) => {
+    const options = Array.from(
+      { length: Math.floor((timeGrid.dayEndHour * 60 - block.startMinutes) / timeGrid.slotMinutes) },
+      (_, index) => (index + 1) * timeGrid.slotMinutes,
+    )
+    return options.includes(block.durationMinutes)
+      ? options
+      : [...options, block.durationMinutes].sort((a, b) => a - b)
+  }
+
+  const updateSettings = (projectId: string, changes: Partial<ProjectPlanSettings>) => {
+    setSettings((prev) => ({ ...prev, [projectId]: { ...prev[projectId], ...changes } }))
+  }
+
+  const handlePlan = () => {
+    const requests = projects
+      .filter((project) => settings[project.id].included && settings[project.id].effortHours > 0)
+      .map((project) => ({
+        projectId: project.id,
+        effortMinutes: Math.round(settings[project.id].effortHours * 60),
+        priority: settings[project.id].priority,
+        preferredSection: settings[project.id].preferredSection,
+      }))
+    if (requests.length === 0) {
+      alert("Please pick at least one project with some time to spend.")
+      return
+    }
+    setPreview(onPlan(requests))
+  }
+
+  const updateBlock = (index: number, changes: Partial<PlannedBlock>) => {
+    setPreview((prev) =>
+      prev && { ...prev, blocks: prev.blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)) },
+    )
+  }
+
+  const removeBlock = (index: number) => {
+    setPreview((prev) => prev && { ...prev, blocks: prev.blocks.filter((_, i) => i !== index) })
+  }
+
+  const renderColorDot = (project: Project) => {
+    const color = getColorProps(project.color)
+    return (
+      <span
+        className={`mr-2 h-3 w-3 shrink-0 rounded-full ${color.className}`}
+        style={color.style}
+        aria-hidden="true"
+      />
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 print:hidden"
+      onClick={onCancel}
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="auto-plan-title"
+        className="w-[36rem] max-w-full rounded-lg bg-white p-4 text-sm shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="auto-plan-title" className="mb-3 font-semibold text-gray-800">
+          自动安排 (Auto-plan) {formatDateLabel(dateKey)}
+        </h3>
+
+        {!preview ? (
+          <>
+            <p className="mb-2 text-gray-600">
+              Projects are placed into free slots, highest priority first. Slots with calendar events or scheduled
+              blocks are skipped.
+            </p>
+            <ul className="mb-3 max-h-80 space-y-1 overflow-y-auto">
+              {projects.map((project) => {
+                const projectSettings = settings[project.id]
+                return (
+                  <li key={project.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`auto-plan-${project.id}`}
+                      checked={projectSettings.included}
+                      onCheckedChange={(checked) => updateSettings(project.id, { included: checked === true })}
+                    />
+                    <label
+                      htmlFor={`auto-plan-${project.id}`}
+                      className="flex min-w-0 flex-grow cursor-pointer items-center text-gray-700"
+                    >
+                      {renderColorDot(project)}
+                      <span className="truncate">{project.name}</span>
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={timeGrid.slotMinutes / 60}
+                      value={projectSettings.effortHours}
+                      onChange={(e) => updateSettings(project.id, { effortHours: Math.max(0, Number(e.target.value)) })}
+                      disabled={!projectSettings.included}
+                      className="w-16 rounded border border-gray-300 px-1 py-0.5"
+                      aria-label={`Hours for ${project.name}`}
+                    />
+                    <span className="text-gray-500">h</span>
+                    <select
+                      value={projectSettings.priority}
+                      onChange={(e) => updateSettings(project.id, { priority: e.target.value as ProjectPriority })}
+                      disabled={!projectSettings.included}
+                      className="rounded border border-gray-300 px-1 py-0.5"
+                      aria-label={`Priority of ${project.name}`}
+                    >
+                      {PROJECT_PRIORITIES.map((priority) => (
+                        <option key={priority} value={priority}>
+                          {PRIORITY_LABELS[priority]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={projectSettings.preferredSection ?? ""}
+                      onChange={(e) =>
+                        updateSettings(project.id, {
+                          preferredSection: (e.target.value || null) as TimeSectionKey | null,
+                        })
+                      }
+                      disabled={!projectSettings.included}
+                      className="rounded border border-gray-300 px-1 py-0.5"
+                      aria-label={`Preferred time for ${project.name}`}
+                    >
+                      <option value="">任何时间 (Any time)</option>
+                      {sections.map((section) => (
+                        <option key={section.key} value={section.key}>
+                          {section.name}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                )
+              })}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handlePlan} autoFocus>
+                Preview
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            {preview.blocks.length === 0 && <p className="mb-2 text-gray-600">No free time left on this day.</p>}
+            <ul className="mb-3 max-h-80 space-y-1 overflow-y-auto">
+              {preview.blocks.map((block, index) => {
+                const project = projectsById[block.projectId]
+                return (
+                  <li key={`${block.projectId}-${index}`} className="flex items-center gap-2">
+                    <select
+                      value={block.startMinutes}
+                      onChange={(e) => updateBlock(index, { startMinutes: Number(e.target.value) })}
+                      className="rounded border border-gray-300 px-1 py-0.5"
+                      aria-label="Start time"
+                    >
+                      {slots.map((slot) => (
+                        <option key={slot.id} value={slot.startMinutes}>
+                          {formatMinutes(slot.startMinutes)}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={block.durationMinutes}
+                      onChange={(e) => updateBlock(index, { durationMinutes: Number(e.target.value) })}
+                      className="rounded border border-gray-300 px-1 py-0.5"
+                      aria-label="Duration"
+                    >
+                      {getDurationOptions(block).map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {minutes} min
+                        </option>
+                      ))}
+                    </select>
+                    <span className="flex min-w-0 flex-grow items-center text-gray-700">
+                      {renderColorDot(project)}
+                      <span className="truncate">{project.name}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeBlock(index)}
+                      title="Remove block"
+                      aria-label="Remove block"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+            {preview.unplaced.length > 0 && (
+              <p className="mb-3 text-xs text-amber-700">
+                Not enough free time for:{" "}
+                {preview.unplaced
+                  .map(({ projectId, minutes }) => `${projectsById[projectId].name} (${minutes} min)`)
+                  .join(", ")}
+              </p>
+            )}
+            {preview.roundedUp.length > 0 && (
+              <p className="mb-3 text-xs text-gray-600">
+                Rounded up to a whole slot:{" "}
+                {preview.roundedUp
+                  .map(({ projectId, minutes }) => `${projectsById[projectId].name} (+${minutes} min)`)
+                  .join(", ")}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => onApply(preview.blocks)}
+                disabled={preview.blocks.length === 0}
+                autoFocus
+              >
+                Apply
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+// components/schedule-builder/calendar-event-card.tsx
+// 这个组件显示一个外部日历事件。事件是只读的，不能拖动或删除；点击后显示事件的详细信息。
+// This component shows an external calendar event. Events are read-only and can't be dragged or deleted;
+// clicking one opens a popover with its details.
+"use client"
+
+import { useState } from "react"
+import type { CalendarEvent } from "@/types/schedule"
+import { Button } from "@/components/ui/button"
+import { ExternalLink, MapPin, Users, X } from "lucide-react"
+import { getColorProps } from "@/lib/colors"
+import { formatEventTimeRange } from "@/lib/calendar-events"
+
+interface CalendarEventCardProps {
+  event: CalendarEvent
+  compact?: boolean // 周视图中使用的紧凑样式 (Compact style used in the week view)
+  showTime?: boolean // 在标题下显示时间 (Show the time below the title)
+}
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: "已接受 (Accepted)",
+  declined: "已拒绝 (Declined)",
+  tentative: "暂定 (Maybe)",
+  needsAction: "未回复 (No reply)",
+}
+
+export function CalendarEventCard({ event, compact = false, showTime = false }: CalendarEventCardProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const color = getColorProps(event.color)
+
+  return (
+    <div className="relative h-full">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        style={color.style}
+        className={`h-full w-full overflow-hidden rounded border border-dashed border-white/70 px-1.5 text-left opacity-90 hover:opacity-100 ${
+          compact ? "py-0 text-[10px]" : "py-0.5 text-xs"
+        } ${color.className}`}
+        title={event.title}
+        aria-expanded={isOpen}
+      >
+        <span className="block truncate font-medium">{event.title}</span>
+        {showTime && !compact && <span className="block truncate opacity-80">{formatEventTimeRange(event)}</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border border-gray-200 bg-white p-3 text-sm text-gray-700 shadow-lg print:hidden">
+          <div className="mb-1 flex items-start justify-between gap-2">
+            <h3 className="font-semibold break-words">{event.title}</h3>
+            <Button
+              onClick={() => setIsOpen(false)}
+              variant="ghost"
+              size="sm"
+              className="h-5 w-5 shrink-0 p-0"
+              aria-label="Close"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-600">{formatEventTimeRange(event)}</p>
+          <p className="mb-2 text-xs text-gray-500">{event.calendarName}</p>
+          {event.location && (
+            <p className="mb-2 flex items-start gap-1.5 text-xs">
+              <MapPin className="mt-0.5 h-3 w-3 shrink-0" />
+              <span className="break-words">{event.location}</span>
+            </p>
+          )}
+          {event.attendees && (
+            <div className="mb-2 text-xs">
+              <p className="mb-0.5 flex items-center gap-1.5 font-medium">
+                <Users className="h-3 w-3" /> 参与者 (Attendees)
+              </p>
+              <ul className="max-h-32 space-y-0.5 overflow-y-auto pl-4">
+                {event.attendees.map((attendee) => (
+                  <li key={attendee.email} className="truncate" title={attendee.email}>
+                    {attendee.name || attendee.email}
+                    {attendee.responseStatus && (
+                      <span className="text-gray-400">
+                        {" "}
+                        · {RESPONSE_LABELS[attendee.responseStatus] ?? attendee.responseStatus}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {event.url && (
+            <a
+              href={event.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1.5 text-xs text-sky-700 hover:underline"
+            >
+              <ExternalLink className="h-3 w-3" /> 在日历中打开 (Open in calendar)
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
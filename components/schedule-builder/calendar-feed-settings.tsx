@@ -0,0 +1,132 @@
+// components/schedule-builder/calendar-feed-settings.tsx
+// 这个组件管理日历订阅链接。手机的日历应用订阅这个链接后会自动显示计划的时间块，链接可以随时换新或关闭。
+// This component manages the calendar subscription link. A phone's calendar app that subscribes to the link shows the
+// planned blocks automatically; the link can be replaced or turned off at any time.
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Copy, Loader2, Rss } from "lucide-react"
+import { createCalendarFeed, getCalendarFeed, revokeCalendarFeed } from "@/lib/storage-actions"
+import type { CalendarFeed } from "@/lib/server-storage"
+
+interface CalendarFeedSettingsProps {
+  profileId: string // 新链接订阅的配置文件 (The profile a new link subscribes to)
+}
+
+const getFeedUrl = (token: string) => `${window.location.origin}/api/feed/${token}.ics`
+
+export function CalendarFeedSettings({ profileId }: CalendarFeedSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  // 打开时从服务器读取 (Read from the server when opened)
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+
+  const runFeedAction = async (action: () => Promise<void>, message: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+    } catch (error) {
+      console.error(message, error)
+      alert(message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleToggle = () => {
+    const nextOpen = !isOpen
+    setIsOpen(nextOpen)
+    if (!nextOpen) return
+    runFeedAction(async () => setFeed(await getCalendarFeed()), "Failed to load your calendar link. Please try again.")
+  }
+
+  // 时间块按这个浏览器的时区写入订阅 (Blocks are written to the feed in this browser's time zone)
+  const handleCreate = () => {
+    if (feed && !window.confirm("Create a new link? Calendars subscribed to the current link will stop updating.")) {
+      return
+    }
+    runFeedAction(
+      async () => setFeed(await createCalendarFeed(profileId, Intl.DateTimeFormat().resolvedOptions().timeZone)),
+      "Failed to create a calendar link. Please try again.",
+    )
+  }
+
+  const handleRevoke = () => {
+    if (!window.confirm("Turn off the link? Calendars subscribed to it will stop updating.")) return
+    runFeedAction(async () => {
+      await revokeCalendarFeed()
+      setFeed(null)
+    }, "Failed to turn off the calendar link. Please try again.")
+  }
+
+  const handleCopy = async () => {
+    if (!feed) return
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(feed.token))
+    } catch (error) {
+      console.error("Failed to copy the calendar link:", error)
+      alert("Could not copy the link. Please select it and copy it yourself.")
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Button onClick={handleToggle} variant="outline" size="sm" aria-expanded={isOpen}>
+        <Rss className="mr-1.5 h-4 w-4" /> Subscribe
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-1 w-80 rounded-md border border-gray-200 bg-white p-3 text-sm shadow-lg">
+          <h3 className="mb-2 font-semibold text-gray-700">日历订阅 (Calendar subscription)</h3>
+          <p className="mb-2 text-gray-600">
+            Add this link to your phone&apos;s calendar app to see your planned blocks there. Anyone with the link can
+            see them.
+          </p>
+          {isLoading && !feed ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+          ) : feed ? (
+            <>
+              <div className="mb-2 flex gap-1">
+                <input
+                  readOnly
+                  value={getFeedUrl(feed.token)}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full rounded border border-gray-300 px-1 py-0.5 text-xs"
+                  aria-label="Calendar link"
+                />
+                <Button variant="outline" size="sm" onClick={handleCopy} title="Copy link" aria-label="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              {feed.profileId !== profileId && (
+                <p className="mb-2 text-xs text-amber-700">
+                  This link shows another profile. Create a new link to subscribe to this one.
+                </p>
+              )}
+              <div className="flex justify-between">
+                <a
+                  href={getFeedUrl(feed.token).replace(/^https?:/, "webcal:")}
+                  className="self-center text-xs text-blue-600 hover:underline"
+                >
+                  在日历应用中打开 (Open in calendar app)
+                </a>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleCreate} disabled={isLoading}>
+                    New link
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isLoading}>
+                    Turn off
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <Button size="sm" onClick={handleCreate} disabled={isLoading}>
+              Create link
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
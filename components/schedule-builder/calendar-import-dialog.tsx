@@ -0,0 +1,123 @@
+// components/schedule-builder/calendar-import-dialog.tsx
+// 这个对话框让用户选择要导入的日历和日期范围，默认是当前视图中的日期。日历可以来自 Google 日历或 .ics 文件。
+// This dialog lets the user pick which calendars to import and the date range, defaulting to the current view. The
+// calendars come from Google Calendar or from .ics files.
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import type { ProviderCalendar } from "@/lib/calendar-provider"
+import { getColorProps } from "@/lib/colors"
+import { addDays, isDateKey } from "@/lib/date-utils"
+
+// 一次最多导入的天数 (Most days imported at once)
+export const MAX_IMPORT_DAYS = 31
+
+interface CalendarImportDialogProps {
+  sourceLabel: string // 例如 "Google Calendar" (E.g. "Google Calendar")
+  calendars: ProviderCalendar[]
+  defaultStartDate: string
+  defaultEndDate: string
+  onConfirm: (calendarIds: string[], startDate: string, endDate: string) => void
+  onCancel: () => void
+}
+
+export function CalendarImportDialog({
+  sourceLabel,
+  calendars,
+  defaultStartDate,
+  defaultEndDate,
+  onConfirm,
+  onCancel,
+}: CalendarImportDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    calendars.filter((calendar) => calendar.selected).map((calendar) => calendar.id),
+  )
+  const [startDate, setStartDate] = useState(defaultStartDate)
+  const [endDate, setEndDate] = useState(defaultEndDate)
+
+  const toggleCalendar = (calendarId: string) => {
+    setSelectedIds((prev) => (prev.includes(calendarId) ? prev.filter((id) => id !== calendarId) : [...prev, calendarId]))
+  }
+
+  const handleConfirm = () => {
+    if (!isDateKey(startDate) || !isDateKey(endDate) || endDate < startDate) {
+      alert("Please choose a valid date range.")
+      return
+    }
+    if (addDays(startDate, MAX_IMPORT_DAYS - 1) < endDate) {
+      alert(`Please choose at most ${MAX_IMPORT_DAYS} days.`)
+      return
+    }
+    onConfirm(selectedIds, startDate, endDate)
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 print:hidden"
+      onClick={onCancel}
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calendar-import-title"
+        className="w-80 rounded-lg bg-white p-4 text-sm shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="calendar-import-title" className="mb-3 font-semibold text-gray-800">
+          导入日历 (Import from {sourceLabel})
+        </h3>
+        <div className="mb-3 flex items-center gap-2">
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full rounded border border-gray-300 px-1 py-0.5"
+            aria-label="From"
+          />
+          <span className="text-gray-500">-</span>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="w-full rounded border border-gray-300 px-1 py-0.5"
+            aria-label="To"
+          />
+        </div>
+        <ul className="mb-3 max-h-60 space-y-1 overflow-y-auto">
+          {calendars.map((calendar) => {
+            const color = getColorProps(calendar.color)
+            return (
+              <li key={calendar.id} className="flex items-center">
+                <Checkbox
+                  id={`calendar-${calendar.id}`}
+                  checked={selectedIds.includes(calendar.id)}
+                  onCheckedChange={() => toggleCalendar(calendar.id)}
+                  className="mr-2"
+                />
+                <span
+                  className={`mr-2 h-3 w-3 shrink-0 rounded-full ${color.className}`}
+                  style={color.style}
+                  aria-hidden="true"
+                />
+                <label htmlFor={`calendar-${calendar.id}`} className="flex-grow cursor-pointer truncate text-gray-700">
+                  {calendar.name}
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleConfirm} disabled={selectedIds.length === 0} autoFocus>
+            Import
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+// components/schedule-builder/date-navigator.tsx
+// 这个组件用于在不同日期的日程之间切换，周视图下按周翻页。
+// This component switches between the schedules of different dates, paging by week in week view.
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { addDays, formatDateLabel, formatWeekRangeLabel, getTodayKey, isDateKey } from "@/lib/date-utils"
+import type { ScheduleViewMode } from "@/types/schedule"
+
+interface DateNavigatorProps {
+  selectedDate: string
+  viewMode: ScheduleViewMode
+  onDateChange: (dateKey: string) => void
+}
+
+export function DateNavigator({ selectedDate, viewMode, onDateChange }: DateNavigatorProps) {
+  const todayKey = getTodayKey()
+  const step = viewMode === "week" ? 7 : 1
+
+  const handleDateInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // 清空输入框时会得到空字符串 (Clearing the input yields an empty string)
+    if (isDateKey(e.target.value)) {
+      onDateChange(e.target.value)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onDateChange(addDays(selectedDate, -step))}
+        aria-label={viewMode === "week" ? "Previous week" : "Previous day"}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onDateChange(todayKey)}
+        disabled={selectedDate === todayKey}
+      >
+        Today
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onDateChange(addDays(selectedDate, step))}
+        aria-label={viewMode === "week" ? "Next week" : "Next day"}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+      <input
+        type="date"
+        value={selectedDate}
+        onChange={handleDateInputChange}
+        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        aria-label="Jump to date"
+      />
+      <span className="ml-1 text-sm font-medium text-gray-700">
+        {viewMode === "week" ? formatWeekRangeLabel(selectedDate) : formatDateLabel(selectedDate)}
+      </span>
+    </div>
+  )
+}
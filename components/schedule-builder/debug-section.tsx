@@ -1,40 +1,53 @@
 // components/schedule-builder/debug-section.tsx
 // Added comprehensive JSON instructions and "Copy Instructions" button for ChatGPT prompts
+// Applying JSON shows the migration report: which steps ran and what was repaired or dropped.
 "use client"
 
 import type React from "react"
 import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import type { Project, ScheduleData } from "@/types/schedule"
+import type { CalendarEvent, Project, SchedulesByDate, TimeEntry, TimeGridSettings } from "@/types/schedule"
+import type { MigrationReport } from "@/lib/migration"
+import { buildTimeSections, formatMinutes, type TimeSectionConfig } from "@/lib/time-grid"
 import { ClipboardCopy, Check, Trash2, Download, Upload, BookOpen } from "lucide-react"
 
 interface DebugDataFormat {
   version: string
   projects: Project[]
-  schedule: ScheduleData
+  schedules: SchedulesByDate
+  events?: CalendarEvent[]
+  timeEntries?: TimeEntry[]
   nextColorIndex?: number
+  timeGrid?: TimeGridSettings
 }
 
 interface DebugSectionProps {
   projects: Project[]
-  scheduleData: ScheduleData
+  schedules: SchedulesByDate
+  events: CalendarEvent[]
+  timeEntries: TimeEntry[]
   nextColorIndex: number
-  onStateApply: (newData: DebugDataFormat) => void
+  timeGrid: TimeGridSettings
+  onStateApply: (newData: DebugDataFormat) => MigrationReport
   onClearAllData: () => void
   appVersion: string
 }
 
 export function DebugSection({
   projects,
-  scheduleData,
+  schedules,
+  events,
+  timeEntries,
   nextColorIndex,
+  timeGrid,
   onStateApply,
   onClearAllData,
   appVersion,
 }: DebugSectionProps) {
   const [jsonText, setJsonText] = useState("")
   const [error, setError] = useState<string | null>(null)
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null)
   const [copied, setCopied] = useState(false)
   const [instructionsCopied, setInstructionsCopied] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -43,11 +56,14 @@ export function DebugSection({
     const currentState: DebugDataFormat = {
       version: appVersion,
       projects,
-      schedule: scheduleData,
+      schedules,
+      events,
+      timeEntries,
       nextColorIndex,
+      timeGrid,
     }
     return JSON.stringify(currentState, null, 2)
-  }, [projects, scheduleData, nextColorIndex, appVersion])
+  }, [projects, schedules, events, timeEntries, nextColorIndex, timeGrid, appVersion])
 
   useEffect(() => {
     setJsonText(serializeState())
@@ -57,22 +73,25 @@ export function DebugSection({
   const handleTextChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setJsonText(event.target.value)
     setError(null)
+    setMigrationReport(null)
   }
 
   const handleApplyJson = () => {
     try {
-      const parsedData = JSON.parse(jsonText) as DebugDataFormat
+      const parsedData = JSON.parse(jsonText)
+      // 旧版本的单日 "schedule" 也可以导入，会被迁移到今天 (Legacy single-day "schedule" is accepted and migrated into today)
+      const scheduleField = parsedData?.schedules ?? parsedData?.schedule
       if (
         typeof parsedData === "object" &&
         parsedData !== null &&
         Array.isArray(parsedData.projects) &&
-        typeof parsedData.schedule === "object" &&
-        parsedData.schedule !== null
+        typeof scheduleField === "object" &&
+        scheduleField !== null
       ) {
-        onStateApply(parsedData)
+        setMigrationReport(onStateApply(parsedData as DebugDataFormat))
         setError(null)
       } else {
-        throw new Error("Invalid data structure. Expected projects array and schedule object.")
+        throw new Error("Invalid data structure. Expected projects array and schedules object.")
       }
     } catch (e: any) {
       console.error("Error parsing or applying JSON:", e)
@@ -92,20 +111,40 @@ export function DebugSection({
     }
   }
 
+  const timeSections = buildTimeSections(timeGrid)
+  const sectionRangeLabel = (section: TimeSectionConfig) => {
+    const lastSlot = section.slots[section.slots.length - 1]
+    return `${formatMinutes(section.slots[0].startMinutes)}-${formatMinutes(lastSlot.endMinutes)}`
+  }
+
   const handleCopyInstructions = async () => {
+    // 时间范围根据用户当前的时间网格生成 (Time ranges are generated from the user's current time grid)
+    const dayStartMinutes = timeGrid.dayStartHour * 60
+    const dayEndMinutes = timeGrid.dayEndHour * 60
+    const timeSectionsText = timeSections
+      .map((section) => `- ${section.key[0].toUpperCase()}${section.key.slice(1)}: ${sectionRangeLabel(section)}`)
+      .join("\n")
+    const [firstSlot, secondSlot] = [
+      timeSections[0].slots[1] ?? timeSections[0].slots[0],
+      timeSections[timeSections.length - 1].slots[0],
+    ]
+
     const instructionsText = `Please generate a JSON file for a personal schedule builder application. Here's what you need to know:
 
 ## APPLICATION OVERVIEW
-This is a personal schedule builder that helps users organize projects and schedule them into specific time slots throughout the day. Users can create projects with sub-tasks and then drag these projects into time slots to create a daily schedule.
+This is a personal schedule builder that helps users organize projects and schedule them into specific time slots throughout the day. Users can create projects with sub-tasks and then drag these projects into time slots to build a schedule for each calendar date.
 
 ## JSON STRUCTURE EXPLANATION
 
 ### 1. ROOT OBJECT
-The JSON has 4 main properties:
-- \`version\`: Always use "1.0.3" (this is the current app version)
+The JSON has 7 main properties:
+- \`version\`: Always use "${appVersion}" (this is the current app version)
 - \`projects\`: Array of project objects (the work items to be scheduled)
-- \`schedule\`: Object that maps time slots to scheduled tasks
+- \`schedules\`: Object that maps dates ("YYYY-MM-DD") to that day's list of scheduled tasks
+- \`events\`: Array of events imported from external calendars. They are read-only, keep them unchanged
+- \`timeEntries\`: Array of time actually spent, recorded by the app's timer ({"id", "projectId", optional "taskId", "startedAt" and "endedAt" as ISO timestamps}). Keep existing entries unchanged; a new plan starts with []
 - \`nextColorIndex\`: Number for color cycling (usually 0-11)
+- \`timeGrid\`: The day's time grid: {"dayStartHour": ${timeGrid.dayStartHour}, "dayEndHour": ${timeGrid.dayEndHour}, "slotMinutes": ${timeGrid.slotMinutes}}. Keep these values.
 
 ### 2. PROJECTS ARRAY
 Each project represents a work item or task group. Structure:
@@ -114,6 +153,10 @@ Each project represents a work item or task group. Structure:
   "id": "unique-project-id",
   "name": "Human-readable project name",
   "color": "bg-[color]-500 text-white",
+  "dueDate": "2024-10-25",
+  "estimatedHours": 6,
+  "priority": "high",
+  "description": "Optional free-text notes about the project",
   "subTasks": [
     {
       "id": "unique-subtask-id",
@@ -123,43 +166,37 @@ Each project represents a work item or task group. Structure:
   ]
 }
 \`\`\`
+- \`dueDate\`, \`estimatedHours\`, \`priority\` and \`description\` are optional; leave out the ones that don't apply
+- \`dueDate\` is a "YYYY-MM-DD" date and \`estimatedHours\` is a number of hours (0 or more)
+- \`priority\` is "high", "medium" or "low"
+- The app warns when fewer hours are scheduled on or before \`dueDate\` than \`estimatedHours\`
 
-### 3. SCHEDULE OBJECT
-The schedule maps time slot IDs to arrays of scheduled tasks. Time slots are:
-
-**Morning (8 AM - 12 PM):**
-- slot-morning-08 (8:00-9:00 AM)
-- slot-morning-09 (9:00-10:00 AM)
-- slot-morning-10 (10:00-11:00 AM)
-- slot-morning-11 (11:00 AM-12:00 PM)
-
-**Afternoon (12 PM - 6 PM):**
-- slot-afternoon-12 (12:00-1:00 PM)
-- slot-afternoon-13 (1:00-2:00 PM)
-- slot-afternoon-14 (2:00-3:00 PM)
-- slot-afternoon-15 (3:00-4:00 PM)
-- slot-afternoon-16 (4:00-5:00 PM)
-- slot-afternoon-17 (5:00-6:00 PM)
-
-**Evening (6 PM - 12 AM):**
-- slot-evening-18 (6:00-7:00 PM)
-- slot-evening-19 (7:00-8:00 PM)
-- slot-evening-20 (8:00-9:00 PM)
-- slot-evening-21 (9:00-10:00 PM)
-- slot-evening-22 (10:00-11:00 PM)
-- slot-evening-23 (11:00 PM-12:00 AM)
+### 3. SCHEDULES OBJECT
+The schedules object maps dates in "YYYY-MM-DD" format (e.g. "2024-10-21") to arrays of scheduled tasks, sorted by start time.
+
+The day runs from ${formatMinutes(dayStartMinutes)} to ${formatMinutes(dayEndMinutes)} in ${timeGrid.slotMinutes}-minute slots:
+${timeSectionsText}
+
+Times are given in minutes since midnight (e.g. 540 = 09:00, 810 = 13:30). A task can span several slots.
 
 ### 4. SCHEDULED TASK STRUCTURE
-When a project is scheduled into a time slot:
+When a project is scheduled:
 \`\`\`json
 {
   "id": "unique-scheduled-task-id",
   "projectId": "reference-to-original-project-id",
-  "projectName": "Copy of project name",
-  "projectColor": "Copy of project color",
-  "originalProjectSubTasks": [/* Copy of project's subTasks array */]
+  "startMinutes": 540,
+  "durationMinutes": 90,
+  "title": "Optional label shown instead of the project name",
+  "subTaskIds": ["optional-sub-task-id"]
 }
 \`\`\`
+- Scheduled tasks only reference their project by \`projectId\`; name, color and sub-tasks come from the project
+- \`projectId\` must match the id of a project in \`projects\`
+- \`subTaskIds\` optionally lists the project's sub-tasks this block is for; omit it to schedule the whole project
+- \`startMinutes\` must be a multiple of ${timeGrid.slotMinutes} between ${dayStartMinutes} and ${dayEndMinutes - timeGrid.slotMinutes}
+- \`durationMinutes\` must be a multiple of ${timeGrid.slotMinutes}, and the task must end by ${dayEndMinutes}
+- At most 3 tasks may overlap at any moment
 
 ### 5. AVAILABLE COLORS
 Use these exact color combinations:
@@ -179,12 +216,16 @@ Use these exact color combinations:
 ## EXAMPLE COMPLETE JSON
 \`\`\`json
 {
-  "version": "1.0.3",
+  "version": "${appVersion}",
   "projects": [
     {
       "id": "marketing-campaign-2024",
       "name": "Q4 Marketing Campaign",
       "color": "bg-blue-500 text-white",
+      "dueDate": "2024-10-25",
+      "estimatedHours": 8,
+      "priority": "high",
+      "description": "Launch the Q4 campaign across social media and email",
       "subTasks": [
         {
           "id": "social-media-content",
@@ -226,49 +267,25 @@ Use these exact color combinations:
       ]
     }
   ],
-  "schedule": {
-    "slot-morning-09": [
+  "schedules": {
+    "2024-10-21": [
       {
         "id": "scheduled-marketing-morning",
         "projectId": "marketing-campaign-2024",
-        "projectName": "Q4 Marketing Campaign",
-        "projectColor": "bg-blue-500 text-white",
-        "originalProjectSubTasks": [
-          {
-            "id": "social-media-content",
-            "text": "Create social media posts",
-            "completed": false
-          },
-          {
-            "id": "email-templates",
-            "text": "Design email templates",
-            "completed": false
-          }
-        ]
-      }
-    ],
-    "slot-afternoon-14": [
+        "subTaskIds": ["social-media-content"],
+        "startMinutes": ${firstSlot.startMinutes},
+        "durationMinutes": ${Math.min(120, dayEndMinutes - firstSlot.startMinutes)}
+      },
       {
         "id": "scheduled-website-afternoon",
         "projectId": "website-redesign",
-        "projectName": "Company Website Redesign",
-        "projectColor": "bg-purple-500 text-white",
-        "originalProjectSubTasks": [
-          {
-            "id": "wireframes",
-            "text": "Create wireframes",
-            "completed": false
-          },
-          {
-            "id": "prototype",
-            "text": "Build interactive prototype",
-            "completed": false
-          }
-        ]
+        "startMinutes": ${secondSlot.startMinutes},
+        "durationMinutes": ${timeGrid.slotMinutes}
       }
     ]
   },
-  "nextColorIndex": 2
+  "nextColorIndex": 2,
+  "timeGrid": ${JSON.stringify(timeGrid)}
 }
 \`\`\`
 
@@ -277,11 +294,13 @@ Use these exact color combinations:
 2. Use diverse colors from the available palette
 3. Schedule projects logically (e.g., creative work in morning, meetings in afternoon)
 4. Include 3-8 projects with 2-5 sub-tasks each
-5. Schedule 40-60% of available time slots (don't fill every hour)
+5. Schedule 40-60% of the day (don't fill every slot), using longer blocks for focused work
 6. Make some sub-tasks completed (true) to show progress
 7. Use descriptive, actionable sub-task names
 8. Ensure all IDs are unique across the entire JSON
-9. Same project can be in multiple time slot
+9. Same project can be scheduled several times a day
+10. Plan one or more days, using real dates as keys of "schedules"
+11. Give projects with a deadline a due date, an estimate and a priority, and schedule enough hours before the due date
 
 Please generate a complete JSON following this structure for a realistic work schedule.`
 
@@ -297,7 +316,7 @@ Please generate a complete JSON following this structure for a realistic work sc
   }
 
   const handleClearDataConfirm = () => {
-    if (window.confirm("Are you sure you want to clear all application data? This cannot be undone.")) {
+    if (window.confirm("Are you sure you want to clear all data in this profile? You can still undo this until you reload the page.")) {
       onClearAllData()
     }
   }
@@ -333,6 +352,7 @@ Please generate a complete JSON following this structure for a realistic work sc
           const content = e.target?.result as string
           JSON.parse(content) // Try parsing to catch immediate errors
           setJsonText(content)
+          setMigrationReport(null)
           setError(null)
         } catch (err: any) {
           console.error("Error reading or parsing imported file:", err)
@@ -362,7 +382,7 @@ Please generate a complete JSON following this structure for a realistic work sc
         className="w-full p-2 bg-gray-900 text-gray-100 border border-gray-700 rounded-md font-mono text-xs focus:ring-sky-500 focus:border-sky-500"
         placeholder={`Example JSON structure:
 {
-  "version": "1.0.3",
+  "version": "${appVersion}",
   "projects": [
     {
       "id": "proj-1",
@@ -377,14 +397,13 @@ Please generate a complete JSON following this structure for a realistic work sc
       ]
     }
   ],
-  "schedule": {
-    "slot-morning-08": [
+  "schedules": {
+    "2024-10-21": [
       {
         "id": "scheduled-1",
         "projectId": "proj-1",
-        "projectName": "Marketing Campaign",
-        "projectColor": "bg-blue-500 text-white",
-        "originalProjectSubTasks": [...]
+        "startMinutes": 480,
+        "durationMinutes": 90
       }
     ]
   },
@@ -446,33 +465,89 @@ Please generate a complete JSON following this structure for a realistic work sc
         </Button>
       </div>
       {error && <p className="mt-2 text-red-400 text-sm">{error}</p>}
+      {migrationReport && <MigrationReportPanel report={migrationReport} onDismiss={() => setMigrationReport(null)} />}
       <div className="mt-3 p-3 bg-gray-900 rounded-md text-xs text-gray-300">
         <h4 className="font-semibold text-yellow-300 mb-2">📋 Quick Reference:</h4>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <div>
-            <strong className="text-blue-300">Time Slots:</strong>
-            <br />• Morning: slot-morning-08 to 11
-            <br />• Afternoon: slot-afternoon-12 to 17
-            <br />• Evening: slot-evening-18 to 23
+            <strong className="text-blue-300">Time Slots ({timeGrid.slotMinutes} min):</strong>
+            {timeSections.map((section) => (
+              <span key={section.key}>
+                <br />• {section.key}: {sectionRangeLabel(section)}
+              </span>
+            ))}
+            <br />• Times are minutes since midnight (540 = 09:00)
           </div>
           <div>
             <strong className="text-green-300">Required Fields:</strong>
-            <br />• All objects need unique "id" fields
+            <br />• All objects need unique &quot;id&quot; fields
             <br />• Projects need name, color, subTasks
-            <br />• Schedule tasks copy project data
-            <br />• Same Project can take multiple hour sections
+            <br />• Optional: dueDate, estimatedHours, priority, description
+            <br />• Schedule tasks reference projectId
+            <br />• Tasks need startMinutes and durationMinutes
+            <br />• Schedules are keyed by date (YYYY-MM-DD)
           </div>
         </div>
         <div className="mt-2">
           <strong className="text-purple-300">Colors:</strong> bg-blue-500, bg-pink-500, bg-amber-500, bg-rose-500,
           bg-sky-500, bg-purple-500, bg-green-500, bg-fuchsia-500, bg-teal-500, bg-cyan-500, bg-lime-500, bg-orange-500
-          (all with "text-white")
+          (all with &quot;text-white&quot;)
         </div>
         <div className="mt-2 pt-2 border-t border-gray-700">
-          <strong className="text-yellow-300">💡 Tip:</strong> Click "Copy with Instructions" to get a complete
+          <strong className="text-yellow-300">💡 Tip:</strong> Click &quot;Copy with Instructions&quot; to get a complete
           prompt you can paste directly into AI tools to generate realistic schedule data!
         </div>
       </div>
     </div>
   )
 }
+
+interface MigrationReportPanelProps {
+  report: MigrationReport
+  onDismiss: () => void
+}
+
+// 显示导入时执行的迁移步骤和验证发现的问题 (Shows the migration steps run on import and the problems validation found)
+function MigrationReportPanel({ report, onDismiss }: MigrationReportPanelProps) {
+  const droppedCount = report.issues.filter((issue) => issue.action === "dropped").length
+  const repairedCount = report.issues.length - droppedCount
+
+  return (
+    <div className="mt-3 p-3 bg-gray-900 rounded-md text-xs text-gray-300">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-sky-300">
+          Import report: version {report.fromVersion} → {report.toVersion}
+        </h4>
+        <button type="button" onClick={onDismiss} className="text-gray-400 hover:text-gray-200">
+          Dismiss
+        </button>
+      </div>
+      {report.appliedSteps.length > 0 ? (
+        <ol className="list-decimal list-inside mb-2 space-y-0.5">
+          {report.appliedSteps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mb-2">Already at the current version, no migration steps needed.</p>
+      )}
+      {report.issues.length === 0 ? (
+        <p className="text-green-400">✓ Data is valid, nothing was repaired or dropped.</p>
+      ) : (
+        <>
+          <p className="mb-1">
+            <span className="text-amber-300">{repairedCount} repaired</span>,{" "}
+            <span className="text-red-400">{droppedCount} dropped</span>
+          </p>
+          <ul className="max-h-48 overflow-y-auto space-y-0.5 font-mono">
+            {report.issues.map((issue, index) => (
+              <li key={index} className={issue.action === "dropped" ? "text-red-400" : "text-amber-300"}>
+                [{issue.action}] {issue.path || "(root)"}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
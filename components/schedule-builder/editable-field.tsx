@@ -24,10 +24,15 @@ export function EditableField({
   const [isEditing, setIsEditing] = useState(false)
   const [value, setValue] = useState(initialValue)
   const inputRef = useRef<HTMLInputElement | HTMLTextAreaElement>(null)
+  // 开始编辑时的文本 (The text when editing started)
+  const editStartValueRef = useRef(initialValue)
 
+  // 编辑时不覆盖正在输入的文本，例如其他标签页传来的修改；结束编辑后显示最新的值
+  // (While editing, incoming changes such as another tab's edits don't overwrite the text being typed;
+  // the latest value is shown once editing ends)
   useEffect(() => {
-    setValue(initialValue)
-  }, [initialValue])
+    if (!isEditing) setValue(initialValue)
+  }, [initialValue, isEditing])
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -38,9 +43,13 @@ export function EditableField({
     }
   }, [isEditing])
 
+  // 只有用户改过文本才保存，这样没有修改的失焦不会覆盖编辑期间收到的远程修改
+  // (Only save when the user changed the text, so a blur without edits doesn't overwrite a remote edit that arrived
+  // while editing)
   const handleSave = () => {
-    if (value.trim() !== initialValue.trim() && value.trim() !== "") {
-      onSave(value.trim())
+    const trimmed = value.trim()
+    if (trimmed !== editStartValueRef.current.trim() && trimmed !== "") {
+      onSave(trimmed)
     } else {
       setValue(initialValue)
     }
@@ -58,6 +67,7 @@ export function EditableField({
 
   const handleSpanClick = (e: React.MouseEvent<HTMLSpanElement>) => {
     e.stopPropagation() // Prevent drag when clicking to edit
+    editStartValueRef.current = value
     setIsEditing(true)
   }
 
@@ -1,87 +1,51 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { useSession, signIn, signOut } from "next-auth/react"
 import { Button } from "@/components/ui/button"
-import { Calendar, Loader2, LogOut } from "lucide-react"
-import { getCalendarEvents } from "@/lib/actions"
-import type { ScheduledTask, SubTask } from "@/types/schedule"
+import { Calendar, CalendarArrowUp, Loader2, LogOut } from "lucide-react"
+import type { CalendarProvider } from "@/lib/calendar-provider"
+import { createGoogleCalendarProvider } from "@/lib/google-calendar-provider"
+import { useCalendarImport, type CalendarSyncHandler } from "@/hooks/use-calendar-import"
+import { CalendarImportDialog } from "@/components/schedule-builder/calendar-import-dialog"
 
 interface GoogleCalendarSyncProps {
-  onSync: (newTasks: ScheduledTask[], googleProjectId: string) => void
+  profileId: string | null // syncToken 按配置文件保存 (syncTokens are kept per profile)
+  dateKeys: string[] // 当前视图中的日期，作为默认的导入范围 (The dates in the current view, the default import range)
+  onSync: CalendarSyncHandler
+  onExport: (provider: CalendarProvider) => Promise<void>
 }
 
-export function GoogleCalendarSync({ onSync }: GoogleCalendarSyncProps) {
-  const { data: session, status } = useSession()
-  const [isLoading, setIsLoading] = useState(false)
+export function GoogleCalendarSync({ profileId, dateKeys, onSync, onExport }: GoogleCalendarSyncProps) {
+  const { data: session, status, update } = useSession()
+  const provider = useMemo(() => createGoogleCalendarProvider(profileId), [profileId])
+  const [isExporting, setIsExporting] = useState(false)
 
-  const handleSync = async () => {
-    setIsLoading(true)
-    try {
-      // Get start and end of today in local time
-      const now = new Date()
-      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0)
-      const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59)
-
-      const events = await getCalendarEvents(startOfDay.toISOString(), endOfDay.toISOString())
-
-      const googleProjectId = "google-calendar-project"
-      const newTasks: ScheduledTask[] = []
+  // 只有刷新 token 真的失败时才要求重新连接，其他错误照常提示
+  // Only ask to reconnect when the token refresh really failed, other errors get the usual message
+  const handleCalendarError = async (error: unknown, message: string) => {
+    console.error(message, error)
+    const refreshedSession = await update()
+    if (refreshedSession?.error === "RefreshTokenError") {
+      if (window.confirm("Your Google Calendar connection has expired. Reconnect now?")) signIn("google")
+      return
+    }
+    alert(message)
+  }
 
-      events.forEach((event: any) => {
-        if (!event.start || (!event.start.dateTime && !event.start.date)) return
+  const { pendingImport, isLoading, openImport, confirmImport, cancelImport } = useCalendarImport(
+    onSync,
+    handleCalendarError,
+  )
 
-        // Handle all-day events (date only) vs timed events (dateTime)
-        // For now, we focus on timed events as they map to slots better.
-        // All-day events default to 8am or we skip them? Let's skip for now or put in first slot.
-        // Let's focus on timed events.
-        
-        let eventDate = new Date(event.start.dateTime || event.start.date)
-        
-        // If it's an all-day event, event.start.dateTime is undefined.
-        // We might want to skip or put in a specific place. 
-        // Current logic: map to hour.
-        
-        const hour = eventDate.getHours()
-        
-        // Map hour to slot ID
-        let section = ""
-        if (hour >= 8 && hour <= 11) section = "morning"
-        else if (hour >= 12 && hour <= 17) section = "afternoon"
-        else if (hour >= 18 && hour <= 23) section = "evening"
-        
-        if (section) {
-          const hourStr = hour.toString().padStart(2, "0")
-          const slotId = `slot-${section}-${hourStr}`
-          
-          newTasks.push({
-            id: `gcal-${event.id}`,
-            projectId: googleProjectId,
-            projectColor: "bg-red-600 text-white",
-            originalProjectSubTasks: [],
-            // We store the slotId temporarily here or return it alongside
-            // Actually ScheduledTask doesn't have slotId, the parent map needs it.
-            // We need to return an object that includes targetSlotId
-             // @ts-ignore
-            targetSlotId: slotId,
-            // Use event summary as subtask or separate field?
-            // The ScheduledTask structure relies on "projectName" usually being the main label 
-            // and "originalProjectSubTasks" for details. 
-            // But visually, the card shows Project Name.
-            // Let's make "Project Name" = "Google Event" and add a subtask with the Title?
-            // Or better: Project Name = Event Summary.
-            projectName: event.summary || "Untitled Event",
-          })
-        }
-      })
-      
-      onSync(newTasks, googleProjectId)
-      
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await onExport(provider)
     } catch (error) {
-      console.error("Sync failed", error)
-      alert("Failed to sync Google Calendar. Please try again.")
+      await handleCalendarError(error, "Failed to export to Google Calendar. Please try again.")
     } finally {
-      setIsLoading(false)
+      setIsExporting(false)
     }
   }
 
@@ -98,15 +62,38 @@ export function GoogleCalendarSync({ onSync }: GoogleCalendarSyncProps) {
     )
   }
 
+  if (session.error === "RefreshTokenError") {
+    return (
+      <Button variant="outline" size="sm" onClick={() => signIn("google")}>
+        <Calendar className="mr-2 h-4 w-4" />
+        Reconnect Calendar
+      </Button>
+    )
+  }
+
   return (
     <div className="flex gap-2">
-      <Button variant="default" size="sm" onClick={handleSync} disabled={isLoading}>
+      <Button variant="default" size="sm" onClick={() => openImport(provider)} disabled={isLoading}>
         {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calendar className="mr-2 h-4 w-4" />}
-        Sync Today
+        Sync
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarArrowUp className="mr-2 h-4 w-4" />}
+        Export
       </Button>
       <Button variant="ghost" size="sm" onClick={() => signOut()}>
         <LogOut className="h-4 w-4" />
       </Button>
+      {pendingImport && (
+        <CalendarImportDialog
+          sourceLabel={pendingImport.provider.label}
+          calendars={pendingImport.calendars}
+          defaultStartDate={dateKeys[0]}
+          defaultEndDate={dateKeys[dateKeys.length - 1]}
+          onConfirm={confirmImport}
+          onCancel={cancelImport}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,87 @@
+// components/schedule-builder/ics-calendar-controls.tsx
+// 不需要登录的日历按钮：导入 .ics 文件中的事件，以及把当前视图的时间块下载为 .ics 文件，供 Outlook 或 Apple 日历使用。
+// Calendar buttons that need no sign-in: import the events in .ics files, and download the current view's blocks as
+// an .ics file for Outlook or Apple Calendar.
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { FileDown, FileUp, Loader2 } from "lucide-react"
+import type { CalendarProvider } from "@/lib/calendar-provider"
+import { createIcsCalendarProvider } from "@/lib/ics-calendar-provider"
+import { useCalendarImport, type CalendarSyncHandler } from "@/hooks/use-calendar-import"
+import { CalendarImportDialog } from "@/components/schedule-builder/calendar-import-dialog"
+
+interface IcsCalendarControlsProps {
+  dateKeys: string[] // 当前视图中的日期，作为默认的导入范围 (The dates in the current view, the default import range)
+  onSync: CalendarSyncHandler
+  onExport: (provider: CalendarProvider) => Promise<void>
+}
+
+const handleError = (error: unknown, message: string) => {
+  console.error(message, error)
+  alert(message)
+}
+
+export function IcsCalendarControls({ dateKeys, onSync, onExport }: IcsCalendarControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // 导出不需要文件 (Exporting needs no files)
+  const exportProvider = useMemo(() => createIcsCalendarProvider([]), [])
+  const { pendingImport, isLoading, openImport, confirmImport, cancelImport } = useCalendarImport(onSync, handleError)
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // 清空后可以再次选择同一个文件 (Cleared so the same file can be chosen again)
+    event.target.value = ""
+    if (files.length === 0) return
+    let provider: CalendarProvider
+    try {
+      provider = createIcsCalendarProvider(
+        await Promise.all(files.map(async (file) => ({ name: file.name, text: await file.text() }))),
+      )
+    } catch (error) {
+      handleError(error, "Could not read the file. Please choose an .ics calendar file.")
+      return
+    }
+    await openImport(provider)
+  }
+
+  const handleExport = async () => {
+    try {
+      await onExport(exportProvider)
+    } catch (error) {
+      handleError(error, "Failed to create the .ics file. Please try again.")
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+        {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+        Import .ics
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport}>
+        <FileDown className="mr-2 h-4 w-4" />
+        Download .ics
+      </Button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".ics,text/calendar"
+        multiple
+        style={{ display: "none" }}
+      />
+      {pendingImport && (
+        <CalendarImportDialog
+          sourceLabel={pendingImport.provider.label}
+          calendars={pendingImport.calendars}
+          defaultStartDate={dateKeys[0]}
+          defaultEndDate={dateKeys[dateKeys.length - 1]}
+          onConfirm={confirmImport}
+          onCancel={cancelImport}
+        />
+      )}
+    </div>
+  )
+}
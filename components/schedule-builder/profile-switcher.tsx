@@ -0,0 +1,69 @@
+// components/schedule-builder/profile-switcher.tsx
+// 这个组件在页头切换配置文件（例如"工作"、"个人"），并可以新建配置文件。
+// This component switches between profiles (e.g. "Work", "Personal") in the header and can create new ones.
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Cloud, HardDrive, Plus } from "lucide-react"
+import type { StorageProfile } from "@/lib/storage-adapter"
+import type { StorageMode } from "@/hooks/use-profile-storage"
+
+interface ProfileSwitcherProps {
+  profiles: StorageProfile[]
+  activeProfileId: string | null
+  storageMode: StorageMode | null
+  onSwitch: (profileId: string) => void
+  onCreate: (name: string) => void
+}
+
+export function ProfileSwitcher({ profiles, activeProfileId, storageMode, onSwitch, onCreate }: ProfileSwitcherProps) {
+  const handleCreate = () => {
+    const name = window.prompt("Name of the new profile:")?.trim()
+    if (!name) return
+    if (profiles.some((profile) => profile.name === name)) {
+      alert(`A profile named "${name}" already exists.`)
+      return
+    }
+    onCreate(name)
+  }
+
+  return (
+    <div className="flex items-center">
+      <label
+        className="flex h-9 items-center gap-1.5 rounded-l-md border border-r-0 border-input bg-background px-2 text-sm"
+        title={storageMode === "server" ? "Saved to your account" : "Saved in this browser"}
+      >
+        {/* 显示数据保存在哪里 (Shows where the data is saved) */}
+        {storageMode === "server" ? (
+          <Cloud className="h-4 w-4 text-gray-500" />
+        ) : (
+          <HardDrive className="h-4 w-4 text-gray-500" />
+        )}
+        <span className="sr-only">Profile</span>
+        <select
+          value={activeProfileId ?? ""}
+          onChange={(e) => onSwitch(e.target.value)}
+          disabled={!activeProfileId}
+          className="bg-transparent outline-none"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <Button
+        onClick={handleCreate}
+        disabled={!activeProfileId}
+        variant="outline"
+        size="sm"
+        className="rounded-l-none"
+        title="New profile"
+        aria-label="New profile"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
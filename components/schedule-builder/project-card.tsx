@@ -1,52 +1,98 @@
 // components/schedule-builder/project-card.tsx
 // This component displays a draggable project card.
 // Ensured stopPropagation for delete button.
+// Each sub-task row can also be dragged on its own into a time slot.
+// The optional details (due date, estimate, priority, description) are edited in a panel that opens from the header.
+// The header's timer records time spent on the project outside of any scheduled block.
 "use client"
 
 import type React from "react"
+import { useEffect, useState } from "react"
 
-import type { Project } from "@/types/schedule"
+import type {
+  DeadlineStatus,
+  Project,
+  ProjectDetails,
+  ProjectPriority,
+  SubTask,
+  TrackedTime,
+} from "@/types/schedule"
+import { useDraggable } from "@dnd-kit/core"
 import { useSortable } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
 import { Card, CardHeader, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { PlusCircle, Trash2 } from "lucide-react"
+import { AlertTriangle, ChevronDown, ChevronUp, GripVertical, PlusCircle, Trash2 } from "lucide-react"
 import { Checkbox } from "@/components/ui/checkbox"
 import { EditableField } from "./editable-field"
+import { selectSubTaskProgress } from "@/lib/selectors"
+import { getColorProps } from "@/lib/colors"
+import { formatWeekdayLabel } from "@/lib/date-utils"
+import { PRIORITY_LABELS, PROJECT_PRIORITIES } from "@/lib/schedule-data"
+import { NO_TRACKED_TIME } from "@/lib/time-tracking"
+import { TimerControl } from "./timer-control"
+
+// 拖动单个子任务时携带的数据 (Data carried while dragging a single sub-task)
+export interface SubTaskDragData {
+  project: Project
+  subTask: SubTask
+}
 
 interface ProjectCardProps {
   project: Project
+  deadlineStatus?: DeadlineStatus | null
+  tracked?: TrackedTime // 项目和它所有时间块的实际时间 (Actual time of the project and all its blocks)
   isOverlay?: boolean
   onSubTaskToggle: (projectId: string, subTaskId: string) => void
   onProjectNameChange: (projectId: string, newName: string) => void
+  onProjectDetailsChange: (projectId: string, details: Partial<ProjectDetails>) => void
   onSubTaskTextChange: (projectId: string, subTaskId: string, newText: string) => void
   onAddSubTask: (projectId: string) => void
   onRemoveSubTask: (projectId: string, subTaskId: string) => void
   onRemoveProject: (projectId: string) => void
+  onTimerToggle: (projectId: string) => void
+}
+
+// 以小时显示分钟数，最多保留一位小数 (Shows minutes as hours with at most one decimal)
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`
+
+const PRIORITY_BADGE_CLASSES: Record<ProjectPriority, string> = {
+  high: "bg-red-100 text-red-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-gray-100 text-gray-600",
 }
 
 export function ProjectCard({
   project,
+  deadlineStatus = null,
+  tracked = NO_TRACKED_TIME,
   isOverlay = false,
   onSubTaskToggle,
   onProjectNameChange,
+  onProjectDetailsChange,
   onSubTaskTextChange,
   onAddSubTask,
   onRemoveSubTask,
   onRemoveProject,
+  onTimerToggle,
 }: ProjectCardProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: project.id,
     data: { type: "project", project },
   })
 
+  const color = getColorProps(project.color)
   const style = {
+    ...color.style,
     transform: CSS.Transform.toString(transform),
     transition,
     opacity: isDragging && !isOverlay ? 0.5 : 1,
     zIndex: isDragging || isOverlay ? 100 : "auto",
   }
 
+  const progress = selectSubTaskProgress(project.subTasks)
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false)
+
   const handleAddNewSubTask = () => {
     onAddSubTask(project.id)
   }
@@ -65,11 +111,16 @@ export function ProjectCard({
     e.stopPropagation() // For checkbox and sub-task delete
   }
 
+  const handleDetailsToggleClick = (e: React.MouseEvent) => {
+    e.stopPropagation() // Keep the header's drag listeners from taking the click
+    setIsDetailsOpen((open) => !open)
+  }
+
   return (
     <Card
       ref={setNodeRef}
       style={style}
-      className={`mb-2 touch-none ${isOverlay ? "shadow-xl" : "shadow-md"} ${project.color}`}
+      className={`mb-2 touch-none ${isOverlay ? "shadow-xl" : "shadow-md"} ${color.className}`}
     >
       <CardHeader
         {...attributes}
@@ -89,6 +140,24 @@ export function ProjectCard({
           />
         </div>
         <div className="flex items-center">
+          {!isOverlay && (
+            <TimerControl
+              tracked={tracked}
+              label={project.name}
+              onToggle={() => onTimerToggle(project.id)}
+              className="mr-1 text-xs"
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDetailsToggleClick}
+            className="p-1 h-auto print:hidden"
+            aria-label={isDetailsOpen ? "Hide project details" : "Show project details"}
+            aria-expanded={isDetailsOpen}
+          >
+            {isDetailsOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -101,32 +170,35 @@ export function ProjectCard({
         </div>
       </CardHeader>
       <CardContent className="p-2 bg-white text-gray-700 rounded-b-md print:p-1 pt-[8]">
+        <ProjectDetailsSummary project={project} deadlineStatus={deadlineStatus} />
+        {isDetailsOpen && !isOverlay && (
+          <ProjectDetailsForm project={project} onProjectDetailsChange={onProjectDetailsChange} />
+        )}
+        {progress.total > 0 && (
+          <div className="flex items-center gap-2 text-[10px] text-gray-500" title="Project progress">
+            <div className="h-1.5 flex-grow rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className="h-full bg-green-500 transition-all"
+                style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+              />
+            </div>
+            <span>
+              {progress.completed}/{progress.total}
+            </span>
+          </div>
+        )}
         <ul className="space-y-1 mt-1 project-card-subtask-list-print-padding">
           {project.subTasks.map((subTask) => (
-            <li key={subTask.id} className="text-xs flex items-center group" onClick={handleSubTaskActionClick}>
-              <Checkbox
-                id={`${project.id}-${subTask.id}`}
-                checked={subTask.completed}
-                onCheckedChange={() => onSubTaskToggle(project.id, subTask.id)}
-                className="mr-2 print:transform print:scale-75"
-              />
-              <div className="flex-grow" onClick={(e) => e.stopPropagation()}>
-                <EditableField
-                  initialValue={subTask.text}
-                  onSave={(newText) => onSubTaskTextChange(project.id, subTask.id, newText)}
-                  className="flex-grow"
-                />
-              </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => onRemoveSubTask(project.id, subTask.id)}
-                className="ml-1 p-0.5 h-auto opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-100 hover:text-red-600 print:hidden"
-                aria-label="Remove sub-task"
-              >
-                <Trash2 size={12} />
-              </Button>
-            </li>
+            <SubTaskRow
+              key={subTask.id}
+              project={project}
+              subTask={subTask}
+              isOverlay={isOverlay}
+              onSubTaskToggle={onSubTaskToggle}
+              onSubTaskTextChange={onSubTaskTextChange}
+              onRemoveSubTask={onRemoveSubTask}
+              onActionClick={handleSubTaskActionClick}
+            />
           ))}
         </ul>
         <Button
@@ -141,3 +213,220 @@ export function ProjectCard({
     </Card>
   )
 }
+
+interface ProjectDetailsSummaryProps {
+  project: Project
+  deadlineStatus: DeadlineStatus | null
+}
+
+// 已填写的信息以小标签显示 (The filled-in details are shown as small badges)
+function ProjectDetailsSummary({ project, deadlineStatus }: ProjectDetailsSummaryProps) {
+  const hasBadges = project.priority || project.dueDate || project.estimatedHours !== undefined
+  if (!hasBadges && !project.description) return null
+
+  return (
+    <div className="mb-1 space-y-1">
+      {hasBadges && (
+        <div className="flex flex-wrap items-center gap-1 text-[10px]">
+          {project.priority && (
+            <span className={`rounded px-1 ${PRIORITY_BADGE_CLASSES[project.priority]}`}>
+              {PRIORITY_LABELS[project.priority]}
+            </span>
+          )}
+          {project.dueDate && (
+            <span className="rounded bg-gray-100 px-1 text-gray-600">
+              截止 (Due) {formatWeekdayLabel(project.dueDate)}
+            </span>
+          )}
+          {deadlineStatus?.isShort ? (
+            <span
+              className="flex items-center rounded bg-amber-100 px-1 text-amber-800"
+              title="Less time is scheduled before the due date than estimated"
+            >
+              <AlertTriangle size={10} className="mr-0.5" />
+              {formatHours(deadlineStatus.scheduledMinutes)} / {formatHours(deadlineStatus.estimatedMinutes)}
+            </span>
+          ) : deadlineStatus ? (
+            <span
+              className="rounded bg-green-100 px-1 text-green-700"
+              title="Enough time is scheduled before the due date"
+            >
+              {formatHours(deadlineStatus.scheduledMinutes)} / {formatHours(deadlineStatus.estimatedMinutes)}
+            </span>
+          ) : (
+            project.estimatedHours !== undefined && (
+              <span className="rounded bg-gray-100 px-1 text-gray-600">
+                预计 (Est.) {formatHours(project.estimatedHours * 60)}
+              </span>
+            )
+          )}
+        </div>
+      )}
+      {project.description && <p className="line-clamp-2 text-xs text-gray-500">{project.description}</p>}
+    </div>
+  )
+}
+
+interface ProjectDetailsFormProps {
+  project: Project
+  onProjectDetailsChange: (projectId: string, details: Partial<ProjectDetails>) => void
+}
+
+// 日期和优先级修改后立即保存，小时数和说明在离开输入框时保存
+// (The date and priority are saved as soon as they change, the hours and description when the field loses focus)
+function ProjectDetailsForm({ project, onProjectDetailsChange }: ProjectDetailsFormProps) {
+  const [hoursDraft, setHoursDraft] = useState(project.estimatedHours?.toString() ?? "")
+  const [descriptionDraft, setDescriptionDraft] = useState(project.description ?? "")
+
+  // 其他标签页的修改会更新草稿 (Edits from other tabs update the drafts)
+  useEffect(() => setHoursDraft(project.estimatedHours?.toString() ?? ""), [project.estimatedHours])
+  useEffect(() => setDescriptionDraft(project.description ?? ""), [project.description])
+
+  const saveHours = () => {
+    const estimatedHours = hoursDraft.trim() === "" ? undefined : Number(hoursDraft)
+    if (estimatedHours === project.estimatedHours) return
+    if (estimatedHours !== undefined && !(estimatedHours >= 0)) {
+      setHoursDraft(project.estimatedHours?.toString() ?? "")
+      return
+    }
+    onProjectDetailsChange(project.id, { estimatedHours })
+  }
+
+  const saveDescription = () => {
+    const description = descriptionDraft.trim()
+    if (description !== (project.description ?? "")) onProjectDetailsChange(project.id, { description })
+  }
+
+  return (
+    <div
+      className="mb-2 grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1 rounded border border-gray-200 p-2 text-xs print:hidden"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <label htmlFor={`${project.id}-due-date`}>截止 (Due)</label>
+      <input
+        id={`${project.id}-due-date`}
+        type="date"
+        value={project.dueDate ?? ""}
+        onChange={(e) => onProjectDetailsChange(project.id, { dueDate: e.target.value })}
+        className="rounded border border-gray-300 px-1 py-0.5"
+      />
+      <label htmlFor={`${project.id}-estimate`}>预计 (Hours)</label>
+      <input
+        id={`${project.id}-estimate`}
+        type="number"
+        min={0}
+        step={0.5}
+        value={hoursDraft}
+        onChange={(e) => setHoursDraft(e.target.value)}
+        onBlur={saveHours}
+        onKeyDown={(e) => e.key === "Enter" && saveHours()}
+        className="rounded border border-gray-300 px-1 py-0.5"
+      />
+      <label htmlFor={`${project.id}-priority`}>优先级 (Priority)</label>
+      <select
+        id={`${project.id}-priority`}
+        value={project.priority ?? ""}
+        onChange={(e) =>
+          onProjectDetailsChange(project.id, {
+            priority: (e.target.value || undefined) as ProjectPriority | undefined,
+          })
+        }
+        className="rounded border border-gray-300 px-1 py-0.5"
+      >
+        <option value="">无 (None)</option>
+        {PROJECT_PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>
+            {PRIORITY_LABELS[priority]}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={descriptionDraft}
+        onChange={(e) => setDescriptionDraft(e.target.value)}
+        onBlur={saveDescription}
+        placeholder="说明 (Description)"
+        rows={2}
+        className="col-span-2 rounded border border-gray-300 px-1 py-0.5"
+        aria-label="Description"
+      />
+    </div>
+  )
+}
+
+interface SubTaskRowProps {
+  project: Project
+  subTask: SubTask
+  isOverlay: boolean
+  onSubTaskToggle: (projectId: string, subTaskId: string) => void
+  onSubTaskTextChange: (projectId: string, subTaskId: string, newText: string) => void
+  onRemoveSubTask: (projectId: string, subTaskId: string) => void
+  onActionClick: (e: React.MouseEvent) => void
+}
+
+function SubTaskRow({
+  project,
+  subTask,
+  isOverlay,
+  onSubTaskToggle,
+  onSubTaskTextChange,
+  onRemoveSubTask,
+  onActionClick,
+}: SubTaskRowProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `subtask-${subTask.id}`,
+    data: { type: "sub-task", project, subTask },
+    disabled: isOverlay, // 拖动预览中的副本不注册 (The copy inside the drag overlay does not register)
+  })
+
+  return (
+    <li
+      ref={setNodeRef}
+      className={`text-xs flex items-center group ${isDragging ? "opacity-50" : ""}`}
+      onClick={onActionClick}
+    >
+      <span
+        {...attributes}
+        {...listeners}
+        className="-ml-1 mr-0.5 text-gray-300 cursor-grab hover:text-gray-500 print:hidden"
+        aria-label="Drag sub-task to schedule"
+      >
+        <GripVertical size={12} />
+      </span>
+      <Checkbox
+        id={`${project.id}-${subTask.id}`}
+        checked={subTask.completed}
+        onCheckedChange={() => onSubTaskToggle(project.id, subTask.id)}
+        className="mr-2 print:transform print:scale-75"
+      />
+      <div className="flex-grow" onClick={(e) => e.stopPropagation()}>
+        <EditableField
+          initialValue={subTask.text}
+          onSave={(newText) => onSubTaskTextChange(project.id, subTask.id, newText)}
+          className="flex-grow"
+        />
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onRemoveSubTask(project.id, subTask.id)}
+        className="ml-1 p-0.5 h-auto opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-100 hover:text-red-600 print:hidden"
+        aria-label="Remove sub-task"
+      >
+        <Trash2 size={12} />
+      </Button>
+    </li>
+  )
+}
+
+// 拖动子任务时显示的预览 (Preview shown while dragging a sub-task)
+export function SubTaskDragPreview({ project, subTask }: SubTaskDragData) {
+  const color = getColorProps(project.color)
+  return (
+    <div
+      style={color.style}
+      className={`inline-block max-w-[16rem] truncate rounded-md px-2 py-1 text-xs font-medium shadow-xl ${color.className}`}
+    >
+      {subTask.text}
+    </div>
+  )
+}
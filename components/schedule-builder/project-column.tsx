@@ -3,31 +3,41 @@
 // This component displays the list of projects, now with add new project functionality.
 "use client"
 
-import type { Project } from "@/types/schedule"
+import type { Project, ProjectDetails, SchedulesByDate, TrackedTime } from "@/types/schedule"
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable"
 import { ProjectCard } from "./project-card"
 import { Button } from "@/components/ui/button"
 import { PlusCircle } from "lucide-react"
+import { selectDeadlineStatus } from "@/lib/selectors"
+import { NO_TRACKED_TIME } from "@/lib/time-tracking"
 
 interface ProjectColumnProps {
   projects: Project[]
+  schedules: SchedulesByDate // 用于比较截止日期前安排的时间 (Used to compare the time scheduled before due dates)
+  trackedByProject: Record<string, TrackedTime> // 每个项目的实际时间 (Each project's actual time)
   onSubTaskToggle: (projectId: string, subTaskId: string) => void
   onProjectNameChange: (projectId: string, newName: string) => void
+  onProjectDetailsChange: (projectId: string, details: Partial<ProjectDetails>) => void
   onSubTaskTextChange: (projectId: string, subTaskId: string, newText: string) => void
   onAddSubTask: (projectId: string) => void
   onRemoveSubTask: (projectId: string, subTaskId: string) => void
   onRemoveProject: (projectId: string) => void
+  onTimerToggle: (projectId: string) => void
   onAddNewProject: () => void
 }
 
 export function ProjectColumn({
   projects,
+  schedules,
+  trackedByProject,
   onSubTaskToggle,
   onProjectNameChange,
+  onProjectDetailsChange,
   onSubTaskTextChange,
   onAddSubTask,
   onRemoveSubTask,
   onRemoveProject,
+  onTimerToggle,
   onAddNewProject,
 }: ProjectColumnProps) {
   const projectIds = projects.map((p) => p.id)
@@ -45,12 +55,16 @@ export function ProjectColumn({
           <ProjectCard
             key={project.id}
             project={project}
+            deadlineStatus={selectDeadlineStatus(project, schedules)}
+            tracked={trackedByProject[project.id] ?? NO_TRACKED_TIME}
             onSubTaskToggle={onSubTaskToggle}
             onProjectNameChange={onProjectNameChange}
+            onProjectDetailsChange={onProjectDetailsChange}
             onSubTaskTextChange={onSubTaskTextChange}
             onAddSubTask={onAddSubTask}
             onRemoveSubTask={onRemoveSubTask}
             onRemoveProject={onRemoveProject}
+            onTimerToggle={onTimerToggle}
           />
         ))}
       </SortableContext>
@@ -0,0 +1,45 @@
+// components/schedule-builder/running-timer.tsx
+// 页眉中正在运行的计时器：显示在计时的项目或时间块、已经过去的时间和停止按钮。
+// The running timer in the header: shows the project or block being timed, the time elapsed and a stop button.
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Square } from "lucide-react"
+import { useNow } from "@/hooks/use-now"
+import { formatTrackedTime, getElapsedMinutes } from "@/lib/time-tracking"
+import { getColorProps } from "@/lib/colors"
+
+interface RunningTimerProps {
+  label: string
+  color: string
+  startedAt: string
+  onStop: () => void
+}
+
+export function RunningTimer({ label, color, startedAt, onStop }: RunningTimerProps) {
+  const now = useNow(true)
+  const colorProps = getColorProps(color)
+
+  return (
+    <div
+      className="flex items-center gap-1.5 rounded-md border border-red-200 bg-red-50 px-2 py-1 text-sm text-red-800"
+      role="status"
+      aria-label={`Timer running for ${label}`}
+    >
+      <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" aria-hidden="true" />
+      <span className={`h-3 w-3 rounded-full ${colorProps.className}`} style={colorProps.style} aria-hidden="true" />
+      <span className="max-w-[10rem] truncate">{label}</span>
+      <span className="tabular-nums">{formatTrackedTime(getElapsedMinutes(startedAt, now), true)}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onStop}
+        className="h-auto p-1"
+        title="Stop timer"
+        aria-label="Stop timer"
+      >
+        <Square className="h-3 w-3 fill-current" />
+      </Button>
+    </div>
+  )
+}
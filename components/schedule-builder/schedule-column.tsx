@@ -3,27 +3,52 @@
 // This component displays the schedule column with time sections.
 "use client"
 
-import type { ScheduleData } from "@/types/schedule"
-import { timeSections as sectionsConfig } from "@/lib/schedule-data"
+import type { CalendarEventsById, ScheduledTaskView } from "@/types/schedule"
+import type { TimeSectionConfig } from "@/lib/time-grid"
+import { selectEventsOnDate } from "@/lib/calendar-events"
 import { TimeSection } from "./time-section"
+import { AllDayStrip } from "./all-day-strip"
 
 interface ScheduleColumnProps {
-  scheduleData: ScheduleData
-  onDeleteTask: (taskId: string, fromSlotId: string) => void
+  dateKey: string
+  sections: TimeSectionConfig[]
+  scheduleData: ScheduledTaskView[] // 当天任务的显示数据 (Display data for the day's tasks)
+  events: CalendarEventsById
+  onDeleteTask: (taskId: string, fromDate: string) => void
+  onResizeTask: (taskId: string, dateKey: string, durationMinutes: number) => void
+  onSubTaskToggle: (projectId: string, subTaskId: string) => void
+  onTimerToggle: (projectId: string, taskId: string) => void
 }
 
-export function ScheduleColumn({ scheduleData, onDeleteTask }: ScheduleColumnProps) {
+export function ScheduleColumn({
+  dateKey,
+  sections,
+  scheduleData,
+  events,
+  onDeleteTask,
+  onResizeTask,
+  onSubTaskToggle,
+  onTimerToggle,
+}: ScheduleColumnProps) {
+  const dayEvents = selectEventsOnDate(events, dateKey)
+
   return (
     <div className="w-full md:flex-1 p-3 bg-white rounded-lg shadow print:flex-1 print:p-1 print:shadow-none print:border print:border-gray-300">
       <h2 className="text-lg font-semibold mb-3 text-gray-700 print:text-base print:mb-1">日程安排</h2>
-      {Object.entries(sectionsConfig).map(([key, sectionDetails]) => (
+      {dayEvents.allDay.length > 0 && <AllDayStrip events={dayEvents.allDay} />}
+      {sections.map((sectionDetails) => (
         <TimeSection
-          key={key}
+          key={sectionDetails.key}
           sectionName={sectionDetails.name}
           slots={sectionDetails.slots}
+          dateKey={dateKey}
           scheduleData={scheduleData}
+          events={dayEvents.timed}
           bgColor={sectionDetails.bgColor}
           onDeleteTask={onDeleteTask}
+          onResizeTask={onResizeTask}
+          onSubTaskToggle={onSubTaskToggle}
+          onTimerToggle={onTimerToggle}
         />
       ))}
     </div>
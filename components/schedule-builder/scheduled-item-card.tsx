@@ -1,36 +1,73 @@
 // components/schedule-builder/scheduled-item-card.tsx
 // This component displays a task card that has been scheduled.
-// The entire card is now draggable.
+// The entire card is now draggable, and its bottom edge can be dragged to change the duration.
+// The block's sub-tasks can be ticked off directly on the card, and a timer records the time actually spent on it.
 "use client"
 
-import type { ScheduledTask } from "@/types/schedule"
+import type React from "react"
+import { useState } from "react"
+import type { ScheduledTask, ScheduledTaskView } from "@/types/schedule"
 import { useDraggable } from "@dnd-kit/core"
 import { CSS } from "@dnd-kit/utilities"
-import { Card, CardHeader, CardTitle } from "@/components/ui/card"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Trash2 } from "lucide-react" // GripVertical removed
 import { Button } from "@/components/ui/button"
+import { formatMinutes } from "@/lib/time-grid"
+import { getTaskEndMinutes } from "@/lib/task-layout"
+import { getColorProps } from "@/lib/colors"
+import { TimerControl } from "./timer-control"
 
 interface ScheduledItemCardProps {
-  task: ScheduledTask
-  parentSlotId: string
+  task: ScheduledTaskView
+  parentDate: string
   isOverlay?: boolean
-  onDelete?: (taskId: string, fromSlotId: string) => void
+  isContinuation?: boolean // 任务从上一个部分延续过来 (The task continues from the previous section)
+  showResizeHandle?: boolean
+  pixelsPerMinute?: number
+  snapMinutes?: number
+  compact?: boolean // 周视图中不显示子任务列表 (The week view hides the sub-task list)
+  onDelete?: (taskId: string, fromDate: string) => void
+  onResize?: (taskId: string, dateKey: string, durationMinutes: number) => void
+  onSubTaskToggle?: (projectId: string, subTaskId: string) => void
+  onTimerToggle?: (projectId: string, taskId: string) => void
+}
+
+export function ScheduledItemCard(props: ScheduledItemCardProps) {
+  // 延续部分不能拖动，避免同一个任务注册两个可拖动项 (Continuations are not draggable, so a task registers only one draggable)
+  return props.isContinuation ? <ContinuationCard {...props} /> : <DraggableCard {...props} />
 }
 
-export function ScheduledItemCard({ task, parentSlotId, isOverlay = false, onDelete }: ScheduledItemCardProps) {
+function DraggableCard({
+  task,
+  parentDate,
+  isOverlay = false,
+  showResizeHandle = false,
+  pixelsPerMinute = 1,
+  snapMinutes = 15,
+  compact = false,
+  onDelete,
+  onResize,
+  onSubTaskToggle,
+  onTimerToggle,
+}: ScheduledItemCardProps) {
+  const [resizeDeltaMinutes, setResizeDeltaMinutes] = useState(0)
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: `task-${task.id}`,
     data: {
       type: "scheduled-task",
       task,
-      fromSlotId: parentSlotId,
+      fromDate: parentDate,
     },
   })
 
+  const color = getColorProps(task.color)
   const style = {
+    ...color.style,
     transform: CSS.Translate.toString(transform),
     opacity: isDragging && !isOverlay ? 0.5 : 1,
-    zIndex: isDragging || isOverlay ? 100 : "auto",
+    zIndex: isDragging || isOverlay || resizeDeltaMinutes !== 0 ? 100 : "auto",
+    height: isOverlay ? undefined : `calc(100% + ${resizeDeltaMinutes * pixelsPerMinute}px)`,
   }
 
   return (
@@ -39,12 +76,31 @@ export function ScheduledItemCard({ task, parentSlotId, isOverlay = false, onDel
       style={style}
       {...attributes} // Spread attributes for dnd-kit
       {...listeners} // Spread listeners for dnd-kit
-      className={`p-1.5 mb-1.5 touch-none ${task.projectColor} ${
-        isOverlay ? "shadow-xl" : "shadow-sm"
-      } ${isDragging ? "cursor-grabbing" : "cursor-grab"} print:p-1 print:mb-1`}
+      className={`relative p-1.5 touch-none overflow-hidden ${color.className} ${
+        isOverlay ? "shadow-xl mb-1.5" : "shadow-sm"
+      } ${isDragging ? "cursor-grabbing" : "cursor-grab"} print:p-1`}
     >
-      <CardHeader className="flex flex-row items-center justify-between p-0">
-        <CardTitle className="text-xs font-medium flex-grow mr-1">{task.projectName}</CardTitle>
+      <CardHeader className="flex flex-row items-start justify-between p-0">
+        <div className="flex-grow mr-1 min-w-0">
+          <CardTitle className="text-xs font-medium truncate">{task.displayName}</CardTitle>
+          <p className="text-[10px] leading-tight opacity-80">
+            {formatMinutes(task.startMinutes)} - {formatMinutes(getTaskEndMinutes(task) + resizeDeltaMinutes)}
+            {task.projectProgress.total > 0 && (
+              <span className="ml-1" title="Project progress">
+                · {task.projectProgress.completed}/{task.projectProgress.total}
+              </span>
+            )}
+          </p>
+          {onTimerToggle && !isOverlay && (
+            <TimerControl
+              tracked={task.tracked}
+              plannedMinutes={task.durationMinutes}
+              label={task.displayName}
+              onToggle={() => onTimerToggle(task.projectId, task.id)}
+              className="text-[10px] leading-tight"
+            />
+          )}
+        </div>
         <div className="flex items-center">
           {onDelete && (
             <Button
@@ -52,7 +108,7 @@ export function ScheduledItemCard({ task, parentSlotId, isOverlay = false, onDel
               size="sm"
               onClick={(e) => {
                 e.stopPropagation() // Prevent drag from starting when clicking delete
-                onDelete(task.id, parentSlotId)
+                onDelete(task.id, parentDate)
               }}
               className="p-1 h-auto hover:text-red-100 hover:bg-opacity-20 print:hidden"
               aria-label="Delete task"
@@ -63,6 +119,117 @@ export function ScheduledItemCard({ task, parentSlotId, isOverlay = false, onDel
           {/* GripVertical button removed, entire card is draggable */}
         </div>
       </CardHeader>
+      {!compact && !isOverlay && task.subTasks.length > 0 && (
+        <CardContent className="p-0 mt-1">
+          <ul className="space-y-0.5">
+            {task.subTasks.map((subTask) => (
+              <li
+                key={subTask.id}
+                className="flex items-center text-[10px] leading-tight"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Checkbox
+                  id={`${task.id}-${subTask.id}`}
+                  checked={subTask.completed}
+                  disabled={!onSubTaskToggle}
+                  onCheckedChange={() => onSubTaskToggle?.(task.projectId, subTask.id)}
+                  className="mr-1 h-3 w-3 border-current bg-white/20 print:hidden"
+                  aria-label={subTask.text}
+                />
+                <span className={`truncate ${subTask.completed ? "line-through opacity-70" : ""}`}>{subTask.text}</span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      )}
+      {showResizeHandle && onResize && !isOverlay && (
+        <ResizeHandle
+          task={task}
+          pixelsPerMinute={pixelsPerMinute}
+          snapMinutes={snapMinutes}
+          onPreview={setResizeDeltaMinutes}
+          onCommit={(durationMinutes) => onResize(task.id, parentDate, durationMinutes)}
+        />
+      )}
     </Card>
   )
 }
+
+function ContinuationCard({
+  task,
+  parentDate,
+  showResizeHandle = false,
+  pixelsPerMinute = 1,
+  snapMinutes = 15,
+  onResize,
+}: ScheduledItemCardProps) {
+  const [resizeDeltaMinutes, setResizeDeltaMinutes] = useState(0)
+  const color = getColorProps(task.color)
+
+  return (
+    <div
+      style={{ ...color.style, height: `calc(100% + ${resizeDeltaMinutes * pixelsPerMinute}px)` }}
+      className={`relative rounded-lg border p-1.5 shadow-sm overflow-hidden ${color.className} print:p-1`}
+    >
+      <p className="text-xs font-medium truncate opacity-80">↳ {task.displayName}</p>
+      {showResizeHandle && onResize && (
+        <ResizeHandle
+          task={task}
+          pixelsPerMinute={pixelsPerMinute}
+          snapMinutes={snapMinutes}
+          onPreview={setResizeDeltaMinutes}
+          onCommit={(durationMinutes) => onResize(task.id, parentDate, durationMinutes)}
+        />
+      )}
+    </div>
+  )
+}
+
+interface ResizeHandleProps {
+  task: ScheduledTask
+  pixelsPerMinute: number
+  snapMinutes: number
+  onPreview: (deltaMinutes: number) => void
+  onCommit: (durationMinutes: number) => void
+}
+
+// 拖动底边改变任务时长，按时间段长度对齐 (Dragging the bottom edge changes the duration, snapped to the slot length)
+function ResizeHandle({ task, pixelsPerMinute, snapMinutes, onPreview, onCommit }: ResizeHandleProps) {
+  const getDeltaMinutes = (startY: number, currentY: number) => {
+    const rawDelta = (currentY - startY) / pixelsPerMinute
+    const snappedDelta = Math.round(rawDelta / snapMinutes) * snapMinutes
+    // 至少保留一个时间段 (Keep at least one slot)
+    return Math.max(snappedDelta, snapMinutes - task.durationMinutes)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation() // Don't start dragging the whole card
+    e.preventDefault()
+    const handle = e.currentTarget
+    const startY = e.clientY
+    handle.setPointerCapture(e.pointerId)
+
+    const handlePointerMove = (moveEvent: PointerEvent) => onPreview(getDeltaMinutes(startY, moveEvent.clientY))
+    const handlePointerUp = (upEvent: PointerEvent) => {
+      handle.removeEventListener("pointermove", handlePointerMove)
+      handle.removeEventListener("pointerup", handlePointerUp)
+      handle.removeEventListener("pointercancel", handlePointerUp)
+      onPreview(0)
+      const deltaMinutes = upEvent.type === "pointerup" ? getDeltaMinutes(startY, upEvent.clientY) : 0
+      if (deltaMinutes !== 0) onCommit(task.durationMinutes + deltaMinutes)
+    }
+
+    handle.addEventListener("pointermove", handlePointerMove)
+    handle.addEventListener("pointerup", handlePointerUp)
+    handle.addEventListener("pointercancel", handlePointerUp)
+  }
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onClick={(e) => e.stopPropagation()}
+      className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize hover:bg-black/20 print:hidden"
+      aria-label="Resize task"
+    />
+  )
+}
@@ -0,0 +1,94 @@
+// components/schedule-builder/sub-task-picker.tsx
+// 把项目放到时间段后，这个对话框让用户选择这个时间块要做的子任务。
+// After a project is dropped on a slot, this dialog lets the user pick the sub-tasks that block is for.
+"use client"
+
+import { useState } from "react"
+import type { Project } from "@/types/schedule"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { formatDateLabel } from "@/lib/date-utils"
+import { formatMinutes } from "@/lib/time-grid"
+
+interface SubTaskPickerProps {
+  project: Project
+  dateKey: string
+  startMinutes: number
+  durationMinutes: number
+  onConfirm: (subTaskIds: string[]) => void
+  onCancel: () => void
+}
+
+export function SubTaskPicker({
+  project,
+  dateKey,
+  startMinutes,
+  durationMinutes,
+  onConfirm,
+  onCancel,
+}: SubTaskPickerProps) {
+  // 默认选择还没完成的子任务 (Unfinished sub-tasks are picked by default)
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    project.subTasks.filter((subTask) => !subTask.completed).map((subTask) => subTask.id),
+  )
+
+  const toggleSubTask = (subTaskId: string) => {
+    setSelectedIds((prev) => (prev.includes(subTaskId) ? prev.filter((id) => id !== subTaskId) : [...prev, subTaskId]))
+  }
+
+  // 按项目中的顺序保存 (Keep the project's order)
+  const handleConfirm = () => {
+    onConfirm(project.subTasks.filter((subTask) => selectedIds.includes(subTask.id)).map((subTask) => subTask.id))
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 print:hidden"
+      onClick={onCancel}
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="sub-task-picker-title"
+        className="w-80 rounded-lg bg-white p-4 text-sm shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="sub-task-picker-title" className="font-semibold text-gray-800">
+          {project.name}
+        </h3>
+        <p className="mb-3 text-xs text-gray-500">
+          {formatDateLabel(dateKey)} · {formatMinutes(startMinutes)} - {formatMinutes(startMinutes + durationMinutes)}
+        </p>
+        <p className="mb-2 text-gray-600">选择这个时间块的子任务 (Pick the sub-tasks for this block)</p>
+        <ul className="mb-3 max-h-60 space-y-1 overflow-y-auto">
+          {project.subTasks.map((subTask) => (
+            <li key={subTask.id} className="flex items-center">
+              <Checkbox
+                id={`pick-${subTask.id}`}
+                checked={selectedIds.includes(subTask.id)}
+                onCheckedChange={() => toggleSubTask(subTask.id)}
+                className="mr-2"
+              />
+              <label
+                htmlFor={`pick-${subTask.id}`}
+                className={`flex-grow cursor-pointer ${subTask.completed ? "text-gray-400 line-through" : "text-gray-700"}`}
+              >
+                {subTask.text}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <p className="mb-3 text-xs text-gray-500">Leave everything unticked to schedule the whole project.</p>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleConfirm} autoFocus>
+            Schedule
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
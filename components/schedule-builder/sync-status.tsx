@@ -0,0 +1,82 @@
+// components/schedule-builder/sync-status.tsx
+// 这个组件显示等待同步的修改，以及在两台设备上都被修改过的项目和任务。
+// This component shows changes waiting to sync, and the projects and tasks that were edited on two devices.
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CloudOff, X } from "lucide-react"
+import type { ConflictOutcome, SyncConflict } from "@/lib/sync-operations"
+
+interface SyncStatusProps {
+  pendingChangeCount: number
+  conflicts: SyncConflict[]
+  onDismissConflict: (conflictId: string) => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "name",
+  color: "color",
+  projectId: "project",
+  placement: "time",
+  durationMinutes: "duration",
+  title: "title",
+  subTaskIds: "sub-tasks",
+  deleted: "deleted",
+}
+
+const OUTCOME_LABELS: Record<ConflictOutcome, string> = {
+  merged: "merged",
+  "kept-local": "kept this device's edit",
+  "kept-remote": "kept the other device's edit",
+}
+
+const formatField = (field: string) => FIELD_LABELS[field] ?? (field.startsWith("subTask:") ? "sub-task" : field)
+
+export function SyncStatus({ pendingChangeCount, conflicts, onDismissConflict }: SyncStatusProps) {
+  if (pendingChangeCount === 0 && conflicts.length === 0) return null
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      {pendingChangeCount > 0 && (
+        <p className="flex items-center gap-1.5 text-gray-600">
+          <CloudOff className="h-4 w-4" />
+          {pendingChangeCount} change(s) waiting to sync. They will be sent when you&apos;re back online.
+        </p>
+      )}
+      {conflicts.length > 0 && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-3">
+          <h3 className="mb-1 flex items-center gap-1.5 font-semibold text-amber-900">
+            <AlertTriangle className="h-4 w-4" /> 同步冲突 (Sync conflicts)
+          </h3>
+          <p className="mb-2 text-xs text-amber-800">
+            These were changed on this device and another one at the same time. The most recent edit of each field was
+            kept.
+          </p>
+          <ul className="space-y-1">
+            {conflicts.map((conflict) => (
+              <li key={conflict.id} className="flex items-start justify-between gap-2 rounded bg-white px-2 py-1">
+                <div>
+                  <span className="font-medium text-gray-800">{conflict.label}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {conflict.fields
+                      .map(({ field, outcome }) => `${formatField(field)}: ${OUTCOME_LABELS[outcome]}`)
+                      .join(", ")}
+                  </span>
+                </div>
+                <Button
+                  onClick={() => onDismissConflict(conflict.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  aria-label="Dismiss"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+// components/schedule-builder/time-grid-settings.tsx
+// 这个组件让用户设置一天的开始/结束时间和时间段长度。
+// This component lets the user set the day start/end and the slot length.
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Settings } from "lucide-react"
+import type { TimeGridSettings as TimeGridSettingsValue } from "@/types/schedule"
+import { SLOT_MINUTE_OPTIONS, formatMinutes, normalizeTimeGridSettings } from "@/lib/time-grid"
+
+interface TimeGridSettingsProps {
+  settings: TimeGridSettingsValue
+  onChange: (settings: TimeGridSettingsValue) => void
+}
+
+const hourOptions = Array.from({ length: 25 }, (_, hour) => hour)
+
+export function TimeGridSettings({ settings, onChange }: TimeGridSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleChange = (field: keyof TimeGridSettingsValue, value: number) => {
+    const nextSettings = { ...settings, [field]: value }
+    // 开始时间晚于结束时间时，把结束时间推后一小时 (Push the end back when the start passes it)
+    if (field === "dayStartHour" && nextSettings.dayEndHour <= value) {
+      nextSettings.dayEndHour = value + 1
+    }
+    onChange(normalizeTimeGridSettings(nextSettings))
+  }
+
+  return (
+    <div className="relative">
+      <Button onClick={() => setIsOpen((open) => !open)} variant="outline" size="sm" aria-expanded={isOpen}>
+        <Settings className="mr-1.5 h-4 w-4" /> Hours
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-1 w-64 rounded-md border border-gray-200 bg-white p-3 text-sm shadow-lg">
+          <h3 className="mb-2 font-semibold text-gray-700">工作时间 (Working hours)</h3>
+          <label className="mb-2 flex items-center justify-between gap-2">
+            <span className="text-gray-600">Day start</span>
+            <select
+              value={settings.dayStartHour}
+              onChange={(e) => handleChange("dayStartHour", Number(e.target.value))}
+              className="rounded border border-gray-300 px-1 py-0.5"
+            >
+              {hourOptions.slice(0, 24).map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatMinutes(hour * 60)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="mb-2 flex items-center justify-between gap-2">
+            <span className="text-gray-600">Day end</span>
+            <select
+              value={settings.dayEndHour}
+              onChange={(e) => handleChange("dayEndHour", Number(e.target.value))}
+              className="rounded border border-gray-300 px-1 py-0.5"
+            >
+              {hourOptions.slice(settings.dayStartHour + 1).map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatMinutes(hour * 60)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-gray-600">Slot length</span>
+            <select
+              value={settings.slotMinutes}
+              onChange={(e) => handleChange("slotMinutes", Number(e.target.value))}
+              className="rounded border border-gray-300 px-1 py-0.5"
+            >
+              {SLOT_MINUTE_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} min
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="mt-2 text-xs text-gray-500">
+            Existing tasks move to the slot that contains their start time; tasks outside the day go to the nearest slot.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
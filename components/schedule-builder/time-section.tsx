@@ -1,27 +1,134 @@
 // components/schedule-builder/time-section.tsx
 // 这个组件显示日程表的一个部分（上午、下午、傍晚）。
 // This component displays a section of the schedule (Morning, Afternoon, Evening).
+// Tasks are drawn over the slot rows as blocks that span their whole duration.
+// External calendar events are drawn beside them read-only, they share the columns but take no slot capacity.
 "use client"
 
-import type { TimeSlot, ScheduleData } from "@/types/schedule"
+import { useMemo } from "react"
+import type { TimeSlot, ScheduledTaskView } from "@/types/schedule"
+import type { EventSegment } from "@/lib/calendar-events"
+import { getTaskEndMinutes, layoutDayTasks, rangesOverlap } from "@/lib/task-layout"
 import { TimeSlotRow } from "./time-slot-row"
+import { ScheduledItemCard } from "./scheduled-item-card"
+import { CalendarEventCard } from "./calendar-event-card"
 
 interface TimeSectionProps {
   sectionName: string
   slots: TimeSlot[]
-  scheduleData: ScheduleData
+  dateKey: string
+  scheduleData: ScheduledTaskView[]
+  events: EventSegment[] // 当天的定时事件 (The day's timed events)
   bgColor: string
-  onDeleteTask: (taskId: string, fromSlotId: string) => void
+  compact?: boolean
+  onDeleteTask: (taskId: string, fromDate: string) => void
+  onResizeTask: (taskId: string, dateKey: string, durationMinutes: number) => void
+  onSubTaskToggle: (projectId: string, subTaskId: string) => void
+  onTimerToggle: (projectId: string, taskId: string) => void
 }
 
-export function TimeSection({ sectionName, slots, scheduleData, bgColor, onDeleteTask }: TimeSectionProps) {
+// 每个时间段行的高度（像素），按时间段长度区分 (Row height in pixels for each slot length)
+const ROW_HEIGHTS: Record<number, { regular: number; compact: number }> = {
+  15: { regular: 24, compact: 20 },
+  30: { regular: 36, compact: 28 },
+  60: { regular: 60, compact: 44 },
+}
+
+export function TimeSection({
+  sectionName,
+  slots,
+  dateKey,
+  scheduleData,
+  events,
+  bgColor,
+  compact = false,
+  onDeleteTask,
+  onResizeTask,
+  onSubTaskToggle,
+  onTimerToggle,
+}: TimeSectionProps) {
+  const sectionStart = slots[0].startMinutes
+  const sectionEnd = slots[slots.length - 1].endMinutes
+  const slotMinutes = slots[0].endMinutes - slots[0].startMinutes
+  const rowHeight = (ROW_HEIGHTS[slotMinutes] ?? ROW_HEIGHTS[60])[compact ? "compact" : "regular"]
+  const pixelsPerMinute = rowHeight / slotMinutes
+
+  // 零长度的事件按一个时间段显示 (Zero-length events are shown as one slot long)
+  const eventBlocks = useMemo(
+    () =>
+      events.map((segment) => ({
+        ...segment,
+        id: segment.event.id,
+        durationMinutes: Math.max(segment.durationMinutes, slotMinutes),
+      })),
+    [events, slotMinutes],
+  )
+  const taskLayout = useMemo(() => layoutDayTasks([...scheduleData, ...eventBlocks]), [scheduleData, eventBlocks])
+  const sectionTasks = scheduleData.filter((task) =>
+    rangesOverlap(task.startMinutes, getTaskEndMinutes(task), sectionStart, sectionEnd),
+  )
+  const sectionEvents = eventBlocks.filter((block) =>
+    rangesOverlap(block.startMinutes, getTaskEndMinutes(block), sectionStart, sectionEnd),
+  )
+  const getBlockStyle = (block: { id: string; startMinutes: number; durationMinutes: number }) => {
+    const segmentStart = Math.max(block.startMinutes, sectionStart)
+    const segmentEnd = Math.min(getTaskEndMinutes(block), sectionEnd)
+    const { lane, laneCount } = taskLayout[block.id] ?? { lane: 0, laneCount: 1 }
+    return {
+      top: (segmentStart - sectionStart) * pixelsPerMinute,
+      height: (segmentEnd - segmentStart) * pixelsPerMinute,
+      left: `${(lane / laneCount) * 100}%`,
+      width: `${100 / laneCount}%`,
+    }
+  }
+
   return (
-    <div className={`mb-6 rounded-lg shadow ${bgColor}`}>
-      <h3 className="text-lg font-semibold p-3 border-b border-gray-300 text-gray-700">{sectionName}</h3>
-      <div>
+    <div className={`${compact ? "mb-2 rounded" : "mb-6 rounded-lg shadow"} ${bgColor}`}>
+      <h3
+        className={`font-semibold border-b border-gray-300 text-gray-700 ${compact ? "text-xs p-1" : "text-lg p-3"}`}
+      >
+        {sectionName}
+      </h3>
+      <div className="relative">
         {slots.map((slot) => (
-          <TimeSlotRow key={slot.id} slot={slot} tasks={scheduleData[slot.id] || []} onDeleteTask={onDeleteTask} />
+          <TimeSlotRow
+            key={slot.id}
+            slot={slot}
+            dateKey={dateKey}
+            height={rowHeight}
+            isFree={
+              ![...scheduleData, ...eventBlocks].some((block) =>
+                rangesOverlap(block.startMinutes, getTaskEndMinutes(block), slot.startMinutes, slot.endMinutes),
+              )
+            }
+            compact={compact}
+          />
         ))}
+        {/* 任务块层，跨越的部分之外被裁掉 (Task block layer, parts outside this section are clipped) */}
+        <div className={`absolute inset-y-0 right-0 pointer-events-none ${compact ? "left-8" : "left-1/4"}`}>
+          {sectionTasks.map((task) => (
+            <div key={task.id} className="absolute p-0.5 pointer-events-auto" style={getBlockStyle(task)}>
+              <ScheduledItemCard
+                task={task}
+                parentDate={dateKey}
+                isContinuation={task.startMinutes < sectionStart}
+                showResizeHandle={getTaskEndMinutes(task) <= sectionEnd}
+                pixelsPerMinute={pixelsPerMinute}
+                snapMinutes={slotMinutes}
+                compact={compact}
+                onDelete={onDeleteTask}
+                onResize={onResizeTask}
+                onSubTaskToggle={onSubTaskToggle}
+                onTimerToggle={onTimerToggle}
+              />
+            </div>
+          ))}
+          {sectionEvents.map((block) => (
+            <div key={block.id} className="absolute p-0.5 pointer-events-auto" style={getBlockStyle(block)}>
+              <CalendarEventCard event={block.event} compact={compact} showTime />
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   )
@@ -1,53 +1,55 @@
 // components/schedule-builder/time-slot-row.tsx
-// 这个组件代表日程表中的一个可放置的小时行。
-// This component represents a droppable hourly row in the schedule.
+// 这个组件代表日程表中的一个可放置的时间段行。
+// This component represents a droppable time slot row in the schedule.
 // Added print-specific styles for compactness.
+// The droppable ID includes the date so the same slot can be a target on every day of the week view.
+// Scheduled tasks are drawn on top of the rows by TimeSection, so a task can span several rows.
 "use client"
 
-import type { TimeSlot, ScheduledTask } from "@/types/schedule"
+import type { TimeSlot } from "@/types/schedule"
 import { useDroppable } from "@dnd-kit/core"
-import { ScheduledItemCard } from "./scheduled-item-card"
+import { formatMinutes } from "@/lib/time-grid"
 
 interface TimeSlotRowProps {
   slot: TimeSlot
-  tasks: ScheduledTask[]
-  onDeleteTask: (taskId: string, fromSlotId: string) => void
+  dateKey: string
+  height: number // 行高（像素），任务块按它定位 (Row height in pixels, task blocks are positioned by it)
+  isFree: boolean // 没有任务覆盖这个时间段 (No task covers this slot)
+  compact?: boolean // 周视图中使用的紧凑样式 (Compact style used in the week view)
 }
 
-export function TimeSlotRow({ slot, tasks, onDeleteTask }: TimeSlotRowProps) {
+export function TimeSlotRow({ slot, dateKey, height, isFree, compact = false }: TimeSlotRowProps) {
   const { setNodeRef, isOver } = useDroppable({
-    id: slot.id, // dnd-kit ID for droppable areas
+    id: `${dateKey}:${slot.id}`, // dnd-kit ID for droppable areas
     data: {
       type: "time-slot", // 自定义数据类型 (Custom data type)
-      accepts: ["project", "scheduled-task"], // 定义此区域接受哪些类型的可拖动项 (Defines what types of draggables this area accepts)
+      accepts: ["project", "sub-task", "scheduled-task"], // 定义此区域接受哪些类型的可拖动项 (Defines what types of draggables this area accepts)
+      dateKey,
+      slotId: slot.id,
+      startMinutes: slot.startMinutes,
     },
   })
 
   return (
     <div
       ref={setNodeRef}
-      className={`flex border-b border-gray-200 min-h-[60px] print:min-h-0 print:h-auto ${
+      style={{ height }}
+      className={`flex border-b border-gray-200 overflow-hidden ${
         isOver ? "bg-gray-200 outline outline-2 outline-sky-500" : ""
       }`}
     >
-      <div className="w-1/4 p-2 border-r border-gray-200 text-xs text-gray-600 flex items-center justify-center print:p-0.5 print:text-[6.5pt] print:leading-tight">
-        {slot.label}
-      </div>
-      <div className="w-3/4 p-2 space-y-1 print:p-0.5 print:space-y-px">
-        {tasks.map((task) => (
-          <ScheduledItemCard key={task.id} task={task} parentSlotId={slot.id} onDelete={onDeleteTask} />
-        ))}
-        {tasks.length === 0 && isOver && (
-          <div className="text-xs text-gray-400 p-2 border-2 border-dashed border-gray-300 rounded-md text-center print:p-0.5 print:text-[6.5pt] print:leading-tight print:border-dashed print:border print:border-gray-400">
-            将项目拖到此处 (Drop project here)
-          </div>
-        )}
-        {tasks.length === 0 && !isOver && (
-          <div className="text-xs text-gray-400 p-2 h-full flex items-center justify-center print:p-0.5 print:h-auto print:text-[6.5pt] print:leading-tight">
-            空闲 (Free)
-          </div>
-        )}
+      <div
+        className={`border-r border-gray-200 text-gray-600 flex items-center justify-center print:p-0.5 print:text-[6.5pt] print:leading-tight ${
+          compact ? "w-8 text-[10px] text-gray-400" : "w-1/4 p-2 text-xs"
+        }`}
+      >
+        {compact ? formatMinutes(slot.startMinutes) : slot.label}
       </div>
+      {!compact && (
+        <div className="w-3/4 px-2 text-xs text-gray-400 flex items-center justify-center print:p-0.5 print:text-[6.5pt] print:leading-tight">
+          {isFree && (isOver ? "将项目拖到此处 (Drop project here)" : "空闲 (Free)")}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,54 @@
+// components/schedule-builder/timer-control.tsx
+// 时间块和项目卡片上的计时按钮，旁边显示实际用时；计时时显示闪烁的红点，并且每秒刷新。
+// The timer button on blocks and project cards, with the actual time beside it; while running it shows a pulsing red
+// dot and refreshes every second.
+"use client"
+
+import type React from "react"
+import type { TrackedTime } from "@/types/schedule"
+import { Play, Square } from "lucide-react"
+import { useNow } from "@/hooks/use-now"
+import { formatTrackedTime, getTrackedMinutes } from "@/lib/time-tracking"
+
+interface TimerControlProps {
+  tracked: TrackedTime
+  plannedMinutes?: number // 计划的时间，显示为 "实际 / 计划" (Planned time, shown as "actual / planned")
+  label: string // 用于按钮的说明 (Used to describe the button)
+  onToggle: () => void
+  className?: string
+}
+
+export function TimerControl({ tracked, plannedMinutes, label, onToggle, className = "" }: TimerControlProps) {
+  const isRunning = tracked.runningSince !== null
+  const now = useNow(isRunning)
+  const trackedMinutes = getTrackedMinutes(tracked, now)
+  const showTime = isRunning || trackedMinutes > 0 || plannedMinutes !== undefined
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation() // Don't start dragging the card
+    onToggle()
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      <button
+        type="button"
+        onClick={handleClick}
+        onPointerDown={(e) => e.stopPropagation()}
+        className="rounded p-0.5 hover:bg-black/10 print:hidden"
+        title={isRunning ? `Stop timer for ${label}` : `Start timer for ${label}`}
+        aria-label={isRunning ? `Stop timer for ${label}` : `Start timer for ${label}`}
+        aria-pressed={isRunning}
+      >
+        {isRunning ? <Square size={10} className="fill-current" /> : <Play size={10} className="fill-current" />}
+      </button>
+      {isRunning && <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-red-500" aria-hidden="true" />}
+      {showTime && (
+        <span className="tabular-nums" title={plannedMinutes !== undefined ? "Actual / planned time" : "Actual time"}>
+          {formatTrackedTime(trackedMinutes, isRunning)}
+          {plannedMinutes !== undefined && ` / ${formatTrackedTime(plannedMinutes)}`}
+        </span>
+      )}
+    </span>
+  )
+}
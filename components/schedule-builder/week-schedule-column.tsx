@@ -0,0 +1,88 @@
+// components/schedule-builder/week-schedule-column.tsx
+// 这个组件并排显示一周七天的日程，每个时间段都可以放置项目。
+// This component shows the seven days of a week side by side, with every time slot as a drop target.
+"use client"
+
+import type { CalendarEventsById, ProjectsState, SchedulesByDate, TrackedTime } from "@/types/schedule"
+import type { TimeSectionConfig } from "@/lib/time-grid"
+import { formatWeekdayLabel, getTodayKey, getWeekDateKeys } from "@/lib/date-utils"
+import { selectScheduledTaskViews } from "@/lib/selectors"
+import { selectEventsOnDate } from "@/lib/calendar-events"
+import { TimeSection } from "./time-section"
+import { AllDayStrip } from "./all-day-strip"
+
+interface WeekScheduleColumnProps {
+  selectedDate: string
+  sections: TimeSectionConfig[]
+  schedules: SchedulesByDate
+  projects: ProjectsState
+  events: CalendarEventsById
+  trackedByTask: Record<string, TrackedTime> // 每个时间块的实际时间 (Each block's actual time)
+  onDeleteTask: (taskId: string, fromDate: string) => void
+  onResizeTask: (taskId: string, dateKey: string, durationMinutes: number) => void
+  onSubTaskToggle: (projectId: string, subTaskId: string) => void
+  onTimerToggle: (projectId: string, taskId: string) => void
+  onOpenDay: (dateKey: string) => void
+}
+
+export function WeekScheduleColumn({
+  selectedDate,
+  sections,
+  schedules,
+  projects,
+  events,
+  trackedByTask,
+  onDeleteTask,
+  onResizeTask,
+  onSubTaskToggle,
+  onTimerToggle,
+  onOpenDay,
+}: WeekScheduleColumnProps) {
+  const todayKey = getTodayKey()
+  const weekDays = getWeekDateKeys(selectedDate).map((dateKey) => ({
+    dateKey,
+    tasks: selectScheduledTaskViews(projects, schedules[dateKey] || [], trackedByTask),
+    events: selectEventsOnDate(events, dateKey),
+  }))
+  // 有一天有全天事件时每天都显示全天栏，保持对齐 (If any day has all-day events, every day shows the strip)
+  const showAllDay = weekDays.some((day) => day.events.allDay.length > 0)
+
+  return (
+    <div className="w-full md:flex-1 p-3 bg-white rounded-lg shadow overflow-x-auto print:flex-1 print:p-1 print:shadow-none print:border print:border-gray-300">
+      <h2 className="text-lg font-semibold mb-3 text-gray-700 print:text-base print:mb-1">一周日程</h2>
+      <div className="grid grid-cols-7 gap-1 min-w-[840px] print:min-w-0">
+        {weekDays.map(({ dateKey, tasks, events: dayEvents }) => (
+          <div key={dateKey} className="min-w-0">
+            <button
+              type="button"
+              onClick={() => onOpenDay(dateKey)}
+              className={`w-full mb-1 rounded px-1 py-1 text-xs font-semibold hover:bg-gray-100 ${
+                dateKey === todayKey ? "text-sky-700 bg-sky-50" : "text-gray-700"
+              }`}
+              title="Open day view"
+            >
+              {formatWeekdayLabel(dateKey)}
+            </button>
+            {showAllDay && <AllDayStrip events={dayEvents.allDay} compact />}
+            {sections.map((sectionDetails) => (
+              <TimeSection
+                key={sectionDetails.key}
+                sectionName={sectionDetails.name}
+                slots={sectionDetails.slots}
+                dateKey={dateKey}
+                scheduleData={tasks}
+                events={dayEvents.timed}
+                bgColor={sectionDetails.bgColor}
+                compact
+                onDeleteTask={onDeleteTask}
+                onResizeTask={onResizeTask}
+                onSubTaskToggle={onSubTaskToggle}
+                onTimerToggle={onTimerToggle}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
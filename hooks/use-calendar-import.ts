@@ -0,0 +1,66 @@
+// hooks/use-calendar-import.ts
+// 从任意日历来源导入的流程：先列出日历让用户选择，再取回所选日历在日期范围内的事件。
+// The import flow for any calendar source: list its calendars for the user to pick from, then fetch the picked
+// calendars' events in the chosen date range.
+"use client"
+
+import { useState } from "react"
+import type {
+  CalendarDateRange,
+  CalendarFetchResult,
+  CalendarProvider,
+  ProviderCalendar,
+} from "@/lib/calendar-provider"
+
+export type CalendarSyncHandler = (
+  provider: CalendarProvider,
+  results: CalendarFetchResult[],
+  range: CalendarDateRange,
+) => void
+
+// 等待用户在对话框中选择的导入 (An import waiting for the user's choice in the dialog)
+export interface PendingCalendarImport {
+  provider: CalendarProvider
+  calendars: ProviderCalendar[]
+}
+
+export function useCalendarImport(
+  onSync: CalendarSyncHandler,
+  onError: (error: unknown, message: string) => void | Promise<void>,
+) {
+  // 为 null 时对话框关闭 (The dialog is closed while this is null)
+  const [pendingImport, setPendingImport] = useState<PendingCalendarImport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const openImport = async (provider: CalendarProvider) => {
+    setIsLoading(true)
+    try {
+      setPendingImport({ provider, calendars: await provider.listCalendars() })
+    } catch (error) {
+      await onError(error, `Failed to load the calendars from ${provider.label}. Please try again.`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const confirmImport = async (calendarIds: string[], startDate: string, endDate: string) => {
+    if (!pendingImport) return
+    const { provider, calendars } = pendingImport
+    setPendingImport(null)
+    setIsLoading(true)
+    try {
+      // 时间按浏览器的时区显示 (Times are shown in the browser's time zone)
+      const range = { startDate, endDate, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+      const selected = calendars.filter((calendar) => calendarIds.includes(calendar.id))
+      onSync(provider, await provider.fetchEvents(selected, range), range)
+    } catch (error) {
+      await onError(error, `Failed to sync ${provider.label}. Please try again.`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const cancelImport = () => setPendingImport(null)
+
+  return { pendingImport, isLoading, openImport, confirmImport, cancelImport }
+}
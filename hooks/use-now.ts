@@ -0,0 +1,19 @@
+// hooks/use-now.ts
+// 返回当前时间，启用时每隔一段时间更新一次，例如让正在运行的计时器每秒刷新。
+// Returns the current time, updated on an interval while enabled, e.g. so a running timer refreshes every second.
+"use client"
+
+import { useEffect, useState } from "react"
+
+export function useNow(enabled: boolean, intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!enabled) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [enabled, intervalMs])
+
+  return now
+}
@@ -0,0 +1,424 @@
+// hooks/use-profile-storage.ts
+// 把日程状态保存到当前配置文件中：加载、切换配置文件，以及延迟的增量保存。
+// Persists the schedule state to the active profile: loading, switching profiles, and debounced incremental saves.
+// Signed-in users keep their data on the server; signed-out users keep it in the browser.
+// On the server, edits are sent as an operation log that queues while offline and is merged per field.
+// Saved edits are also sent to the other open tabs, so they show up there live.
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { migrateData } from "@/lib/migration"
+import { createInitialScheduleState, createScheduleState, type ScheduleState } from "@/lib/schedule-domain"
+import {
+  DEFAULT_PROFILE_NAME,
+  createMemoryStorageAdapter,
+  getStorageChanges,
+  type StorageAdapter,
+  type StorageProfile,
+} from "@/lib/storage-adapter"
+import { createIndexedDBStorageAdapter, isIndexedDBAvailable } from "@/lib/indexeddb-storage"
+import { createServerStorageAdapter } from "@/lib/server-storage-adapter"
+import { syncProfile } from "@/lib/storage-actions"
+import {
+  applyChanges,
+  createResetChange,
+  diffStates,
+  type SyncChange,
+  type SyncConflict,
+} from "@/lib/sync-operations"
+import { acknowledgeOperations, enqueueChanges, readSyncQueue } from "@/lib/sync-queue"
+import { clearLegacyLocalStorage, readLegacyLocalStorage } from "@/lib/legacy-local-storage"
+import { openTabChannel, type TabChannel } from "@/lib/tab-channel"
+
+const SAVE_DEBOUNCE_MS = 500
+const SYNC_INTERVAL_MS = 30_000 // 定期取回其他设备的修改 (Regularly fetch other devices' edits)
+const STORAGE_FULL_MESSAGE =
+  "This browser's storage is full, so changes that haven't synced yet will be lost if you close the page. " +
+  "Stay online until they are synced."
+
+// 读取并迁移配置文件的数据；迁移过的数据会重新完整保存 (Load and migrate a profile's data; migrated data is saved again in full)
+const loadProfileState = async (adapter: StorageAdapter, profileId: string): Promise<ScheduleState> => {
+  const raw = await adapter.loadProfile(profileId)
+  if (!raw) return createInitialScheduleState()
+
+  const { data, report } = migrateData(raw)
+  report.issues.forEach((issue) => console.warn(`Stored data ${issue.action} at ${issue.path}: ${issue.message}`))
+  const state = createScheduleState(data)
+  if (report.appliedSteps.length > 0) {
+    console.warn(`Stored data migrated from ${report.fromVersion} to ${report.toVersion}`, report.appliedSteps)
+    const changes = getStorageChanges(null, state)
+    if (changes) await adapter.saveChanges(profileId, changes)
+  }
+  return state
+}
+
+// 第一次启动时创建默认配置文件，并把旧的 localStorage 数据搬进去 (On first start, create the default profile and move the old localStorage data into it)
+const createDefaultProfile = async (adapter: StorageAdapter): Promise<StorageProfile> => {
+  const profile = await adapter.createProfile(DEFAULT_PROFILE_NAME)
+  const legacyData = readLegacyLocalStorage()
+  if (legacyData) {
+    const { data } = migrateData(legacyData)
+    const changes = getStorageChanges(null, createScheduleState(data))
+    if (changes) await adapter.saveChanges(profile.id, changes)
+    clearLegacyLocalStorage()
+  }
+  return profile
+}
+
+// 第一次登录时把浏览器中的配置文件复制到服务器 (On first sign-in, copy the browser's profiles to the server)
+const copyProfiles = async (source: StorageAdapter, target: StorageAdapter): Promise<StorageProfile[]> => {
+  const copied: StorageProfile[] = []
+  for (const sourceProfile of await source.listProfiles()) {
+    const profile = await target.createProfile(sourceProfile.name)
+    const raw = await source.loadProfile(sourceProfile.id)
+    if (raw) {
+      const changes = getStorageChanges(null, createScheduleState(migrateData(raw).data))
+      if (changes) await target.saveChanges(profile.id, changes)
+    }
+    copied.push(profile)
+  }
+  return copied
+}
+
+// 发送排队的操作并取回合并后的数据。beforeMerge 把请求期间的修改加入队列，它们会应用在结果之上
+// Sends the queued operations and fetches the merged data. beforeMerge queues edits made during the request,
+// which are applied on top of the result.
+const syncWithServer = async (profileId: string, beforeMerge: () => void = () => {}) => {
+  const { operations, syncedAt } = readSyncQueue(profileId)
+  const result = await syncProfile(profileId, operations, syncedAt)
+  beforeMerge()
+  const remaining = acknowledgeOperations(profileId, new Set(operations.map((op) => op.id)), result.syncedAt)
+  return {
+    // 服务器还没有数据时为 null (null while the server has no data yet)
+    state: result.data ? applyChanges(createScheduleState(result.data), remaining) : null,
+    conflicts: result.conflicts,
+    pendingCount: remaining.length,
+  }
+}
+
+// 服务器上还没有数据的配置文件由这个设备发送初始状态 (For a profile with no data on the server yet, this device sends the initial state)
+const openServerProfile = async (profileId: string) => {
+  const result = await syncWithServer(profileId)
+  if (result.state) return { ...result, state: result.state }
+  const initialState = createInitialScheduleState()
+  enqueueChanges(profileId, [createResetChange(initialState)])
+  const seeded = await syncWithServer(profileId)
+  return { ...seeded, state: seeded.state ?? initialState }
+}
+
+const createLocalStorageAdapter = () =>
+  isIndexedDBAvailable() ? createIndexedDBStorageAdapter() : createMemoryStorageAdapter()
+
+// 登录时使用服务器存储，未登录时使用浏览器存储 (Server storage when signed in, browser storage when signed out)
+export type StorageMode = "local" | "server"
+
+// 发给其他标签页的消息 (Messages sent to the other tabs)
+type TabMessage =
+  | { type: "changes"; mode: StorageMode; profileId: string; changes: SyncChange[] }
+  | { type: "profiles"; mode: StorageMode }
+
+interface ProfileStorageCallbacks {
+  onLoad: (state: ScheduleState) => void // 加载或切换配置文件后 (After loading or switching profiles)
+  onRemoteChange: (state: ScheduleState) => void // 收到其他设备或标签页的修改后 (After edits from other devices or tabs)
+}
+
+// storageMode 为 null 时等待登录状态确定 (A null storageMode waits for the sign-in status)
+export function useProfileStorage(
+  state: ScheduleState,
+  storageMode: StorageMode | null,
+  callbacks: ProfileStorageCallbacks,
+) {
+  const [profiles, setProfiles] = useState<StorageProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [pendingChangeCount, setPendingChangeCount] = useState(0)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const adapterRef = useRef<StorageAdapter | null>(null)
+  const localAdapterRef = useRef<StorageAdapter | null>(null)
+  const requestedModeRef = useRef<StorageMode | null>(null)
+  const loadedModeRef = useRef<StorageMode | null>(null)
+  const activeProfileIdRef = useRef<string | null>(null)
+  const stateRef = useRef(state)
+  const callbacksRef = useRef(callbacks)
+  // 最后一次保存的状态，用来计算增量 (The last saved state, used to compute the increment)
+  const lastSavedRef = useRef<ScheduleState | null>(null)
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // 按顺序执行写入 (Writes run one after another)
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const isSyncingRef = useRef(false)
+  const tabChannelRef = useRef<TabChannel<TabMessage> | null>(null)
+  // 存储已满的提示只显示一次 (The storage-full message is shown only once)
+  const hasWarnedStorageFullRef = useRef(false)
+
+  stateRef.current = state
+  callbacksRef.current = callbacks
+
+  const enqueue = useCallback((write: (adapter: StorageAdapter) => Promise<void>) => {
+    const adapter = adapterRef.current
+    if (!adapter) return saveQueueRef.current
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => write(adapter))
+      .catch((error) => console.error("Error saving schedule data:", error))
+    return saveQueueRef.current
+  }, [])
+
+  // 把已保存的修改告诉其他标签页 (Tell the other tabs about saved changes)
+  const postChanges = useCallback((profileId: string, changes: SyncChange[]) => {
+    const mode = loadedModeRef.current
+    if (mode && changes.length > 0) tabChannelRef.current?.post({ type: "changes", mode, profileId, changes })
+  }, [])
+
+  // 队列无法保存到 localStorage 时提示用户 (Tell the user when the queue can't be saved to localStorage)
+  const queueChanges = useCallback((profileId: string, changes: SyncChange[]) => {
+    if (enqueueChanges(profileId, changes) || hasWarnedStorageFullRef.current) return
+    hasWarnedStorageFullRef.current = true
+    alert(STORAGE_FULL_MESSAGE)
+  }, [])
+
+  // 把上次保存之后的修改记录为操作 (Record the edits since the last save as operations)
+  const queuePendingChanges = useCallback(
+    (profileId: string) => {
+      if (!lastSavedRef.current) return
+      const changes = diffStates(lastSavedRef.current, stateRef.current)
+      lastSavedRef.current = stateRef.current
+      if (changes.length > 0) queueChanges(profileId, changes)
+      postChanges(profileId, changes)
+    },
+    [queueChanges, postChanges],
+  )
+
+  // 与服务器同步：离线时操作留在队列中，重新连接后再发送
+  // (Sync with the server: while offline the operations stay queued and are sent on reconnect)
+  const syncNow = useCallback(async (): Promise<void> => {
+    const profileId = activeProfileIdRef.current
+    if (loadedModeRef.current !== "server" || !profileId || !lastSavedRef.current || isSyncingRef.current) return
+    isSyncingRef.current = true
+    let syncAgain = false
+    try {
+      const result = await syncWithServer(profileId, () => queuePendingChanges(profileId))
+      // 请求期间切换了配置文件 (The profile was switched during the request)
+      if (activeProfileIdRef.current !== profileId) return
+      if (!result.state) {
+        // 服务器上的数据不见了，用这个设备的状态重新开始 (The server's data is gone, start again from this device's state)
+        queueChanges(profileId, [createResetChange(stateRef.current)])
+        syncAgain = true
+      } else {
+        const remoteChanges = diffStates(stateRef.current, result.state)
+        if (remoteChanges.length > 0) {
+          lastSavedRef.current = result.state
+          callbacksRef.current.onRemoteChange(result.state)
+          postChanges(profileId, remoteChanges)
+        }
+        if (result.conflicts.length > 0) setConflicts((current) => [...current, ...result.conflicts])
+        setPendingChangeCount(result.pendingCount)
+        syncAgain = result.pendingCount > 0
+      }
+    } catch (error) {
+      console.warn("Sync failed, the changes stay queued:", error)
+      setPendingChangeCount(readSyncQueue(profileId).operations.length)
+    } finally {
+      isSyncingRef.current = false
+    }
+    if (syncAgain) await syncNow()
+  }, [queueChanges, queuePendingChanges, postChanges])
+
+  // 立即保存尚未写入的修改 (Save pending changes right away)
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current)
+      saveTimerRef.current = null
+    }
+    const profileId = activeProfileIdRef.current
+    // 加载完成之前不保存，避免覆盖已有数据 (Nothing is saved before loading finishes, so stored data isn't overwritten)
+    if (!profileId || !lastSavedRef.current) return saveQueueRef.current
+    if (loadedModeRef.current === "server") {
+      queuePendingChanges(profileId)
+      return syncNow()
+    }
+    const changes = getStorageChanges(lastSavedRef.current, stateRef.current)
+    const tabChanges = diffStates(lastSavedRef.current, stateRef.current)
+    lastSavedRef.current = stateRef.current
+    if (!changes) return saveQueueRef.current
+    return enqueue(async (adapter) => {
+      await adapter.saveChanges(profileId, changes)
+      postChanges(profileId, tabChanges)
+    })
+  }, [enqueue, queuePendingChanges, syncNow, postChanges])
+
+  const openProfile = useCallback(async (adapter: StorageAdapter, profileId: string) => {
+    let loaded: ScheduleState
+    if (loadedModeRef.current === "server") {
+      const result = await openServerProfile(profileId)
+      loaded = result.state
+      setConflicts(result.conflicts)
+      setPendingChangeCount(result.pendingCount)
+    } else {
+      loaded = await loadProfileState(adapter, profileId)
+      setConflicts([])
+      setPendingChangeCount(0)
+    }
+    await adapter.setActiveProfileId(profileId)
+    lastSavedRef.current = loaded
+    activeProfileIdRef.current = profileId
+    setActiveProfileId(profileId)
+    callbacksRef.current.onLoad(loaded)
+  }, [])
+
+  useEffect(() => {
+    // 开发模式下效果会运行两次，每种存储只加载一次以免重复创建默认配置文件
+    // (Effects run twice in development; each storage loads once so the default profile isn't created twice)
+    if (!storageMode || requestedModeRef.current === storageMode) return
+    requestedModeRef.current = storageMode
+    const getLocalAdapter = () => (localAdapterRef.current ??= createLocalStorageAdapter())
+
+    const load = async () => {
+      // 先把修改保存到之前的存储中，然后在加载完成之前停止保存 (Save pending changes to the previous storage, then stop saving until loading finishes)
+      await flush()
+      loadedModeRef.current = storageMode
+      lastSavedRef.current = null
+      activeProfileIdRef.current = null
+      setActiveProfileId(null)
+
+      const adapter = storageMode === "server" ? createServerStorageAdapter() : getLocalAdapter()
+      adapterRef.current = adapter
+      let storedProfiles = await adapter.listProfiles()
+      if (storedProfiles.length === 0 && storageMode === "server") {
+        storedProfiles = await copyProfiles(getLocalAdapter(), adapter)
+      }
+      if (storedProfiles.length === 0) storedProfiles = [await createDefaultProfile(adapter)]
+      const storedActiveId = await adapter.getActiveProfileId()
+      const profileId = storedProfiles.some((p) => p.id === storedActiveId) ? storedActiveId! : storedProfiles[0].id
+      setProfiles(storedProfiles)
+      await openProfile(adapter, profileId)
+    }
+    load().catch((error) => console.error("Error loading schedule data:", error))
+  }, [storageMode, flush, openProfile])
+
+  // 其他标签页保存的修改应用在当前状态上，正在进行的修改不受影响
+  // (Changes saved by another tab are applied on top of the current state, leaving this tab's pending edits intact)
+  useEffect(() => {
+    const channel = openTabChannel<TabMessage>((message) => {
+      if (message.mode !== loadedModeRef.current) return
+      if (message.type === "profiles") {
+        adapterRef.current
+          ?.listProfiles()
+          .then(setProfiles)
+          .catch((error) => console.error("Error loading profiles:", error))
+        return
+      }
+      if (message.profileId !== activeProfileIdRef.current || !lastSavedRef.current) return
+      // 另一个标签页已经保存了这些修改，所以这里不再保存 (The other tab already saved these changes, so they aren't saved again here)
+      lastSavedRef.current = applyChanges(lastSavedRef.current, message.changes)
+      // 在下一次渲染之前可能还会收到消息 (More messages may arrive before the next render)
+      stateRef.current = applyChanges(stateRef.current, message.changes)
+      callbacksRef.current.onRemoteChange(stateRef.current)
+    })
+    tabChannelRef.current = channel
+    return () => {
+      channel.close()
+      tabChannelRef.current = null
+    }
+  }, [])
+
+  // 状态变化后延迟保存 (Save shortly after the state changes)
+  useEffect(() => {
+    if (!activeProfileId || !lastSavedRef.current || lastSavedRef.current === state) return
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = setTimeout(flush, SAVE_DEBOUNCE_MS)
+  }, [state, activeProfileId, flush])
+
+  // 页面隐藏或关闭时立即保存，回到页面或重新联网时同步 (Save right away when the page is hidden or closed; sync on return or reconnect)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush()
+      else syncNow()
+    }
+    const handleOnline = () => syncNow()
+    const syncInterval = setInterval(() => {
+      if (document.visibilityState === "visible") syncNow()
+    }, SYNC_INTERVAL_MS)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    window.addEventListener("pagehide", flush)
+    window.addEventListener("online", handleOnline)
+    return () => {
+      clearInterval(syncInterval)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      window.removeEventListener("pagehide", flush)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [flush, syncNow])
+
+  const switchProfile = useCallback(
+    async (profileId: string) => {
+      const adapter = adapterRef.current
+      if (!adapter || profileId === activeProfileIdRef.current) return
+      await flush()
+      lastSavedRef.current = null
+      try {
+        await openProfile(adapter, profileId)
+      } catch (error) {
+        console.error("Error switching profile:", error)
+      }
+    },
+    [flush, openProfile],
+  )
+
+  const createProfile = useCallback(
+    async (name: string) => {
+      const adapter = adapterRef.current
+      if (!adapter) return
+      try {
+        const profile = await adapter.createProfile(name)
+        setProfiles((current) => [...current, profile])
+        if (loadedModeRef.current) tabChannelRef.current?.post({ type: "profiles", mode: loadedModeRef.current })
+        await switchProfile(profile.id)
+      } catch (error) {
+        console.error("Error creating profile:", error)
+      }
+    },
+    [switchProfile],
+  )
+
+  // 删除当前配置文件的数据；nextState 是清除后页面显示的状态 (Delete the active profile's data; nextState is what the page shows afterwards)
+  const clearActiveProfile = useCallback(
+    (nextState: ScheduleState) => {
+      const profileId = activeProfileIdRef.current
+      if (!profileId) return
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current)
+        saveTimerRef.current = null
+      }
+      const reset = createResetChange(nextState)
+      postChanges(profileId, [reset])
+      lastSavedRef.current = nextState
+      // 在服务器上，清除作为重置操作排在尚未发送的操作之后，所以正在进行的同步不会把旧数据带回来；
+      // 队列中重置之前的操作会被丢掉
+      // (On the server, the clear is queued as a reset after the unsent operations, so an in-flight sync can't bring
+      // the old data back; the operations queued before the reset are dropped)
+      if (loadedModeRef.current === "server") {
+        queueChanges(profileId, [reset])
+        setPendingChangeCount(readSyncQueue(profileId).operations.length)
+        syncNow()
+        return
+      }
+      enqueue((adapter) => adapter.clearProfile(profileId))
+    },
+    [enqueue, queueChanges, postChanges, syncNow],
+  )
+
+  const dismissConflict = useCallback(
+    (conflictId: string) => setConflicts((current) => current.filter((conflict) => conflict.id !== conflictId)),
+    [],
+  )
+
+  return {
+    profiles,
+    activeProfileId,
+    isLoaded: activeProfileId !== null,
+    pendingChangeCount,
+    conflicts,
+    switchProfile,
+    createProfile,
+    clearActiveProfile,
+    dismissConflict,
+  }
+}
@@ -0,0 +1,97 @@
+// hooks/use-undoable-reducer.ts
+// 带撤销/重做历史的 useReducer，以及 Ctrl+Z / Ctrl+Shift+Z 快捷键。
+// useReducer with an undo/redo history, plus Ctrl+Z / Ctrl+Shift+Z shortcuts.
+"use client"
+
+import { useCallback, useEffect, useReducer } from "react"
+import { applyToAllSteps, createHistory, recordChange, redo, undo, type History } from "@/lib/history"
+
+type HistoryAction<S, A> =
+  | { type: "apply"; action: A; at: number }
+  | { type: "applyToAll"; action: A }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset"; state: S }
+  | { type: "replace"; state: S }
+
+// 文本输入框中保留浏览器自己的撤销 (Text inputs keep the browser's own undo)
+const EDITABLE_TAGS = ["INPUT", "TEXTAREA", "SELECT"]
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || EDITABLE_TAGS.includes(target.tagName))
+
+// getGroupKey 返回相同键的连续动作合并为一个撤销步骤 (Consecutive actions with the same group key merge into one undo step)
+// isOutsideHistory 返回 true 的动作不是撤销步骤，例如开始和停止计时器
+// (Actions for which isOutsideHistory returns true aren't undo steps, e.g. starting and stopping the timer)
+export function useUndoableReducer<S, A>(
+  reducer: (state: S, action: A) => S,
+  initialState: () => S,
+  getGroupKey?: (action: A) => string | undefined,
+  isOutsideHistory?: (action: A) => boolean,
+) {
+  const historyReducer = useCallback(
+    (history: History<S>, historyAction: HistoryAction<S, A>): History<S> => {
+      switch (historyAction.type) {
+        case "reset":
+          return createHistory(historyAction.state)
+        case "replace":
+          return { ...history, present: historyAction.state, lastGroup: null }
+        case "undo":
+          return undo(history)
+        case "redo":
+          return redo(history)
+        case "applyToAll":
+          return applyToAllSteps(history, (state) => reducer(state, historyAction.action))
+        case "apply":
+          return recordChange(history, reducer(history.present, historyAction.action), {
+            groupKey: getGroupKey?.(historyAction.action),
+            at: historyAction.at,
+          })
+      }
+    },
+    [reducer, getGroupKey],
+  )
+  const [history, dispatchHistory] = useReducer(historyReducer, undefined, () => createHistory(initialState()))
+
+  // 每个动作是一个撤销步骤，历史之外的动作除外 (Every action is one undo step, except the ones outside the history)
+  const dispatch = useCallback(
+    (action: A) =>
+      dispatchHistory(
+        isOutsideHistory?.(action) ? { type: "applyToAll", action } : { type: "apply", action, at: Date.now() },
+      ),
+    [isOutsideHistory],
+  )
+  const handleUndo = useCallback(() => dispatchHistory({ type: "undo" }), [])
+  const handleRedo = useCallback(() => dispatchHistory({ type: "redo" }), [])
+  // 替换状态并清空历史，例如加载数据后 (Replaces the state and clears the history, e.g. after loading data)
+  const reset = useCallback((state: S) => dispatchHistory({ type: "reset", state }), [])
+  // 替换状态但不记录撤销步骤，例如收到其他设备的修改 (Replaces the state without an undo step, e.g. for edits from other devices)
+  const replace = useCallback((state: S) => dispatchHistory({ type: "replace", state }), [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === "z") {
+        e.preventDefault()
+        if (e.shiftKey) handleRedo()
+        else handleUndo()
+      } else if (key === "y") {
+        e.preventDefault()
+        handleRedo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  return {
+    state: history.present,
+    dispatch,
+    undo: handleUndo,
+    redo: handleRedo,
+    reset,
+    replace,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
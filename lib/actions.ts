@@ -1,42 +1,88 @@
 "use server"
 
 import { auth } from "@/lib/auth"
+import { GoogleCalendarApiError, createCalendarClient } from "@/lib/google-calendar-api"
+import { exportEventsToCalendar, type CalendarExportEvent } from "@/lib/calendar-export"
 
-export async function getCalendarEvents(timeMin: string, timeMax: string) {
+async function getCalendarClient() {
   const session = await auth()
 
   if (!session || !session.accessToken) {
     throw new Error("Not authenticated")
   }
 
-  const params = new URLSearchParams({
-    timeMin,
-    timeMax,
-    singleEvents: "true",
-    orderBy: "startTime",
-  })
+  // 刷新失败时旧 token 已经无效 (After a failed refresh the old token is useless)
+  if (session.error === "RefreshTokenError") {
+    throw new Error("Google Calendar access expired")
+  }
+
+  return createCalendarClient({ accessToken: session.accessToken })
+}
+
+export async function getCalendarList() {
+  const client = await getCalendarClient()
 
   try {
-    const response = await fetch(
-      `https://www.googleapis.com/calendar/v3/calendars/primary/events?${params.toString()}`,
-      {
-        headers: {
-          Authorization: `Bearer ${session.accessToken}`,
-        },
-        cache: "no-store",
-      }
-    )
+    return await client.listCalendars()
+  } catch (error) {
+    console.error("Error fetching calendar list:", error)
+    throw new Error("Failed to fetch calendar list")
+  }
+}
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error("Google API Error:", response.status, errorText)
-      throw new Error(`Google API returned ${response.status}`)
-    }
+export async function getCalendarEvents(calendarId: string, timeMin: string, timeMax: string) {
+  const client = await getCalendarClient()
 
-    const data = await response.json()
-    return data.items || []
+  try {
+    return await client.listEvents(calendarId, { timeMin, timeMax })
   } catch (error) {
     console.error("Error fetching calendar events:", error)
     throw new Error("Failed to fetch calendar events")
   }
-}
\ No newline at end of file
+}
+
+// 有 syncToken 时只取回之后改变的事件（包括已取消的）；没有 token 或 token 已过期时取回范围内的所有事件。
+// 返回的 nextSyncToken 来自实际执行的那次读取。
+// With a syncToken only the events changed since then are fetched (cancelled ones included); without a token, or
+// when it expired, every event in the range is fetched. The nextSyncToken comes from the fetch that actually ran.
+export async function getCalendarEventChanges(
+  calendarId: string,
+  timeMin: string,
+  timeMax: string,
+  syncToken: string | null,
+) {
+  const client = await getCalendarClient()
+
+  try {
+    if (syncToken) {
+      try {
+        const { items, nextSyncToken } = await client.syncEvents(calendarId, { syncToken })
+        return { events: items, isIncremental: true, nextSyncToken: nextSyncToken ?? null }
+      } catch (error) {
+        // token 过期了 (410 Gone)，改为按范围完整同步 (The token expired (410 Gone), fall back to a full range sync)
+        if (!(error instanceof GoogleCalendarApiError && error.status === 410)) throw error
+      }
+    }
+    const { items, nextSyncToken } = await client.syncEvents(calendarId, { timeMin, timeMax })
+    return { events: items, isIncremental: false, nextSyncToken: nextSyncToken ?? null }
+  } catch (error) {
+    console.error("Error fetching calendar changes:", error)
+    throw new Error("Failed to fetch calendar events")
+  }
+}
+
+// 创建、更新和删除这个配置文件在这个范围内导出的事件 (Create, update and delete this profile's exported events in this range)
+export async function exportToGoogleCalendar(
+  profileId: string,
+  events: CalendarExportEvent[],
+  range: { timeMin: string; timeMax: string; timeZone: string },
+) {
+  const client = await getCalendarClient()
+
+  try {
+    return await exportEventsToCalendar(client, "primary", profileId, events, range)
+  } catch (error) {
+    console.error("Error exporting to Google Calendar:", error)
+    throw new Error("Failed to export to Google Calendar")
+  }
+}
@@ -1,12 +1,60 @@
 import NextAuth from "next-auth"
+import type { JWT } from "next-auth/jwt"
 import Google from "next-auth/providers/google"
 
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token"
+// 提前一分钟刷新，避免请求途中过期 (Refresh a minute early so the token doesn't expire mid-request)
+const EXPIRY_MARGIN_SECONDS = 60
+
+// 用 refresh token 换新的 access token，失败时在 token 上标记错误
+// Trades the refresh token for a new access token, marking the token with an error on failure
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  if (!token.refreshToken) return { ...token, error: "RefreshTokenError" }
+
+  try {
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+      method: "POST",
+      body: new URLSearchParams({
+        client_id: process.env.AUTH_GOOGLE_ID!,
+        client_secret: process.env.AUTH_GOOGLE_SECRET!,
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken,
+      }),
+    })
+    const refreshed = (await response.json()) as {
+      access_token?: string
+      expires_in?: number
+      refresh_token?: string
+      error?: string
+    }
+
+    if (!response.ok || !refreshed.access_token || !refreshed.expires_in) {
+      throw new Error(refreshed.error ?? `Token endpoint returned ${response.status}`)
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      expiresAt: Math.floor(Date.now() / 1000) + refreshed.expires_in,
+      // Google 通常不会返回新的 refresh token (Google usually doesn't return a new refresh token)
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      error: undefined,
+    }
+  } catch (error) {
+    console.error("Error refreshing access token:", error)
+    return { ...token, error: "RefreshTokenError" }
+  }
+}
+
 export const { handlers, signIn, signOut, auth } = NextAuth({
   providers: [
     Google({
       authorization: {
         params: {
-          scope: "openid email profile https://www.googleapis.com/auth/calendar.readonly",
+          // calendar.events 用于导出时间块 (calendar.events is needed to export blocks)
+          scope:
+            "openid email profile https://www.googleapis.com/auth/calendar.readonly " +
+            "https://www.googleapis.com/auth/calendar.events",
           prompt: "consent",
           access_type: "offline",
           response_type: "code",
@@ -16,16 +64,26 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
   ],
   callbacks: {
     async jwt({ token, account }) {
+      // 首次登录 (First sign-in)
       if (account) {
-        token.accessToken = account.access_token
-        token.refreshToken = account.refresh_token
-        token.expiresAt = account.expires_at
+        return {
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          expiresAt: account.expires_at,
+          error: undefined,
+        }
+      }
+
+      if (!token.expiresAt || Date.now() / 1000 < token.expiresAt - EXPIRY_MARGIN_SECONDS) {
+        return token
       }
-      return token
+
+      return refreshAccessToken(token)
     },
     async session({ session, token }) {
-      // @ts-ignore // Extending session type locally for now
       session.accessToken = token.accessToken
+      session.error = token.error
       return session
     },
   },
@@ -0,0 +1,61 @@
+// lib/auto-plan.test.ts
+// 自动安排一天的测试：任务容量和时间块的长度。
+// Tests for auto-planning a day: task capacity and block lengths.
+import { describe, expect, it } from "vitest"
+import type { ScheduledTask, TimeGridSettings } from "@/types/schedule"
+import { planDay, type AutoPlanRequest } from "@/lib/auto-plan"
+import { MAX_TASKS_PER_SLOT, createScheduleState } from "@/lib/schedule-domain"
+import { APP_VERSION } from "@/lib/migration"
+
+const DATE_KEY = "2024-10-21"
+
+const createState = (tasks: ScheduledTask[] = [], slotMinutes: TimeGridSettings["slotMinutes"] = 60) =>
+  createScheduleState({
+    version: APP_VERSION,
+    projects: [],
+    schedules: { [DATE_KEY]: tasks },
+    events: [],
+    timeEntries: [],
+    nextColorIndex: 0,
+    timeGrid: { dayStartHour: 8, dayEndHour: 12, slotMinutes },
+  })
+
+const createTask = (id: string, startMinutes: number): ScheduledTask => ({
+  id,
+  projectId: "other",
+  startMinutes,
+  durationMinutes: 60,
+})
+
+const createRequest = (effortMinutes: number): AutoPlanRequest => ({
+  projectId: "p1",
+  effortMinutes,
+  priority: "medium",
+  preferredSection: null,
+})
+
+describe("planDay", () => {
+  it("plans into slots that still have room below MAX_TASKS_PER_SLOT", () => {
+    const fullSlot = Array.from({ length: MAX_TASKS_PER_SLOT }, (_, index) => createTask(`full-${index}`, 480))
+    const state = createState([...fullSlot, createTask("single", 540)])
+
+    const result = planDay(state, DATE_KEY, [createRequest(120)])
+
+    expect(result.blocks).toEqual([{ projectId: "p1", startMinutes: 540, durationMinutes: 120 }])
+    expect(result.unplaced).toEqual([])
+  })
+
+  it("trims the last block to the remaining effort", () => {
+    const result = planDay(createState(), DATE_KEY, [createRequest(150)])
+
+    expect(result.blocks).toEqual([{ projectId: "p1", startMinutes: 480, durationMinutes: 150 }])
+    expect(result.roundedUp).toEqual([])
+  })
+
+  it("rounds a block shorter than one slot up and reports it", () => {
+    const result = planDay(createState([], 30), DATE_KEY, [createRequest(20)])
+
+    expect(result.blocks).toEqual([{ projectId: "p1", startMinutes: 480, durationMinutes: 30 }])
+    expect(result.roundedUp).toEqual([{ projectId: "p1", minutes: 10 }])
+  })
+})
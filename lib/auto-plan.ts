@@ -0,0 +1,112 @@
+// lib/auto-plan.ts
+// 自动安排一天：按优先级把项目放进空闲的时间段，避开导入的日历事件和任务已满的时间段，并尽量使用项目偏好的时间部分。
+// Auto-plans a day: projects go into free time slots by priority, avoiding imported calendar events and slots already
+// holding MAX_TASKS_PER_SLOT tasks, and use each project's preferred section where possible. The result is only a
+// proposal; applying it goes through the usual reducer rules.
+import type { CalendarEventsById, ProjectPriority, ScheduledTask, TimeSectionKey, TimeSlot } from "@/types/schedule"
+import { selectEventsOnDate } from "@/lib/calendar-events"
+import { PROJECT_PRIORITIES } from "@/lib/schedule-data"
+import { MAX_TASKS_PER_SLOT, type ScheduleState } from "@/lib/schedule-domain"
+import { canPlaceTask, rangesOverlap } from "@/lib/task-layout"
+import { generateTimeSlots } from "@/lib/time-grid"
+
+// 一个要安排的项目 (One project to plan)
+export interface AutoPlanRequest {
+  projectId: string
+  effortMinutes: number // 今天要投入的时间 (Time to spend on it today)
+  priority: ProjectPriority
+  preferredSection: TimeSectionKey | null // null 表示任何时间都可以 (null means any time is fine)
+}
+
+// 预览中的一个时间块 (One block in the preview)
+export interface PlannedBlock {
+  projectId: string
+  startMinutes: number
+  durationMinutes: number
+}
+
+export interface AutoPlanResult {
+  blocks: PlannedBlock[]
+  // 没有足够空闲时间的项目，以及没有安排的分钟数 (Projects without enough free time, and the minutes left over)
+  unplaced: { projectId: string; minutes: number }[]
+  // 时间块至少一个时间段长，向上取整多出的分钟数 (Blocks are at least one slot long, the minutes added by rounding up)
+  roundedUp: { projectId: string; minutes: number }[]
+}
+
+export interface AutoPlanOptions {
+  earliestMinutes?: number // 今天已经过去的时间不安排 (Time that has already passed today isn't planned)
+}
+
+// 有日历事件或任务已满的时间段不算空闲，与手动安排的容量规则相同
+// (Slots with a calendar event or already full of tasks aren't free, the same capacity rule as manual scheduling)
+const getFreeSlots = (slots: TimeSlot[], tasks: ScheduledTask[], events: CalendarEventsById, dateKey: string) => {
+  const { timed } = selectEventsOnDate(events, dateKey)
+  return slots.filter((slot) => {
+    const hasEvent = timed.some(({ startMinutes, durationMinutes }) =>
+      // 零长度的事件占一个点 (Zero-length events occupy a single point)
+      rangesOverlap(slot.startMinutes, slot.endMinutes, startMinutes, startMinutes + Math.max(durationMinutes, 1)),
+    )
+    return !hasEvent && canPlaceTask(tasks, slot.startMinutes, slot.endMinutes - slot.startMinutes, MAX_TASKS_PER_SLOT)
+  })
+}
+
+// 高优先级的项目先安排，同一优先级按请求的顺序 (Higher priorities are planned first, equal ones keep their order)
+export const planDay = (
+  state: ScheduleState,
+  dateKey: string,
+  requests: AutoPlanRequest[],
+  { earliestMinutes = 0 }: AutoPlanOptions = {},
+): AutoPlanResult => {
+  const slots = generateTimeSlots(state.timeGrid).filter((slot) => slot.startMinutes >= earliestMinutes)
+  const free = new Set(getFreeSlots(slots, state.schedules[dateKey] || [], state.events, dateKey))
+  const result: AutoPlanResult = { blocks: [], unplaced: [], roundedUp: [] }
+
+  const getRank = (request: AutoPlanRequest) => PROJECT_PRIORITIES.indexOf(request.priority)
+  ;[...requests].sort((a, b) => getRank(a) - getRank(b)).forEach((request) => {
+    let remaining = request.effortMinutes
+    // 先在偏好的部分里找，不够时再用其他时间 (Look in the preferred section first, then anywhere else)
+    const phases = request.preferredSection
+      ? [slots.filter((slot) => slot.section === request.preferredSection), slots]
+      : [slots]
+
+    phases.forEach((candidates) => {
+      for (let index = 0; index < candidates.length && remaining > 0; index++) {
+        if (!free.has(candidates[index])) continue
+        // 连续的空闲时间段合成一个时间块 (Consecutive free slots form one block)
+        const block: PlannedBlock = {
+          projectId: request.projectId,
+          startMinutes: candidates[index].startMinutes,
+          durationMinutes: 0,
+        }
+        while (
+          index < candidates.length &&
+          remaining > 0 &&
+          free.has(candidates[index]) &&
+          candidates[index].startMinutes === block.startMinutes + block.durationMinutes
+        ) {
+          const slot = candidates[index]
+          free.delete(slot)
+          // 最后一个时间段只用剩下的时间 (The last slot only takes the time that's left)
+          const minutes = Math.min(slot.endMinutes - slot.startMinutes, remaining)
+          block.durationMinutes += minutes
+          remaining -= minutes
+          index++
+        }
+        index--
+        if (block.durationMinutes < state.timeGrid.slotMinutes) {
+          result.roundedUp.push({
+            projectId: request.projectId,
+            minutes: state.timeGrid.slotMinutes - block.durationMinutes,
+          })
+          block.durationMinutes = state.timeGrid.slotMinutes
+        }
+        result.blocks.push(block)
+      }
+    })
+
+    if (remaining > 0) result.unplaced.push({ projectId: request.projectId, minutes: remaining })
+  })
+
+  result.blocks.sort((a, b) => a.startMinutes - b.startMinutes)
+  return result
+}
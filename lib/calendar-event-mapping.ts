@@ -0,0 +1,71 @@
+// lib/calendar-event-mapping.ts
+// 把 Google 日历事件映射为日程中的外部事件。定时事件换算成用户所在时区的本地时间，全天事件保留日期。
+// Maps Google Calendar events to the schedule's external events. Timed events are converted to local time in the
+// viewer's zone, all-day events keep their dates.
+import type { CalendarEvent } from "@/types/schedule"
+import type { GoogleCalendarEvent } from "@/lib/google-calendar-api"
+import type { ProviderCalendar } from "@/lib/calendar-provider"
+import { addDays, isDateKey } from "@/lib/date-utils"
+import { getCalendarEventId, toEventDateTime } from "@/lib/calendar-events"
+import { fromZonedDateTime, toZonedDateTime } from "@/lib/time-zones"
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:\d{2})$/i
+
+// 没有偏移的时间按事件的时区解析 (Times without an offset are read in the event's zone)
+const parseEventDateTime = (dateTime: string, eventTimeZone: string | undefined, fallbackTimeZone: string) => {
+  if (OFFSET_PATTERN.test(dateTime)) return new Date(dateTime).getTime()
+  const [dateKey, time = "00:00"] = dateTime.split("T")
+  const [hours, minutes] = time.split(":").map(Number)
+  return fromZonedDateTime(dateKey, hours * 60 + minutes, eventTimeZone || fallbackTimeZone)
+}
+
+// 事件的开始和结束，没有有效的开始时间时返回 null (The event's start and end, null when it has no valid start)
+const getEventTimes = (event: GoogleCalendarEvent, timeZone: string) => {
+  // 全天事件的日期不属于任何时区，结束日期不包含在内 (All-day dates belong to no zone, and the end date is exclusive)
+  if (event.start?.date) {
+    if (!isDateKey(event.start.date)) return null
+    const end = event.end?.date && event.end.date > event.start.date ? event.end.date : addDays(event.start.date, 1)
+    return { start: event.start.date, end, allDay: true }
+  }
+
+  if (!event.start?.dateTime) return null
+  const start = parseEventDateTime(event.start.dateTime, event.start.timeZone, timeZone)
+  const end = event.end?.dateTime ? parseEventDateTime(event.end.dateTime, event.end.timeZone, timeZone) : start
+  if (Number.isNaN(start) || Number.isNaN(end)) return null
+  // 按用户所在时区的墙上时间保存 (Stored as wall-clock time in the viewer's zone)
+  const toLocal = (instant: number) => {
+    const { dateKey, minutes } = toZonedDateTime(instant, timeZone)
+    return toEventDateTime(dateKey, minutes)
+  }
+  return { start: toLocal(start), end: toLocal(Math.max(start, end)), allDay: false }
+}
+
+// 字段的顺序与保存后读回的相同，方便比较 (Fields are in the same order as after saving and loading, so they compare equal)
+export const toCalendarEvent = (
+  event: GoogleCalendarEvent,
+  calendar: Pick<ProviderCalendar, "id" | "name" | "color">,
+  timeZone: string,
+): CalendarEvent | null => {
+  const times = getEventTimes(event, timeZone)
+  if (!times) return null
+  const attendees = (event.attendees ?? [])
+    .filter((attendee) => attendee.email)
+    .map(({ email, displayName, responseStatus }) => ({
+      email: email!,
+      ...(displayName ? { name: displayName } : {}),
+      ...(responseStatus ? { responseStatus } : {}),
+    }))
+  return {
+    id: getCalendarEventId("google", calendar.id, event.id),
+    source: "google",
+    sourceId: event.id,
+    calendarId: calendar.id,
+    calendarName: calendar.name,
+    color: calendar.color,
+    title: event.summary || "Untitled Event",
+    ...times,
+    ...(event.location ? { location: event.location } : {}),
+    ...(attendees.length > 0 ? { attendees } : {}),
+    ...(event.htmlLink ? { url: event.htmlLink } : {}),
+  }
+}
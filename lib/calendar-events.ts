@@ -0,0 +1,124 @@
+// lib/calendar-events.ts
+// 外部日历事件的时间计算：事件在某一天占用的部分，以及显示用的时间文字。
+// Timing helpers for external calendar events: the part of an event that falls on a given day, and the time
+// text shown for it. Event times are local wall-clock times, so no time zone is involved here.
+import type { CalendarEvent, CalendarEventSource, CalendarEventsById, TimeGridSettings } from "@/types/schedule"
+import { addDays, fromDateKey, isDateKey } from "@/lib/date-utils"
+import { formatMinutes } from "@/lib/time-grid"
+
+export const CALENDAR_EVENT_SOURCES: CalendarEventSource[] = ["google", "ics"]
+
+// 日历没有颜色时使用 (Used when a calendar has no color)
+export const DEFAULT_EVENT_COLOR = "bg-red-600 text-white"
+
+const MINUTES_PER_DAY = 24 * 60
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/
+
+// 事件在某一天的部分 (The part of an event on one day)
+export interface EventSegment {
+  event: CalendarEvent
+  startMinutes: number
+  durationMinutes: number // 零长度的事件为 0 (0 for zero-length events)
+}
+
+export const getCalendarEventId = (source: CalendarEventSource, calendarId: string, sourceId: string) =>
+  `${source}:${calendarId}:${sourceId}`
+
+// 24:00 写作第二天的 00:00 (24:00 is written as 00:00 of the next day)
+export const toEventDateTime = (dateKey: string, minutes: number) => {
+  const days = Math.floor(minutes / MINUTES_PER_DAY)
+  const rest = minutes - days * MINUTES_PER_DAY
+  const hours = Math.floor(rest / 60).toString().padStart(2, "0")
+  return `${addDays(dateKey, days)}T${hours}:${(rest % 60).toString().padStart(2, "0")}`
+}
+
+export const parseEventDateTime = (value: string) => {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value)
+  if (!match) return { dateKey: value, minutes: 0 }
+  return { dateKey: match[1], minutes: Number(match[2]) * 60 + Number(match[3]) }
+}
+
+export const isEventDateTime = (value: unknown, allDay: boolean): value is string => {
+  if (typeof value !== "string") return false
+  if (allDay) return isDateKey(value)
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value)
+  return !!match && isDateKey(match[1]) && Number(match[2]) < 24 && Number(match[3]) < 60
+}
+
+// 全天事件返回 0 到 24:00 (All-day events return 0 to 24:00)
+export const getEventSegmentOnDate = (event: CalendarEvent, dateKey: string): EventSegment | null => {
+  const start = parseEventDateTime(event.start)
+  const end = parseEventDateTime(event.end)
+  if (event.allDay) {
+    return start.dateKey <= dateKey && dateKey < end.dateKey
+      ? { event, startMinutes: 0, durationMinutes: MINUTES_PER_DAY }
+      : null
+  }
+  if (dateKey < start.dateKey || dateKey > end.dateKey) return null
+  // 在午夜结束的事件不出现在第二天 (Events ending at midnight don't show on the next day)
+  if (dateKey === end.dateKey && end.minutes === 0 && dateKey !== start.dateKey) return null
+  const startMinutes = dateKey === start.dateKey ? start.minutes : 0
+  const endMinutes = dateKey === end.dateKey ? end.minutes : MINUTES_PER_DAY
+  return { event, startMinutes, durationMinutes: Math.max(endMinutes - startMinutes, 0) }
+}
+
+// 某一天的事件，按开始时间排序 (A day's events, sorted by start time)
+export const selectEventsOnDate = (events: CalendarEventsById, dateKey: string) => {
+  const allDay: CalendarEvent[] = []
+  const timed: EventSegment[] = []
+  Object.values(events).forEach((event) => {
+    const segment = getEventSegmentOnDate(event, dateKey)
+    if (!segment) return
+    if (event.allDay) allDay.push(event)
+    else timed.push(segment)
+  })
+  allDay.sort((a, b) => a.title.localeCompare(b.title))
+  timed.sort((a, b) => a.startMinutes - b.startMinutes || b.durationMinutes - a.durationMinutes)
+  return { allDay, timed }
+}
+
+// 事件与 startDate 到 endDate 之间的日期有重叠 (The event overlaps the dates from startDate to endDate)
+export const isEventInDateRange = (event: CalendarEvent, startDate: string, endDate: string) => {
+  const start = parseEventDateTime(event.start).dateKey
+  const end = parseEventDateTime(event.end)
+  const lastDate = event.allDay || (end.minutes === 0 && end.dateKey > start) ? addDays(end.dateKey, -1) : end.dateKey
+  return start <= endDate && lastDate >= startDate
+}
+
+// 定时事件的每一部分都在工作时间之外 (Every part of a timed event is outside the working hours)
+export const isEventOutsideHours = (event: CalendarEvent, timeGrid: TimeGridSettings) => {
+  if (event.allDay) return false
+  const dayStart = timeGrid.dayStartHour * 60
+  const dayEnd = timeGrid.dayEndHour * 60
+  const lastDate = parseEventDateTime(event.end).dateKey
+  for (let dateKey = parseEventDateTime(event.start).dateKey; dateKey <= lastDate; dateKey = addDays(dateKey, 1)) {
+    const segment = getEventSegmentOnDate(event, dateKey)
+    if (!segment) continue
+    // 零长度的事件占一个点 (Zero-length events occupy a single point)
+    const segmentEnd = segment.startMinutes + Math.max(segment.durationMinutes, 1)
+    if (segment.startMinutes < dayEnd && segmentEnd > dayStart) return false
+  }
+  return true
+}
+
+const formatEventDate = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString("zh-CN", { weekday: "short", month: "numeric", day: "numeric" })
+
+// 例如 "10月19日周一 09:00 - 10:00" (E.g. "10月19日周一 09:00 - 10:00")
+export const formatEventTimeRange = (event: CalendarEvent) => {
+  const start = parseEventDateTime(event.start)
+  const end = parseEventDateTime(event.end)
+  if (event.allDay) {
+    const lastDate = addDays(end.dateKey, -1)
+    return lastDate > start.dateKey
+      ? `${formatEventDate(start.dateKey)} - ${formatEventDate(lastDate)}`
+      : `${formatEventDate(start.dateKey)} 全天 (All day)`
+  }
+  const startText = `${formatEventDate(start.dateKey)} ${formatMinutes(start.minutes)}`
+  // 在午夜结束的事件显示为 24:00 (Events ending at midnight show as 24:00)
+  const endsAtMidnight = end.minutes === 0 && addDays(start.dateKey, 1) === end.dateKey
+  if (end.dateKey === start.dateKey || endsAtMidnight) {
+    return `${startText} - ${formatMinutes(endsAtMidnight ? MINUTES_PER_DAY : end.minutes)}`
+  }
+  return `${startText} - ${formatEventDate(end.dateKey)} ${formatMinutes(end.minutes)}`
+}
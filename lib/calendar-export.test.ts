@@ -0,0 +1,179 @@
+// lib/calendar-export.test.ts
+// 导出到 Google 日历的测试，使用本地模拟的日历 REST API。
+// Tests for exporting to Google Calendar, against a local mock of the Calendar REST API.
+import { describe, expect, it } from "vitest"
+import { createCalendarClient, type GoogleCalendarEvent } from "@/lib/google-calendar-api"
+import { exportEventsToCalendar, type CalendarExportEvent } from "@/lib/calendar-export"
+
+const BASE_URL = "http://calendar.test/calendar/v3"
+const PROFILE_ID = "work"
+const RANGE = { timeMin: "2024-10-21T00:00:00.000Z", timeMax: "2024-10-28T00:00:00.000Z", timeZone: "UTC" }
+
+// 事件的时区是 UTC，所以本地时间加上 "Z" 就是时间戳 (Events are in UTC, so their local time plus "Z" is the timestamp)
+const toTimestamp = (time?: { dateTime?: string }) => Date.parse(`${time?.dateTime}Z`)
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } })
+
+// 内存中的一个日历，只实现导出用到的请求 (One in-memory calendar, implementing only the requests the export makes)
+const createMockCalendarApi = (initialEvents: GoogleCalendarEvent[] = []) => {
+  const events = new Map(initialEvents.map((event) => [event.id, event]))
+  const requests: string[] = []
+  let nextId = 1
+
+  const handle = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input))
+    const method = init.method ?? "GET"
+    requests.push(`${method} ${url.pathname}`)
+    const match = /^\/calendar\/v3\/calendars\/[^/]+\/events(?:\/([^/]+))?$/.exec(url.pathname)
+    if (!match) return new Response("Not found", { status: 404 })
+    const eventId = match[1] && decodeURIComponent(match[1])
+    const body = init.body ? JSON.parse(String(init.body)) : undefined
+
+    if (method === "GET") {
+      const properties = url.searchParams.getAll("privateExtendedProperty").map((property) => property.split("="))
+      const timeMin = url.searchParams.get("timeMin")
+      const timeMax = url.searchParams.get("timeMax")
+      const items = [...events.values()].filter(
+        (event) =>
+          properties.every(([key, value]) => event.extendedProperties?.private?.[key] === value) &&
+          (!timeMin || toTimestamp(event.end) > Date.parse(timeMin)) &&
+          (!timeMax || toTimestamp(event.start) < Date.parse(timeMax)),
+      )
+      return jsonResponse({ items })
+    }
+    if (method === "POST") {
+      const event = { ...body, id: `event-${nextId++}`, status: "confirmed" }
+      events.set(event.id, event)
+      return jsonResponse(event)
+    }
+    const current = eventId ? events.get(eventId) : undefined
+    if (!current) return new Response("Not found", { status: 404 })
+    if (method === "PATCH") {
+      const event = { ...current, ...body }
+      events.set(current.id, event)
+      return jsonResponse(event)
+    }
+    events.delete(current.id)
+    return new Response(null, { status: 204 })
+  }
+
+  const client = createCalendarClient({ accessToken: "test-token", fetch: handle as typeof fetch, baseUrl: BASE_URL })
+  return { client, events, requests }
+}
+
+const createBlock = (taskId: string, overrides: Partial<CalendarExportEvent> = {}): CalendarExportEvent => ({
+  taskId,
+  dateKey: "2024-10-21",
+  startMinutes: 540,
+  durationMinutes: 60,
+  summary: `Block ${taskId}`,
+  description: "☐ Draft",
+  ...overrides,
+})
+
+const getTaskId = (event: GoogleCalendarEvent) => event.extendedProperties?.private?.scheduleBuilderTaskId
+
+describe("exportEventsToCalendar", () => {
+  it("creates an event for a new block", async () => {
+    const api = createMockCalendarApi()
+    const summary = await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t1")], RANGE)
+
+    expect(summary).toEqual({ created: 1, updated: 0, deleted: 0 })
+    const [event] = api.events.values()
+    expect(getTaskId(event)).toBe("t1")
+    expect(event).toMatchObject({
+      summary: "Block t1",
+      start: { dateTime: "2024-10-21T09:00:00", timeZone: "UTC" },
+      end: { dateTime: "2024-10-21T10:00:00", timeZone: "UTC" },
+    })
+  })
+
+  it("updates the same event when a block is edited", async () => {
+    const api = createMockCalendarApi()
+    await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t1")], RANGE)
+    const [eventId] = api.events.keys()
+
+    const summary = await exportEventsToCalendar(
+      api.client,
+      "primary",
+      PROFILE_ID,
+      [createBlock("t1", { startMinutes: 600, summary: "Renamed" })],
+      RANGE,
+    )
+
+    expect(summary).toEqual({ created: 0, updated: 1, deleted: 0 })
+    expect([...api.events.keys()]).toEqual([eventId])
+    expect(api.events.get(eventId)).toMatchObject({ summary: "Renamed", start: { dateTime: "2024-10-21T10:00:00" } })
+  })
+
+  it("deletes the event of a removed block and leaves other events alone", async () => {
+    const otherEvent: GoogleCalendarEvent = {
+      id: "meeting",
+      summary: "Meeting",
+      start: { dateTime: "2024-10-21T09:00:00", timeZone: "UTC" },
+      end: { dateTime: "2024-10-21T10:00:00", timeZone: "UTC" },
+    }
+    const api = createMockCalendarApi([otherEvent])
+    await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t1"), createBlock("t2")], RANGE)
+
+    const summary = await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t1")], RANGE)
+
+    expect(summary).toEqual({ created: 0, updated: 0, deleted: 1 })
+    expect([...api.events.values()].map((event) => getTaskId(event) ?? event.id).sort()).toEqual(["meeting", "t1"])
+  })
+
+  it("skips unchanged blocks by their fingerprint", async () => {
+    const api = createMockCalendarApi()
+    await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t1"), createBlock("t2")], RANGE)
+    api.requests.length = 0
+
+    const summary = await exportEventsToCalendar(
+      api.client,
+      "primary",
+      PROFILE_ID,
+      [createBlock("t1"), createBlock("t2")],
+      RANGE,
+    )
+
+    expect(summary).toEqual({ created: 0, updated: 0, deleted: 0 })
+    expect(api.requests.every((request) => request.startsWith("GET "))).toBe(true)
+  })
+
+  it("updates the event of a block moved in from outside the range, with one lookup for all new blocks", async () => {
+    const api = createMockCalendarApi()
+    const earlier = { ...RANGE, timeMin: "2024-10-14T00:00:00.000Z", timeMax: "2024-10-21T00:00:00.000Z" }
+    await exportEventsToCalendar(
+      api.client,
+      "primary",
+      PROFILE_ID,
+      [createBlock("moved", { dateKey: "2024-10-15" })],
+      earlier,
+    )
+    const [eventId] = api.events.keys()
+    api.requests.length = 0
+
+    const summary = await exportEventsToCalendar(
+      api.client,
+      "primary",
+      PROFILE_ID,
+      [createBlock("moved"), createBlock("t1"), createBlock("t2"), createBlock("t3")],
+      RANGE,
+    )
+
+    expect(summary).toEqual({ created: 3, updated: 1, deleted: 0 })
+    expect(api.events.get(eventId)).toMatchObject({ start: { dateTime: "2024-10-21T09:00:00" } })
+    expect(api.events.size).toBe(4)
+    expect(api.requests.filter((request) => request.startsWith("GET "))).toHaveLength(2)
+  })
+
+  it("leaves the events exported by another profile alone", async () => {
+    const api = createMockCalendarApi()
+    await exportEventsToCalendar(api.client, "primary", "personal", [createBlock("t1")], RANGE)
+
+    const summary = await exportEventsToCalendar(api.client, "primary", PROFILE_ID, [createBlock("t2")], RANGE)
+
+    expect(summary).toEqual({ created: 1, updated: 0, deleted: 0 })
+    expect([...api.events.values()].map(getTaskId).sort()).toEqual(["t1", "t2"])
+  })
+})
@@ -0,0 +1,186 @@
+// lib/calendar-export.ts
+// 把已安排的项目时间块导出为 Google 日历事件。每个事件的私有属性记录它的配置文件和任务，所以再次导出时会更新同一个事件，
+// 不同配置文件的事件互不影响。
+// Exports scheduled project blocks as Google Calendar events. Private properties on each event record its profile and
+// task, so exporting again updates the same event instead of creating a duplicate, and profiles don't touch each
+// other's events.
+import type { ProjectsState, SchedulesByDate } from "@/types/schedule"
+import {
+  GoogleCalendarApiError,
+  type CalendarClient,
+  type GoogleCalendarEvent,
+  type GoogleCalendarEventInput,
+} from "@/lib/google-calendar-api"
+import { selectScheduledTaskViews } from "@/lib/selectors"
+import { addDays } from "@/lib/date-utils"
+import { formatMinutes } from "@/lib/time-grid"
+
+// 事件上的私有属性 (Private properties on the events)
+export const EXPORT_APP_PROPERTY = "scheduleBuilderApp"
+export const EXPORT_APP_VALUE = "personal-schedule-builder"
+const EXPORT_PROFILE_PROPERTY = "scheduleBuilderProfileId"
+const EXPORT_TASK_PROPERTY = "scheduleBuilderTaskId"
+// 导出内容的指纹，没有变化时不更新 (A fingerprint of the exported content, events are only updated when it changes)
+const EXPORT_FINGERPRINT_PROPERTY = "scheduleBuilderFingerprint"
+
+// 一个要导出的时间块 (One block to export)
+export interface CalendarExportEvent {
+  taskId: string
+  dateKey: string
+  startMinutes: number
+  durationMinutes: number
+  summary: string
+  description: string
+}
+
+export interface CalendarExportSummary {
+  created: number
+  updated: number
+  deleted: number
+}
+
+// 由我们导出的事件，给出 profileId 时只包括这个配置文件的
+// (Whether an event was exported by us, only from this profile when profileId is given)
+export const isExportedEvent = (event: GoogleCalendarEvent, profileId?: string) =>
+  event.extendedProperties?.private?.[EXPORT_APP_PROPERTY] === EXPORT_APP_VALUE &&
+  (profileId === undefined || event.extendedProperties.private[EXPORT_PROFILE_PROPERTY] === profileId)
+
+// 列出一个配置文件导出的事件的查询条件 (The query that lists one profile's exported events)
+const getExportQuery = (profileId: string) => [
+  `${EXPORT_APP_PROPERTY}=${EXPORT_APP_VALUE}`,
+  `${EXPORT_PROFILE_PROPERTY}=${profileId}`,
+]
+
+// 只导出已安排的任务，导入的事件不在其中 (Only scheduled tasks are exported, imported events aren't among them)
+export const buildExportEvents = (
+  projects: ProjectsState,
+  schedules: SchedulesByDate,
+  dateKeys: string[],
+): CalendarExportEvent[] =>
+  dateKeys.flatMap((dateKey) =>
+    selectScheduledTaskViews(projects, schedules[dateKey] || []).map((task) => ({
+      taskId: task.id,
+      dateKey,
+      startMinutes: task.startMinutes,
+      durationMinutes: task.durationMinutes,
+      summary: task.displayName,
+      description: task.subTasks.map((subTask) => `${subTask.completed ? "☑" : "☐"} ${subTask.text}`).join("\n"),
+    })),
+  )
+
+// 不带时区偏移的本地时间，时区由 timeZone 字段给出 (Local time without an offset, the zone comes from the timeZone field)
+const toLocalDateTime = (dateKey: string, minutes: number) =>
+  `${addDays(dateKey, Math.floor(minutes / 1440))}T${formatMinutes(minutes % 1440)}:00`
+
+export const toGoogleEvent = (
+  event: CalendarExportEvent,
+  profileId: string,
+  timeZone: string,
+): GoogleCalendarEventInput => {
+  const content = {
+    summary: event.summary,
+    description: event.description,
+    start: { dateTime: toLocalDateTime(event.dateKey, event.startMinutes), timeZone },
+    end: { dateTime: toLocalDateTime(event.dateKey, event.startMinutes + event.durationMinutes), timeZone },
+  }
+  return {
+    ...content,
+    extendedProperties: {
+      private: {
+        [EXPORT_APP_PROPERTY]: EXPORT_APP_VALUE,
+        [EXPORT_PROFILE_PROPERTY]: profileId,
+        [EXPORT_TASK_PROPERTY]: event.taskId,
+        [EXPORT_FINGERPRINT_PROPERTY]: JSON.stringify(content),
+      },
+    },
+  }
+}
+
+// 比较要导出的时间块和日历中已有的事件，决定创建、更新和删除哪些事件
+// Compares the blocks to export with the events already in the calendar and decides what to create, update and delete
+export const planCalendarExport = (
+  events: CalendarExportEvent[],
+  existing: GoogleCalendarEvent[],
+  profileId: string,
+  timeZone: string,
+) => {
+  const existingByTask = new Map<string, GoogleCalendarEvent>()
+  const toDelete: GoogleCalendarEvent[] = []
+  existing.filter((event) => isExportedEvent(event, profileId)).forEach((event) => {
+    const taskId = event.extendedProperties!.private![EXPORT_TASK_PROPERTY]
+    // 同一个任务的重复事件只保留一个 (Keep only one event per task)
+    if (existingByTask.has(taskId)) toDelete.push(event)
+    else existingByTask.set(taskId, event)
+  })
+
+  const toCreate: { taskId: string; event: GoogleCalendarEventInput }[] = []
+  const toUpdate: { eventId: string; event: GoogleCalendarEventInput }[] = []
+  events.forEach((exportEvent) => {
+    const googleEvent = toGoogleEvent(exportEvent, profileId, timeZone)
+    const current = existingByTask.get(exportEvent.taskId)
+    existingByTask.delete(exportEvent.taskId)
+    if (!current) toCreate.push({ taskId: exportEvent.taskId, event: googleEvent })
+    else if (
+      current.extendedProperties?.private?.[EXPORT_FINGERPRINT_PROPERTY] !==
+      googleEvent.extendedProperties!.private![EXPORT_FINGERPRINT_PROPERTY]
+    ) {
+      toUpdate.push({ eventId: current.id, event: googleEvent })
+    }
+  })
+  // 时间块已经被删除或移出了这个范围 (The block was deleted or moved out of this range)
+  toDelete.push(...existingByTask.values())
+
+  return { toCreate, toUpdate, toDelete }
+}
+
+// 在 timeMin 到 timeMax 之间同步一个配置文件导出的事件，范围外的事件和其他配置文件的事件不受影响
+// Syncs one profile's exported events between timeMin and timeMax; events outside the range and other profiles'
+// events are left alone
+export const exportEventsToCalendar = async (
+  client: CalendarClient,
+  calendarId: string,
+  profileId: string,
+  events: CalendarExportEvent[],
+  range: { timeMin: string; timeMax: string; timeZone: string },
+): Promise<CalendarExportSummary> => {
+  const exportQuery = getExportQuery(profileId)
+  const existing = await client.listEvents(calendarId, {
+    timeMin: range.timeMin,
+    timeMax: range.timeMax,
+    privateExtendedProperty: exportQuery,
+  })
+  const { toCreate, toUpdate, toDelete } = planCalendarExport(events, existing, profileId, range.timeZone)
+  let created = 0
+
+  // 从范围外移进来的时间块已经有事件了，更新它而不是创建新的。所有导出的事件只读取一次，在内存中按任务匹配
+  // (A block moved in from outside the range already has an event, which is updated instead of creating a new one.
+  // All exported events are read in a single request and matched by task in memory)
+  const exportedByTask = new Map<string, GoogleCalendarEvent>()
+  if (toCreate.length > 0) {
+    const allExported = await client.listEvents(calendarId, { privateExtendedProperty: exportQuery })
+    allExported.filter((event) => isExportedEvent(event, profileId)).forEach((event) => {
+      exportedByTask.set(event.extendedProperties!.private![EXPORT_TASK_PROPERTY], event)
+    })
+  }
+  for (const { taskId, event } of toCreate) {
+    const previous = exportedByTask.get(taskId)
+    if (previous) {
+      toUpdate.push({ eventId: previous.id, event })
+    } else {
+      await client.insertEvent(calendarId, event)
+      created++
+    }
+  }
+  for (const { eventId, event } of toUpdate) await client.patchEvent(calendarId, eventId, event)
+  for (const event of toDelete) {
+    try {
+      await client.deleteEvent(calendarId, event.id)
+    } catch (error) {
+      // 已经在日历中删除了 (Already deleted in the calendar)
+      const isGone = error instanceof GoogleCalendarApiError && (error.status === 404 || error.status === 410)
+      if (!isGone) throw error
+    }
+  }
+
+  return { created, updated: toUpdate.length, deleted: toDelete.length }
+}
@@ -0,0 +1,43 @@
+// lib/calendar-provider.ts
+// 日历来源的公共接口。Google 日历和 .ics 文件都实现它，导入和导出的流程不需要知道具体是哪一个。
+// The common interface of calendar sources. Google Calendar and .ics files both implement it, so the import and
+// export flows don't need to know which one they are talking to.
+import type { CalendarEvent, CalendarEventSource } from "@/types/schedule"
+import type { CalendarExportEvent } from "@/lib/calendar-export"
+
+// 来源中的一个日历 (One calendar in a source)
+export interface ProviderCalendar {
+  id: string
+  name: string
+  color: string // Tailwind 类名或十六进制颜色 (Tailwind classes or a hex color)
+  selected?: boolean // 导入时默认选中 (Picked by default when importing)
+}
+
+// 日期范围，包含两端；时间按 timeZone 显示 (A date range including both ends; times are shown in timeZone)
+export interface CalendarDateRange {
+  startDate: string
+  endDate: string
+  timeZone: string
+}
+
+// 一个日历取回的事件 (The events fetched for one calendar)
+export interface CalendarFetchResult {
+  calendar: ProviderCalendar
+  rangeEvents: CalendarEvent[] // 范围内的所有事件 (Every event in the range)
+  // 上次同步之后改变的事件，范围外的只在已经导入时更新
+  // Events changed since the last sync, outside the range they only update events that were already imported
+  changedEvents: CalendarEvent[]
+  removedSourceIds: string[] // 在来源中删除或取消的事件 (Events deleted or cancelled in the source)
+  // rangeEvents 只包括上次同步之后改变的事件，所以不在其中的已导入事件保留
+  // (rangeEvents only holds the events changed since the last sync, so imported events missing from it are kept)
+  isIncremental?: boolean
+}
+
+export interface CalendarProvider {
+  source: CalendarEventSource
+  label: string // 显示给用户的名称，例如 "Google Calendar" (Name shown to the user, e.g. "Google Calendar")
+  listCalendars(): Promise<ProviderCalendar[]>
+  fetchEvents(calendars: ProviderCalendar[], range: CalendarDateRange): Promise<CalendarFetchResult[]>
+  // 返回显示给用户的结果说明，没有要说的时返回 null (Returns a result message for the user, or null when there is none)
+  exportEvents(events: CalendarExportEvent[], range: CalendarDateRange): Promise<string | null>
+}
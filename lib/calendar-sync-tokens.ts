@@ -0,0 +1,34 @@
+// lib/calendar-sync-tokens.ts
+// 每个配置文件中每个 Google 日历的 syncToken，保存在 localStorage 中。下次同步同一个范围时只取回之后改变的事件。
+// The Google syncToken of every calendar in each profile, kept in localStorage. The next sync of the same range only
+// fetches the events changed since then.
+
+const SYNC_TOKENS_KEY_PREFIX = "personal-schedule-builder-calendar-sync:"
+
+// token 来自一次按范围的完整读取，只对这个范围有效 (A token comes from a full fetch of a range and only covers that range)
+export interface CalendarSyncToken {
+  syncToken: string
+  timeMin: string
+  timeMax: string
+}
+
+export type CalendarSyncTokens = Record<string, CalendarSyncToken> // calendarId -> syncToken
+
+export const readCalendarSyncTokens = (profileId: string): CalendarSyncTokens => {
+  try {
+    const stored = localStorage.getItem(SYNC_TOKENS_KEY_PREFIX + profileId)
+    return stored ? (JSON.parse(stored) as CalendarSyncTokens) : {}
+  } catch (error) {
+    console.error("Error reading calendar sync tokens:", error)
+    return {}
+  }
+}
+
+export const writeCalendarSyncTokens = (profileId: string, tokens: CalendarSyncTokens) => {
+  try {
+    const merged = { ...readCalendarSyncTokens(profileId), ...tokens }
+    localStorage.setItem(SYNC_TOKENS_KEY_PREFIX + profileId, JSON.stringify(merged))
+  } catch (error) {
+    console.error("Error saving calendar sync tokens:", error)
+  }
+}
@@ -0,0 +1,76 @@
+// lib/calendar-sync.test.ts
+// 日历同步计划的测试：完整同步和增量同步如何处理已导入的事件。
+// Tests for the calendar sync plan: how full and incremental syncs treat imported events.
+import { describe, expect, it } from "vitest"
+import type { CalendarEvent } from "@/types/schedule"
+import type { CalendarFetchResult, ProviderCalendar } from "@/lib/calendar-provider"
+import { planCalendarSync, type CalendarSyncOptions } from "@/lib/calendar-sync"
+import { createScheduleState } from "@/lib/schedule-domain"
+import { APP_VERSION } from "@/lib/migration"
+
+const CALENDAR: ProviderCalendar = { id: "primary", name: "Primary", color: "#039be5" }
+const OPTIONS: CalendarSyncOptions = {
+  timeGrid: { dayStartHour: 8, dayEndHour: 20, slotMinutes: 30 },
+  startDate: "2024-10-21",
+  endDate: "2024-10-27",
+}
+
+const createEvent = (sourceId: string, dateKey = "2024-10-21", title = `Event ${sourceId}`): CalendarEvent => ({
+  id: `google:primary:${sourceId}`,
+  source: "google",
+  sourceId,
+  calendarId: "primary",
+  calendarName: "Primary",
+  color: "#039be5",
+  title,
+  start: `${dateKey}T09:00`,
+  end: `${dateKey}T10:00`,
+  allDay: false,
+})
+
+const STATE = createScheduleState({
+  version: APP_VERSION,
+  projects: [],
+  schedules: {},
+  events: [createEvent("kept"), createEvent("cancelled"), createEvent("earlier", "2024-10-14")],
+  timeEntries: [],
+  nextColorIndex: 0,
+  timeGrid: OPTIONS.timeGrid,
+})
+
+const createResult = (overrides: Partial<CalendarFetchResult>): CalendarFetchResult => ({
+  calendar: CALENDAR,
+  rangeEvents: [],
+  changedEvents: [],
+  removedSourceIds: [],
+  ...overrides,
+})
+
+describe("planCalendarSync", () => {
+  it("removes imported events missing from a full range fetch", () => {
+    const plan = planCalendarSync(STATE, "google", [createResult({ rangeEvents: [createEvent("kept")] })], OPTIONS)
+    expect(plan.removedEventIds).toEqual([createEvent("cancelled").id])
+    expect(plan.upserts).toEqual([])
+  })
+
+  it("keeps unchanged imported events in an incremental sync and applies the changes", () => {
+    const added = createEvent("added", "2024-10-22")
+    const moved = createEvent("earlier", "2024-10-15", "Moved")
+    const plan = planCalendarSync(
+      STATE,
+      "google",
+      [
+        createResult({
+          rangeEvents: [added],
+          changedEvents: [added, moved],
+          removedSourceIds: ["cancelled"],
+          isIncremental: true,
+        }),
+      ],
+      OPTIONS,
+    )
+    expect(plan.removedEventIds).toEqual([createEvent("cancelled").id])
+    expect(plan.upserts).toEqual([moved, added])
+    expect(plan.summary).toMatchObject({ added: ["Event added"], updated: ["Moved"] })
+  })
+})
@@ -0,0 +1,109 @@
+// lib/calendar-sync.ts
+// 把日历来源的当前状态同步到已导入的事件：新事件加入，移动和改名的事件更新，取消和移走的事件删除。
+// Brings imported events in line with a calendar source: new events are added, moved and renamed events are updated,
+// and cancelled or moved-away events are removed.
+import type { CalendarEvent, CalendarEventSource, TimeGridSettings } from "@/types/schedule"
+import type { CalendarFetchResult } from "@/lib/calendar-provider"
+import { isEventInDateRange, isEventOutsideHours } from "@/lib/calendar-events"
+import type { ScheduleState } from "@/lib/schedule-domain"
+
+export interface CalendarSyncOptions {
+  timeGrid: TimeGridSettings
+  startDate: string
+  endDate: string
+}
+
+// 每一项是事件的标题 (Each entry is an event title)
+export interface CalendarSyncSummary {
+  added: string[]
+  updated: string[]
+  removed: string[]
+  outsideHoursCount: number
+}
+
+export interface CalendarSyncPlan {
+  upserts: CalendarEvent[]
+  removedEventIds: string[]
+  summary: CalendarSyncSummary
+}
+
+// 值都是普通数据，用 JSON 比较即可 (Values are plain data, so comparing their JSON is enough)
+const isSameEvent = (a: CalendarEvent, b: CalendarEvent) => JSON.stringify(a) === JSON.stringify(b)
+
+// 某个日历已导入的事件，按来源中的ID索引 (A calendar's imported events, keyed by their ID in the source)
+const indexImportedEvents = (state: ScheduleState, source: CalendarEventSource, calendarId: string) => {
+  const index = new Map<string, CalendarEvent>()
+  Object.values(state.events).forEach((event) => {
+    if (event.source === source && event.calendarId === calendarId) index.set(event.sourceId, event)
+  })
+  return index
+}
+
+export const planCalendarSync = (
+  state: ScheduleState,
+  source: CalendarEventSource,
+  results: CalendarFetchResult[],
+  { timeGrid, startDate, endDate }: CalendarSyncOptions,
+): CalendarSyncPlan => {
+  const plan: CalendarSyncPlan = {
+    upserts: [],
+    removedEventIds: [],
+    summary: { added: [], updated: [], removed: [], outsideHoursCount: 0 },
+  }
+  const remove = (event: CalendarEvent) => {
+    plan.removedEventIds.push(event.id)
+    plan.summary.removed.push(event.title)
+  }
+
+  results.forEach(({ calendar, rangeEvents, changedEvents, removedSourceIds, isIncremental }) => {
+    const imported = indexImportedEvents(state, source, calendar.id)
+
+    // 改变的事件只在已导入时处理，范围内的事件总是处理 (Changed events only matter once imported, range events always do)
+    const events = new Map<string, CalendarEvent>()
+    changedEvents.forEach((event) => {
+      if (imported.has(event.sourceId)) events.set(event.sourceId, event)
+    })
+    rangeEvents.forEach((event) => {
+      if (!events.has(event.sourceId)) events.set(event.sourceId, event)
+    })
+    const removed = new Set(removedSourceIds.filter((sourceId) => !events.has(sourceId)))
+
+    imported.forEach((current, sourceId) => {
+      // 在来源中删除了，或者完整同步时已经不在范围内 (Deleted in the source, or no longer in the range of a full sync)
+      if (removed.has(sourceId)) remove(current)
+      else if (!isIncremental && !events.has(sourceId) && isEventInDateRange(current, startDate, endDate)) {
+        remove(current)
+      }
+    })
+
+    events.forEach((wanted, sourceId) => {
+      const current = imported.get(sourceId)
+      if (isEventOutsideHours(wanted, timeGrid)) plan.summary.outsideHoursCount++
+      if (current && isSameEvent(current, wanted)) return
+      plan.upserts.push(wanted)
+      plan.summary[current ? "updated" : "added"].push(wanted.title)
+    })
+  })
+
+  return plan
+}
+
+export const hasCalendarChanges = ({ upserts, removedEventIds }: CalendarSyncPlan) =>
+  upserts.length > 0 || removedEventIds.length > 0
+
+// 同步结果的文字说明 (A text description of what a sync changed)
+export const formatCalendarSyncSummary = (providerLabel: string, summary: CalendarSyncSummary) => {
+  const groups: [string, string[]][] = [
+    ["Added", summary.added],
+    ["Updated", summary.updated],
+    ["Removed", summary.removed],
+  ]
+  const lines = groups
+    .filter(([, titles]) => titles.length > 0)
+    .map(([label, titles]) => `${label} (${titles.length}): ${titles.join(", ")}`)
+  if (lines.length === 0) lines.push("Everything was already up to date.")
+  if (summary.outsideHoursCount > 0) {
+    lines.push(`${summary.outsideHoursCount} event(s) fall outside your working hours and are not shown.`)
+  }
+  return `${providerLabel} sync\n\n${lines.join("\n")}`
+}
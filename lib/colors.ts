@@ -0,0 +1,21 @@
+// lib/colors.ts
+// 项目颜色可以是 Tailwind 类名，也可以是十六进制颜色，例如从 Google 日历导入的日历颜色。
+// A project color is either Tailwind classes or a hex color, such as the color of an imported Google calendar.
+import type { CSSProperties } from "react"
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+export const isHexColor = (color: string) => HEX_COLOR_PATTERN.test(color)
+
+// 浅色背景上用深色文字 (Dark text on light backgrounds)
+const getTextColor = (hex: string) => {
+  const [red, green, blue] = [1, 3, 5].map((index) => parseInt(hex.slice(index, index + 2), 16))
+  const luminance = (0.299 * red + 0.587 * green + 0.114 * blue) / 255
+  return luminance > 0.6 ? "#1f2937" : "#ffffff"
+}
+
+// 返回要加到元素上的类名和样式 (Returns the class names and style to put on an element)
+export const getColorProps = (color: string): { className: string; style?: CSSProperties } =>
+  isHexColor(color)
+    ? { className: "", style: { backgroundColor: color, color: getTextColor(color) } }
+    : { className: color }
@@ -0,0 +1,57 @@
+// lib/date-utils.ts
+// 日期辅助函数。日程按本地日期存储，键的格式为 "YYYY-MM-DD"。
+// Date helpers. Schedules are stored per local calendar date, keyed as "YYYY-MM-DD".
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === "string" && DATE_KEY_PATTERN.test(value) && !Number.isNaN(fromDateKey(value).getTime())
+
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear()
+  const month = (date.getMonth() + 1).toString().padStart(2, "0")
+  const day = date.getDate().toString().padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+// 解析为本地时间的午夜 (Parses to local midnight, not UTC midnight like `new Date("YYYY-MM-DD")`)
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const getTodayKey = (): string => toDateKey(new Date())
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey)
+  date.setDate(date.getDate() + days)
+  return toDateKey(date)
+}
+
+export const formatDateLabel = (dateKey: string): string =>
+  fromDateKey(dateKey).toLocaleDateString("zh-CN", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+  })
+
+// 一周从周一开始 (Weeks start on Monday)
+export const getWeekStartKey = (dateKey: string): string => {
+  const daysSinceMonday = (fromDateKey(dateKey).getDay() + 6) % 7
+  return addDays(dateKey, -daysSinceMonday)
+}
+
+export const getWeekDateKeys = (dateKey: string): string[] => {
+  const weekStart = getWeekStartKey(dateKey)
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+}
+
+export const formatWeekdayLabel = (dateKey: string): string =>
+  fromDateKey(dateKey).toLocaleDateString("zh-CN", { weekday: "short", month: "numeric", day: "numeric" })
+
+export const formatWeekRangeLabel = (dateKey: string): string => {
+  const weekDates = getWeekDateKeys(dateKey)
+  const format = (key: string) => fromDateKey(key).toLocaleDateString("zh-CN", { month: "long", day: "numeric" })
+  return `${fromDateKey(weekDates[0]).getFullYear()}年 ${format(weekDates[0])} - ${format(weekDates[6])}`
+}
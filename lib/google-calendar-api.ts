@@ -0,0 +1,134 @@
+// lib/google-calendar-api.ts
+// Google 日历 REST API 的小客户端。fetch 和基础 URL 可以替换，例如换成本地的模拟服务器。
+// A small client for the Google Calendar REST API. fetch and the base URL can be swapped, e.g. for a local mock server.
+
+export const GOOGLE_CALENDAR_API_URL = "https://www.googleapis.com/calendar/v3"
+
+// 只列出我们用到的字段 (Only the fields we use)
+export interface GoogleCalendarEvent {
+  id: string
+  status?: string
+  summary?: string
+  description?: string
+  location?: string
+  htmlLink?: string
+  attendees?: { email?: string; displayName?: string; responseStatus?: string }[]
+  start?: { date?: string; dateTime?: string; timeZone?: string }
+  end?: { date?: string; dateTime?: string; timeZone?: string }
+  extendedProperties?: { private?: Record<string, string>; shared?: Record<string, string> }
+}
+
+// calendarList 中的一个日历 (One calendar from the user's calendarList)
+export interface GoogleCalendarListEntry {
+  id: string
+  summary?: string
+  summaryOverride?: string
+  backgroundColor?: string
+  foregroundColor?: string
+  primary?: boolean
+  selected?: boolean // 在 Google 日历中是否显示 (Whether it's shown in Google Calendar)
+}
+
+export type GoogleCalendarEventInput = Omit<GoogleCalendarEvent, "id" | "status" | "htmlLink">
+
+export class GoogleCalendarApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string,
+  ) {
+    super(`Google API returned ${status}`)
+    this.name = "GoogleCalendarApiError"
+  }
+}
+
+interface CalendarClientOptions {
+  accessToken: string
+  fetch?: typeof fetch
+  baseUrl?: string
+}
+
+export interface ListEventsParams {
+  timeMin?: string
+  timeMax?: string
+  privateExtendedProperty?: string[] // "key=value"，都要匹配 ("key=value", all of them must match)
+}
+
+// 增量同步只能用 syncToken，不能和时间范围一起用 (Incremental sync takes only a syncToken, never a time range)
+export type SyncEventsParams = { syncToken: string } | { timeMin: string; timeMax: string }
+
+export const createCalendarClient = ({
+  accessToken,
+  fetch: fetchImpl = fetch,
+  baseUrl = GOOGLE_CALENDAR_API_URL,
+}: CalendarClientOptions) => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+      },
+      cache: "no-store",
+    })
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error("Google API Error:", response.status, errorText)
+      throw new GoogleCalendarApiError(response.status, errorText)
+    }
+    // 删除成功时没有内容 (Deleting returns no content)
+    return (response.status === 204 ? undefined : await response.json()) as T
+  }
+
+  const eventsPath = (calendarId: string) => `/calendars/${encodeURIComponent(calendarId)}/events`
+
+  // 读取所有分页，最后一页带有 nextSyncToken (Reads every page, the last one carries the nextSyncToken)
+  const listAll = async <T>(path: string, params: URLSearchParams) => {
+    const items: T[] = []
+    let pageToken: string | undefined
+    let nextSyncToken: string | undefined
+    do {
+      if (pageToken) params.set("pageToken", pageToken)
+      const page = await request<{ items?: T[]; nextPageToken?: string; nextSyncToken?: string }>(
+        `${path}?${params.toString()}`,
+      )
+      items.push(...(page.items ?? []))
+      pageToken = page.nextPageToken
+      nextSyncToken = page.nextSyncToken
+    } while (pageToken)
+    return { items, nextSyncToken }
+  }
+
+  return {
+    listCalendars: async () =>
+      (await listAll<GoogleCalendarListEntry>("/users/me/calendarList", new URLSearchParams())).items,
+
+    listEvents: async (calendarId: string, { timeMin, timeMax, privateExtendedProperty }: ListEventsParams) => {
+      const params = new URLSearchParams({ singleEvents: "true", orderBy: "startTime" })
+      if (timeMin) params.set("timeMin", timeMin)
+      if (timeMax) params.set("timeMax", timeMax)
+      privateExtendedProperty?.forEach((property) => params.append("privateExtendedProperty", property))
+      return (await listAll<GoogleCalendarEvent>(eventsPath(calendarId), params)).items
+    },
+
+    // 不排序，这样 Google 才会返回 nextSyncToken；增量结果包括已取消的事件
+    // Unordered so Google returns a nextSyncToken; incremental results include cancelled events
+    syncEvents: (calendarId: string, syncParams: SyncEventsParams) => {
+      const params = new URLSearchParams({ singleEvents: "true", ...syncParams })
+      return listAll<GoogleCalendarEvent>(eventsPath(calendarId), params)
+    },
+
+    insertEvent: (calendarId: string, event: GoogleCalendarEventInput) =>
+      request<GoogleCalendarEvent>(eventsPath(calendarId), { method: "POST", body: JSON.stringify(event) }),
+
+    patchEvent: (calendarId: string, eventId: string, event: GoogleCalendarEventInput) =>
+      request<GoogleCalendarEvent>(`${eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, {
+        method: "PATCH",
+        body: JSON.stringify(event),
+      }),
+
+    deleteEvent: (calendarId: string, eventId: string) =>
+      request<void>(`${eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, { method: "DELETE" }),
+  }
+}
+
+export type CalendarClient = ReturnType<typeof createCalendarClient>
@@ -0,0 +1,97 @@
+// lib/google-calendar-provider.ts
+// 通过服务器动作访问 Google 日历的日历来源。每个日历的 syncToken 按配置文件保存，下次同步同一个范围时只取回改变的事件。
+// The calendar source that reaches Google Calendar through the server actions. Each calendar's syncToken is kept
+// per profile, so the next sync of the same range only fetches the events that changed.
+import type { CalendarEvent } from "@/types/schedule"
+import type { CalendarFetchResult, CalendarProvider, ProviderCalendar } from "@/lib/calendar-provider"
+import type { GoogleCalendarEvent, GoogleCalendarListEntry } from "@/lib/google-calendar-api"
+import { exportToGoogleCalendar, getCalendarEventChanges, getCalendarList } from "@/lib/actions"
+import { isExportedEvent } from "@/lib/calendar-export"
+import { toCalendarEvent } from "@/lib/calendar-event-mapping"
+import { DEFAULT_EVENT_COLOR, isEventInDateRange } from "@/lib/calendar-events"
+import { readCalendarSyncTokens, writeCalendarSyncTokens, type CalendarSyncTokens } from "@/lib/calendar-sync-tokens"
+import { addDays } from "@/lib/date-utils"
+import { fromZonedDateTime } from "@/lib/time-zones"
+
+export const getCalendarName = (calendar: GoogleCalendarListEntry) =>
+  calendar.summaryOverride || calendar.summary || calendar.id
+
+// 把事件分为保留的和删除的；我们自己导出的时间块不导入
+// Splits events into kept and removed ones; blocks we exported ourselves are not imported
+const mapEvents = (events: GoogleCalendarEvent[], calendar: ProviderCalendar, timeZone: string) => {
+  const mapped: CalendarEvent[] = []
+  const removedSourceIds: string[] = []
+  events.forEach((event) => {
+    const calendarEvent =
+      event.status === "cancelled" || isExportedEvent(event) ? null : toCalendarEvent(event, calendar, timeZone)
+    if (calendarEvent) mapped.push(calendarEvent)
+    else removedSourceIds.push(event.id)
+  })
+  return { mapped, removedSourceIds }
+}
+
+// 没有配置文件时不保存 syncToken，每次都按范围同步，也不能导出
+// (Without a profile no syncTokens are kept, every sync uses the range, and nothing can be exported)
+export const createGoogleCalendarProvider = (profileId: string | null): CalendarProvider => ({
+  source: "google",
+  label: "Google Calendar",
+
+  listCalendars: async () =>
+    (await getCalendarList()).map((calendar) => ({
+      id: calendar.id,
+      name: getCalendarName(calendar),
+      color: calendar.backgroundColor || DEFAULT_EVENT_COLOR,
+      // 默认选择在 Google 日历中显示的日历 (Calendars shown in Google Calendar are picked by default)
+      selected: Boolean(calendar.primary || calendar.selected),
+    })),
+
+  fetchEvents: async (calendars, { startDate, endDate, timeZone }) => {
+    // 范围内每天的午夜到最后一天结束 (From midnight of the first day to the end of the last day)
+    const timeMin = new Date(fromZonedDateTime(startDate, 0, timeZone)).toISOString()
+    const timeMax = new Date(fromZonedDateTime(addDays(endDate, 1), 0, timeZone)).toISOString()
+
+    const syncTokens = profileId ? readCalendarSyncTokens(profileId) : {}
+    const nextSyncTokens: CalendarSyncTokens = {}
+    const results: CalendarFetchResult[] = []
+
+    for (const calendar of calendars) {
+      // 换了范围时重新完整读取 (A different range is fetched in full again)
+      const stored = syncTokens[calendar.id]
+      const syncToken = stored?.timeMin === timeMin && stored.timeMax === timeMax ? stored.syncToken : null
+      const { events, isIncremental, nextSyncToken } = await getCalendarEventChanges(
+        calendar.id,
+        timeMin,
+        timeMax,
+        syncToken,
+      )
+      if (nextSyncToken) nextSyncTokens[calendar.id] = { syncToken: nextSyncToken, timeMin, timeMax }
+      const { mapped, removedSourceIds } = mapEvents(events, calendar, timeZone)
+      results.push({
+        calendar,
+        // 增量结果中范围内的事件也要导入，范围外的只更新已导入的
+        // (Changed events in the range are imported too, outside it they only update imported ones)
+        rangeEvents: isIncremental ? mapped.filter((event) => isEventInDateRange(event, startDate, endDate)) : mapped,
+        changedEvents: isIncremental ? mapped : [],
+        removedSourceIds,
+        isIncremental,
+      })
+    }
+
+    if (profileId) writeCalendarSyncTokens(profileId, nextSyncTokens)
+    return results
+  },
+
+  // 导出的事件属于配置文件，所以必须有配置文件 (Exported events belong to a profile, so one is required)
+  exportEvents: async (events, { startDate, endDate, timeZone }) => {
+    if (!profileId) throw new Error("No profile is loaded")
+    const summary = await exportToGoogleCalendar(profileId, events, {
+      timeMin: new Date(fromZonedDateTime(startDate, 0, timeZone)).toISOString(),
+      timeMax: new Date(fromZonedDateTime(addDays(endDate, 1), 0, timeZone)).toISOString(),
+      timeZone,
+    })
+    return (
+      `Exported to Google Calendar: ${summary.created} created, ${summary.updated} updated, ` +
+      `${summary.deleted} deleted.`
+    )
+  },
+})
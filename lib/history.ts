@@ -0,0 +1,75 @@
+// lib/history.ts
+// 撤销/重做历史记录，不依赖 React。
+// Undo/redo history, independent of React.
+
+export const MAX_HISTORY_SIZE = 100 // 最多保留的撤销步数 (Maximum number of undo steps kept)
+export const GROUP_WINDOW_MS = 1500 // 同一组的连续修改在这段时间内合并为一步 (Changes in the same group within this window merge into one step)
+
+export interface History<T> {
+  past: T[] // 从旧到新 (Oldest first)
+  present: T
+  future: T[] // 最近撤销的在最前面 (Most recently undone first)
+  lastGroup: { key: string; at: number } | null // 上一次修改所属的组 (Group of the last change)
+}
+
+export interface RecordOptions {
+  groupKey?: string // 例如 "name:<projectId>"，快速的文本修改合并为一步 (E.g. "name:<projectId>", rapid text edits merge into one step)
+  at?: number // 修改发生的时间，默认为现在 (When the change happened, defaults to now)
+}
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [], lastGroup: null })
+
+export const recordChange = <T>(
+  history: History<T>,
+  next: T,
+  { groupKey, at = Date.now() }: RecordOptions = {},
+  maxSize = MAX_HISTORY_SIZE,
+): History<T> => {
+  if (next === history.present) return history
+
+  const lastGroup = groupKey ? { key: groupKey, at } : null
+  const continuesGroup =
+    groupKey !== undefined &&
+    history.lastGroup?.key === groupKey &&
+    at - history.lastGroup.at <= GROUP_WINDOW_MS &&
+    history.past.length > 0
+  if (continuesGroup) {
+    return { past: history.past, present: next, future: [], lastGroup }
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-maxSize),
+    present: next,
+    future: [],
+    lastGroup,
+  }
+}
+
+// 不算撤销步骤的修改应用到每一步上，例如计时器：撤销或重做其他修改时也保留它
+// (A change that isn't an undo step is applied to every step, e.g. the timer: undoing or redoing other edits keeps it)
+export const applyToAllSteps = <T>(history: History<T>, update: (state: T) => T): History<T> => ({
+  past: history.past.map(update),
+  present: update(history.present),
+  future: history.future.map(update),
+  lastGroup: history.lastGroup,
+})
+
+export const undo = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastGroup: null,
+  }
+}
+
+export const redo = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastGroup: null,
+  }
+}
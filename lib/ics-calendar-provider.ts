@@ -0,0 +1,285 @@
+// lib/ics-calendar-provider.ts
+// 从 .ics 文件读取事件的日历来源，例如从 Outlook 或 Apple 日历导出的文件。文件只在浏览器中读取，重复事件展开到
+// 导入的日期范围内。导出时下载一个包含时间块的 .ics 文件。
+// The calendar source that reads events from .ics files, such as those exported from Outlook or Apple Calendar.
+// Files are only read in the browser, and recurring events are expanded into the imported date range. Exporting
+// downloads an .ics file with the scheduled blocks.
+import type { CalendarEvent, CalendarEventAttendee } from "@/types/schedule"
+import type { CalendarDateRange, CalendarProvider, ProviderCalendar } from "@/lib/calendar-provider"
+import { getCalendarEventId, isEventInDateRange, toEventDateTime } from "@/lib/calendar-events"
+import { isHexColor } from "@/lib/colors"
+import { addDays, fromDateKey } from "@/lib/date-utils"
+import {
+  ICS_UID_SUFFIX,
+  buildIcsFile,
+  getProperties,
+  getProperty,
+  parseIcs,
+  parseIcsDateTime,
+  parseIcsDateTimeList,
+  parseIcsDuration,
+  toInstant,
+  unescapeText,
+  type IcsComponent,
+  type IcsDateTime,
+} from "@/lib/ics"
+import { expandRecurrence, parseRecurrenceRule } from "@/lib/ics-recurrence"
+import { fromZonedDateTime, toZonedDateTime } from "@/lib/time-zones"
+
+// 读入的 .ics 文件 (An .ics file that was read)
+export interface IcsFile {
+  name: string
+  text: string
+}
+
+// 文件没有日历颜色时使用 (Used when the file has no calendar color)
+const DEFAULT_ICS_COLOR = "bg-slate-600 text-white"
+
+const RESPONSE_STATUSES: Record<string, string> = {
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  TENTATIVE: "tentative",
+  "NEEDS-ACTION": "needsAction",
+}
+
+const getText = (component: IcsComponent, name: string) => {
+  const property = getProperty(component, name)
+  return property ? unescapeText(property.value).trim() : ""
+}
+
+const isCancelled = (component: IcsComponent) => getText(component, "STATUS").toUpperCase() === "CANCELLED"
+
+// 文件中的日历；文件名作为ID，同一个文件再次导入时会更新同一批事件
+// The calendar in a file; the file name is its ID, so importing the same file again updates the same events
+const toProviderCalendar = (calendar: IcsComponent, fileName: string): ProviderCalendar => {
+  const color = getText(calendar, "X-APPLE-CALENDAR-COLOR").slice(0, 7)
+  return {
+    id: getText(calendar, "X-WR-RELCALID") || fileName,
+    name: getText(calendar, "X-WR-CALNAME") || fileName.replace(/\.ics$/i, ""),
+    color: isHexColor(color) ? color : DEFAULT_ICS_COLOR,
+    selected: true,
+  }
+}
+
+// 一个 VEVENT 的时间 (The timing of one VEVENT)
+interface IcsEventTiming {
+  start: IcsDateTime
+  zone: string // 浮动时间按用户所在时区 (Floating times use the viewer's zone)
+  durationMinutes: number // 全天事件为整天 (Whole days for all-day events)
+}
+
+const getEventTiming = (component: IcsComponent, timeZone: string): IcsEventTiming | null => {
+  const startProperty = getProperty(component, "DTSTART")
+  const start = startProperty && parseIcsDateTime(startProperty.value, startProperty.params)
+  if (!start) return null
+  const zone = start.timeZone ?? timeZone
+
+  const endProperty = getProperty(component, "DTEND")
+  const end = endProperty && parseIcsDateTime(endProperty.value, endProperty.params)
+  let durationMinutes: number
+  if (end && start.allDay) {
+    const days = (fromDateKey(end.dateKey).getTime() - fromDateKey(start.dateKey).getTime()) / (24 * 60 * 60 * 1000)
+    durationMinutes = Math.round(days) * 1440
+  } else if (end) {
+    durationMinutes = (toInstant(end, zone) - toInstant(start, zone)) / 60000
+  } else {
+    durationMinutes = parseIcsDuration(getText(component, "DURATION")) ?? (start.allDay ? 1440 : 0)
+  }
+  // 全天事件至少一天 (All-day events last at least one day)
+  return { start, zone, durationMinutes: Math.max(start.allDay ? 1440 : 0, durationMinutes) }
+}
+
+// 一次发生的键：全天事件为日期，定时事件为 UTC 时刻，用于匹配 EXDATE 和 RECURRENCE-ID
+// An occurrence's key: the date for all-day events, the UTC instant for timed ones; used to match EXDATE and
+// RECURRENCE-ID
+const getOccurrenceKey = (timing: IcsEventTiming, value: IcsDateTime) =>
+  timing.start.allDay ? value.dateKey : new Date(toInstant(value, timing.zone)).toISOString()
+
+const getAttendees = (component: IcsComponent): CalendarEventAttendee[] =>
+  getProperties(component, "ATTENDEE").flatMap(({ value, params }) => {
+    const email = value.replace(/^mailto:/i, "").trim()
+    if (!email) return []
+    const responseStatus = RESPONSE_STATUSES[(params.PARTSTAT || "").toUpperCase()]
+    return [{ email, ...(params.CN ? { name: params.CN } : {}), ...(responseStatus ? { responseStatus } : {}) }]
+  })
+
+// 字段的顺序与保存后读回的相同，方便比较 (Fields are in the same order as after saving and loading, so they compare equal)
+const toCalendarEvent = (
+  component: IcsComponent,
+  timing: IcsEventTiming,
+  occurrenceKey: string,
+  sourceId: string,
+  calendar: ProviderCalendar,
+  timeZone: string,
+): CalendarEvent => {
+  let times: { start: string; end: string }
+  if (timing.start.allDay) {
+    times = { start: occurrenceKey, end: addDays(occurrenceKey, timing.durationMinutes / 1440) }
+  } else {
+    // 按用户所在时区的墙上时间保存 (Stored as wall-clock time in the viewer's zone)
+    const toLocal = (instant: number) => {
+      const { dateKey, minutes } = toZonedDateTime(instant, timeZone)
+      return toEventDateTime(dateKey, minutes)
+    }
+    const start = Date.parse(occurrenceKey)
+    times = { start: toLocal(start), end: toLocal(start + timing.durationMinutes * 60000) }
+  }
+  const location = getText(component, "LOCATION")
+  const attendees = getAttendees(component)
+  const url = getText(component, "URL")
+  return {
+    id: getCalendarEventId("ics", calendar.id, sourceId),
+    source: "ics",
+    sourceId,
+    calendarId: calendar.id,
+    calendarName: calendar.name,
+    color: calendar.color,
+    title: getText(component, "SUMMARY") || "Untitled Event",
+    ...times,
+    allDay: timing.start.allDay,
+    ...(location ? { location } : {}),
+    ...(attendees.length > 0 ? { attendees } : {}),
+    ...(url ? { url } : {}),
+  }
+}
+
+// 重复事件每次发生的键，去掉了 EXDATE (The keys of a recurring event's occurrences, without the EXDATEs)
+const getOccurrenceKeys = (component: IcsComponent, timing: IcsEventTiming, firstDate: string, lastDate: string) => {
+  const { start, zone } = timing
+  const ruleProperty = getProperty(component, "RRULE")
+  const rule = ruleProperty && parseRecurrenceRule(ruleProperty.value)
+  let dates = [start.dateKey]
+  if (rule) {
+    const expansion = expandRecurrence(rule, start.dateKey, {
+      // 在范围之前开始的多天事件也要包括 (Multi-day events starting before the range are included too)
+      firstDate: addDays(firstDate, -Math.ceil(timing.durationMinutes / 1440)),
+      lastDate,
+      isPastUntil: (date) => {
+        if (!rule.until) return false
+        if (start.allDay || rule.until.allDay) return date > rule.until.dateKey
+        return fromZonedDateTime(date, start.minutes, zone) > toInstant(rule.until, zone)
+      },
+    })
+    dates = expansion.dates
+    if (expansion.isTruncated) {
+      const title = getText(component, "SUMMARY") || "Untitled Event"
+      console.warn(`Recurring event "${title}" repeats too often to expand, later occurrences were skipped`)
+    }
+  }
+
+  const keys = new Set(dates.map((dateKey) => getOccurrenceKey(timing, { ...start, dateKey })))
+  getProperties(component, "RDATE").forEach((property) => {
+    parseIcsDateTimeList(property).forEach((value) => keys.add(getOccurrenceKey(timing, value)))
+  })
+  getProperties(component, "EXDATE").forEach((property) => {
+    parseIcsDateTimeList(property).forEach((value) => keys.delete(getOccurrenceKey(timing, value)))
+  })
+  return keys
+}
+
+// 与范围有重叠的所有事件；重复事件的每次发生是一个事件，ID为 "<UID>/<发生的键>"
+// Every event overlapping the range; each occurrence of a recurring event is one event, with "<UID>/<occurrence key>"
+// as its ID
+const readIcsEvents = (
+  calendarComponent: IcsComponent,
+  calendar: ProviderCalendar,
+  { startDate, endDate, timeZone }: CalendarDateRange,
+) => {
+  const events: CalendarEvent[] = []
+  const addEvent = (event: CalendarEvent) => {
+    if (isEventInDateRange(event, startDate, endDate)) events.push(event)
+  }
+  // 两端各多留一天，时区不同的事件也能包括在内 (One extra day at each end, so events in other zones are included too)
+  const firstDate = addDays(startDate, -1)
+  const lastDate = addDays(endDate, 1)
+
+  // 同一个 UID 的主事件和修改过的单次发生 (The main event and the modified occurrences sharing a UID)
+  const groups = new Map<string, { main?: IcsComponent; overrides: IcsComponent[] }>()
+  calendarComponent.components
+    .filter((component) => component.name === "VEVENT")
+    .forEach((component, index) => {
+      const uid = getText(component, "UID") || `event-${index}`
+      // 我们自己导出的时间块不导入 (Blocks we exported ourselves are not imported)
+      if (uid.endsWith(ICS_UID_SUFFIX)) return
+      const group = groups.get(uid) ?? { overrides: [] }
+      if (getProperty(component, "RECURRENCE-ID")) group.overrides.push(component)
+      else group.main = component
+      groups.set(uid, group)
+    })
+
+  groups.forEach(({ main, overrides }, uid) => {
+    const mainTiming = main ? getEventTiming(main, timeZone) : null
+    const isRecurring = !!main && (!!getProperty(main, "RRULE") || getProperties(main, "RDATE").length > 0)
+    const overriddenKeys = new Set<string>()
+
+    overrides.forEach((component) => {
+      const timing = getEventTiming(component, timeZone)
+      const recurrenceProperty = getProperty(component, "RECURRENCE-ID")!
+      const recurrenceId = parseIcsDateTime(recurrenceProperty.value, recurrenceProperty.params)
+      if (!timing || !recurrenceId) return
+      const key = getOccurrenceKey(mainTiming ?? timing, recurrenceId)
+      overriddenKeys.add(key)
+      if (isCancelled(component)) return
+      const startKey = getOccurrenceKey(timing, timing.start)
+      addEvent(toCalendarEvent(component, timing, startKey, `${uid}/${key}`, calendar, timeZone))
+    })
+
+    if (!main || !mainTiming || isCancelled(main)) return
+    if (!isRecurring) {
+      const startKey = getOccurrenceKey(mainTiming, mainTiming.start)
+      addEvent(toCalendarEvent(main, mainTiming, startKey, uid, calendar, timeZone))
+      return
+    }
+    getOccurrenceKeys(main, mainTiming, firstDate, lastDate).forEach((key) => {
+      if (!overriddenKeys.has(key)) {
+        addEvent(toCalendarEvent(main, mainTiming, key, `${uid}/${key}`, calendar, timeZone))
+      }
+    })
+  })
+
+  return events
+}
+
+// 文件在创建时解析，不是日历文件时抛出错误 (Files are parsed on creation, which throws for non-calendar files)
+export const createIcsCalendarProvider = (files: IcsFile[]): CalendarProvider => {
+  const parsed = files.map((file) => {
+    const component = parseIcs(file.text)
+    return { component, calendar: toProviderCalendar(component, file.name) }
+  })
+
+  return {
+    source: "ics",
+    label: ".ics file",
+
+    listCalendars: async () => parsed.map(({ calendar }) => calendar),
+
+    fetchEvents: async (calendars, range) =>
+      calendars.flatMap((calendar) => {
+        const file = parsed.find((entry) => entry.calendar.id === calendar.id)
+        if (!file) return []
+        // 文件是完整的，范围外不会有改变或删除的事件 (Files are complete, so there are no changes outside the range)
+        return [
+          {
+            calendar,
+            rangeEvents: readIcsEvents(file.component, calendar, range),
+            changedEvents: [],
+            removedSourceIds: [],
+          },
+        ]
+      }),
+
+    exportEvents: async (events, { startDate, endDate, timeZone }) => {
+      const text = buildIcsFile(events, { calendarName: "Personal Schedule", timeZone, now: Date.now() })
+      const blob = new Blob([text], { type: "text/calendar" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = startDate === endDate ? `schedule-${startDate}.ics` : `schedule-${startDate}-to-${endDate}.ics`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      return null
+    },
+  }
+}
@@ -0,0 +1,46 @@
+// lib/ics-recurrence.test.ts
+// 重复规则展开的测试：很久以前开始的规则、不再匹配的规则和周期数上限。
+// Tests for expanding recurrence rules: rules that started long ago, rules that never match again and the period cap.
+import { describe, expect, it } from "vitest"
+import { expandRecurrence, parseRecurrenceRule, type RecurrenceLimits } from "@/lib/ics-recurrence"
+
+const LIMITS: RecurrenceLimits = { firstDate: "2024-10-20", lastDate: "2024-10-28", isPastUntil: () => false }
+
+const expand = (value: string, start: string, limits = LIMITS) => {
+  const rule = parseRecurrenceRule(value)
+  if (!rule) throw new Error(`Unsupported rule: ${value}`)
+  return expandRecurrence(rule, start, limits)
+}
+
+const inRange = (dates: string[]) => dates.filter((date) => date >= LIMITS.firstDate && date <= LIMITS.lastDate)
+
+describe("expandRecurrence", () => {
+  it("reaches the range for a daily rule that started decades ago", () => {
+    const { dates, isTruncated } = expand("FREQ=DAILY", "1990-01-01")
+    expect(isTruncated).toBe(false)
+    expect(dates[0]).toBe("1990-01-01")
+    expect(inRange(dates)).toHaveLength(9)
+  })
+
+  it("reaches the range for a monthly rule on the 31st that started long ago", () => {
+    const { dates, isTruncated } = expand("FREQ=MONTHLY;BYMONTHDAY=-1", "1995-01-31", {
+      ...LIMITS,
+      firstDate: "2024-09-01",
+      lastDate: "2024-11-30",
+    })
+    expect(isTruncated).toBe(false)
+    expect(dates.filter((date) => date >= "2024-09-01")).toEqual(["2024-09-30", "2024-10-31", "2024-11-30"])
+  })
+
+  it("stops without truncating when the rule never matches again", () => {
+    const { dates, isTruncated } = expand("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30", "2024-01-15")
+    expect(isTruncated).toBe(false)
+    expect(dates).toEqual(["2024-01-15"])
+  })
+
+  it("reports a truncated series when a count runs past the period cap", () => {
+    const { dates, isTruncated } = expand("FREQ=DAILY;COUNT=20000", "1990-01-01")
+    expect(isTruncated).toBe(true)
+    expect(inRange(dates)).toEqual([])
+  })
+})
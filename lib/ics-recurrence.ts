@@ -0,0 +1,214 @@
+// lib/ics-recurrence.ts
+// 展开 .ics 事件的重复规则 (RRULE)。支持常用的规则：按天、周、月、年重复，INTERVAL、COUNT、UNTIL、BYDAY（可带序号）、
+// BYMONTHDAY、BYMONTH 和 WKST。只计算日期，发生的时间与第一次相同。
+// Expands the recurrence rules (RRULE) of .ics events. Supports the common rules: daily, weekly, monthly and yearly
+// repeats with INTERVAL, COUNT, UNTIL, BYDAY (optionally with an ordinal), BYMONTHDAY, BYMONTH and WKST. Only dates
+// are computed, every occurrence starts at the same time as the first one.
+import { parseIcsDateTime, type IcsDateTime } from "@/lib/ics"
+import { addDays, fromDateKey, toDateKey } from "@/lib/date-utils"
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+// 从范围附近开始最多检查的周期数，没有结束的规则也不会无限循环
+// (The most periods checked from near the range, so endless rules can't loop forever)
+const MAX_PERIODS = 10000
+// 一个周期最少和最多的天数，用来跳过范围之前和之后的周期 (The fewest and most days of a period, to skip periods outside the range)
+const MIN_PERIOD_DAYS: Record<Frequency, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 28, YEARLY: 365 }
+const MAX_PERIOD_DAYS: Record<Frequency, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 }
+
+export interface WeekdayRule {
+  weekday: number // 0 为周日 (0 is Sunday)
+  ordinal: number // 例如 2 为第二个，-1 为最后一个，0 为每一个 (E.g. 2 is the second, -1 the last, 0 every one)
+}
+
+export interface RecurrenceRule {
+  frequency: Frequency
+  interval: number
+  count: number | null
+  until: IcsDateTime | null // 包含在内 (Inclusive)
+  byDay: WeekdayRule[]
+  byMonthDay: number[] // 负数从月底数起 (Negative days count from the end of the month)
+  byMonth: number[] // 1 到 12 (1 to 12)
+  weekStart: number
+}
+
+// 例如 "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"；不支持的频率返回 null
+// E.g. "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"; unsupported frequencies return null
+export const parseRecurrenceRule = (value: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {}
+  value.split(";").forEach((part) => {
+    const [name, partValue = ""] = part.split("=")
+    parts[name.trim().toUpperCase()] = partValue.trim().toUpperCase()
+  })
+  const frequency = parts.FREQ as Frequency
+  if (!FREQUENCIES.includes(frequency)) return null
+
+  const toNumbers = (text = "") =>
+    text
+      .split(",")
+      .map(Number)
+      .filter((number) => Number.isInteger(number) && number !== 0)
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(",") : []).flatMap((text) => {
+    const match = /^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(text)
+    return match ? [{ weekday: WEEKDAYS.indexOf(match[2]), ordinal: Number(match[1] || 0) }] : []
+  })
+  const count = Number(parts.COUNT)
+
+  return {
+    frequency,
+    interval: Math.max(1, Math.floor(Number(parts.INTERVAL)) || 1),
+    count: Number.isInteger(count) && count > 0 ? count : null,
+    until: parts.UNTIL ? parseIcsDateTime(parts.UNTIL, {}) : null,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH).filter((month) => month <= 12),
+    weekStart: Math.max(0, WEEKDAYS.indexOf(parts.WKST || "MO")),
+  }
+}
+
+const getDaysInMonth = (year: number, month: number) => new Date(year, month, 0).getDate()
+
+const getDaysInYear = (year: number) => ((year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365)
+
+const makeDateKey = (year: number, month: number, day: number) => toDateKey(new Date(year, month - 1, day))
+
+const getDateRange = (firstDate: string, length: number) =>
+  Array.from({ length }, (_, index) => addDays(firstDate, index))
+
+// 每个星期几取所有匹配的日子，带序号的只取第几个 (Every matching day per weekday, or only the nth one with an ordinal)
+const selectByWeekday = (dates: string[], byDay: WeekdayRule[]) => {
+  const selected = new Set<string>()
+  byDay.forEach(({ weekday, ordinal }) => {
+    const matches = dates.filter((date) => fromDateKey(date).getDay() === weekday)
+    if (ordinal === 0) matches.forEach((date) => selected.add(date))
+    else {
+      const date = matches[ordinal > 0 ? ordinal - 1 : matches.length + ordinal]
+      if (date) selected.add(date)
+    }
+  })
+  return dates.filter((date) => selected.has(date))
+}
+
+const matchesMonthDay = (date: string, byMonthDay: number[]) => {
+  const value = fromDateKey(date)
+  const daysInMonth = getDaysInMonth(value.getFullYear(), value.getMonth() + 1)
+  return byMonthDay.some((day) => (day > 0 ? day : daysInMonth + day + 1) === value.getDate())
+}
+
+// 在一个月或一年中按 BYDAY 和 BYMONTHDAY 选日子，都没有时用 defaultDate
+// Picks days in a month or a year by BYDAY and BYMONTHDAY, falling back to defaultDate when neither is given
+const selectInScope = (rule: RecurrenceRule, scope: string[], defaultDate: string | null) => {
+  if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) return defaultDate ? [defaultDate] : []
+  let dates = scope
+  if (rule.byDay.length > 0) dates = selectByWeekday(dates, rule.byDay)
+  if (rule.byMonthDay.length > 0) dates = dates.filter((date) => matchesMonthDay(date, rule.byMonthDay))
+  return dates
+}
+
+// 某月中的所有日子，以及与第一次同一天的日子（这个月没有这一天时为 null）
+// All days of a month, plus the day matching the first occurrence (null when the month has no such day)
+const getMonthScope = (year: number, month: number, startDay: number) => {
+  const daysInMonth = getDaysInMonth(year, month)
+  return {
+    scope: getDateRange(makeDateKey(year, month, 1), daysInMonth),
+    sameDay: startDay <= daysInMonth ? makeDateKey(year, month, startDay) : null,
+  }
+}
+
+// 第 index 个周期中的日期，未排序 (The dates in period number index, unsorted)
+const getPeriodDates = (rule: RecurrenceRule, start: string, index: number): string[] => {
+  const startDate = fromDateKey(start)
+  const step = index * rule.interval
+  const inMonths = (dates: string[]) =>
+    rule.byMonth.length > 0 ? dates.filter((date) => rule.byMonth.includes(fromDateKey(date).getMonth() + 1)) : dates
+
+  switch (rule.frequency) {
+    case "DAILY": {
+      const date = addDays(start, step)
+      const weekday = fromDateKey(date).getDay()
+      if (rule.byDay.length > 0 && !rule.byDay.some((day) => day.weekday === weekday)) return []
+      if (rule.byMonthDay.length > 0 && !matchesMonthDay(date, rule.byMonthDay)) return []
+      return inMonths([date])
+    }
+    case "WEEKLY": {
+      const weekStart = addDays(start, step * 7 - ((startDate.getDay() - rule.weekStart + 7) % 7))
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((day) => day.weekday) : [startDate.getDay()]
+      return inMonths(weekdays.map((weekday) => addDays(weekStart, (weekday - rule.weekStart + 7) % 7)))
+    }
+    case "MONTHLY": {
+      const monthIndex = startDate.getMonth() + step
+      const { scope, sameDay } = getMonthScope(
+        startDate.getFullYear() + Math.floor(monthIndex / 12),
+        (monthIndex % 12) + 1,
+        startDate.getDate(),
+      )
+      return inMonths(selectInScope(rule, scope, sameDay))
+    }
+    case "YEARLY": {
+      const year = startDate.getFullYear() + step
+      // 有 BYMONTH 时在每个月里选，否则在整年里选 (With BYMONTH days are picked per month, otherwise in the whole year)
+      if (rule.byMonth.length > 0) {
+        return rule.byMonth.flatMap((month) => {
+          const { scope, sameDay } = getMonthScope(year, month, startDate.getDate())
+          return selectInScope(rule, scope, sameDay)
+        })
+      }
+      const scope =
+        rule.byDay.length > 0 || rule.byMonthDay.length > 0
+          ? getDateRange(makeDateKey(year, 1, 1), getDaysInYear(year))
+          : []
+      const sameDay = makeDateKey(year, startDate.getMonth() + 1, startDate.getDate())
+      // 2 月 29 日只在闰年重复 (February 29 only repeats in leap years)
+      return selectInScope(rule, scope, sameDay.slice(5) === start.slice(5) ? sameDay : null)
+    }
+  }
+}
+
+export interface RecurrenceLimits {
+  firstDate: string // 不需要早于这一天的日期 (No dates before this one are needed)
+  lastDate: string // 不需要晚于这一天的日期 (No dates after this one are needed)
+  isPastUntil: (date: string) => boolean // 日期晚于规则的 UNTIL (The date is after the rule's UNTIL)
+}
+
+export interface RecurrenceExpansion {
+  dates: string[]
+  isTruncated: boolean // 达到了周期数上限，之后的日期没有展开 (The period cap was hit, later dates weren't expanded)
+}
+
+const getDaysBetween = (from: string, to: string) =>
+  Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86400000)
+
+// 按顺序返回每次发生的日期，第一次总是 start。没有 COUNT 时直接跳到 firstDate 附近的周期，很久以前开始的规则也能展开到范围内
+// Returns every occurrence date in order, the first one is always start. Without a COUNT it jumps straight to the
+// period near firstDate, so rules that started long ago still reach the range
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  start: string,
+  { firstDate, lastDate, isPastUntil }: RecurrenceLimits,
+): RecurrenceExpansion => {
+  const dates = [start]
+  // 有 COUNT 时必须从第一次数起 (With a COUNT every occurrence has to be counted from the first one)
+  const periodDays = MAX_PERIOD_DAYS[rule.frequency] * rule.interval
+  const skippedPeriods =
+    rule.count === null ? Math.max(0, Math.floor(getDaysBetween(start, firstDate) / periodDays) - 1) : 0
+  for (let index = skippedPeriods; index < skippedPeriods + MAX_PERIODS; index++) {
+    // 这个周期已经在 lastDate 之后，例如规则再也不会匹配；留出两个周期，月初可能比第一次的日子早
+    // (This period is past lastDate, e.g. the rule never matches again; two periods of margin, since a month can
+    // start before the day of the first occurrence)
+    if (addDays(start, (index * rule.interval - 2) * MIN_PERIOD_DAYS[rule.frequency]) > lastDate) {
+      return { dates, isTruncated: false }
+    }
+    const periodDates = Array.from(new Set(getPeriodDates(rule, start, index)))
+      .filter((date) => date > start)
+      .sort()
+    for (const date of periodDates) {
+      if (date > lastDate || isPastUntil(date)) return { dates, isTruncated: false }
+      if (rule.count !== null && dates.length >= rule.count) return { dates, isTruncated: false }
+      dates.push(date)
+    }
+  }
+  return { dates, isTruncated: true }
+}
@@ -0,0 +1,210 @@
+// lib/ics.ts
+// iCalendar (.ics, RFC 5545) 文件格式的读写：内容行、文字转义、日期值，以及把时间块写成 .ics 文件。
+// Reading and writing the iCalendar (.ics, RFC 5545) format: content lines, text escaping, date values, and
+// writing scheduled blocks as an .ics file that Outlook and Apple Calendar can open.
+import type { CalendarExportEvent } from "@/lib/calendar-export"
+import { EXPORT_APP_VALUE } from "@/lib/calendar-export"
+import { fromZonedDateTime, isValidTimeZone } from "@/lib/time-zones"
+
+export interface IcsProperty {
+  name: string // 大写的属性名 (Upper-case property name)
+  params: Record<string, string> // 参数名为大写，值去掉了引号 (Upper-case parameter names, values without quotes)
+  value: string
+}
+
+// 一个 BEGIN/END 块，例如 VCALENDAR 或 VEVENT (One BEGIN/END block, e.g. VCALENDAR or VEVENT)
+export interface IcsComponent {
+  name: string
+  properties: IcsProperty[]
+  components: IcsComponent[]
+}
+
+// 日期或日期时间值 (A DATE or DATE-TIME value)
+export interface IcsDateTime {
+  dateKey: string
+  minutes: number
+  allDay: boolean
+  // UTC 时间为 "UTC"，没有时区的浮动时间为 null (UTC times are "UTC", floating times without a zone are null)
+  timeZone: string | null
+}
+
+// 导出事件的 UID 后缀，再次导入时据此跳过 (The UID suffix of exported events, used to skip them on import)
+export const ICS_UID_SUFFIX = `@${EXPORT_APP_VALUE}`
+
+// 折行的续行以空格或制表符开头 (Folded continuation lines start with a space or a tab)
+const unfoldLines = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+
+// 在引号之外按分隔符拆分 (Splits on a separator outside of quotes)
+const splitOutsideQuotes = (text: string, separator: string, limit = Infinity) => {
+  const parts: string[] = []
+  let current = ""
+  let inQuotes = false
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    if (char === separator && !inQuotes && parts.length < limit - 1) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+// 例如 "DTSTART;TZID=Europe/Berlin:20261019T090000" (E.g. "DTSTART;TZID=Europe/Berlin:20261019T090000")
+const parseContentLine = (line: string): IcsProperty | null => {
+  const [head, value] = splitOutsideQuotes(line, ":", 2)
+  if (value === undefined) return null
+  const [name, ...paramTexts] = splitOutsideQuotes(head, ";")
+  const params: Record<string, string> = {}
+  paramTexts.forEach((paramText) => {
+    const [paramName, paramValue = ""] = splitOutsideQuotes(paramText, "=", 2)
+    params[paramName.toUpperCase()] = paramValue.replace(/^"|"$/g, "")
+  })
+  return { name: name.toUpperCase(), params, value }
+}
+
+// 返回文件中的 VCALENDAR，不是日历文件时抛出错误 (Returns the file's VCALENDAR, throws when it isn't a calendar file)
+export const parseIcs = (text: string): IcsComponent => {
+  const root: IcsComponent = { name: "", properties: [], components: [] }
+  const stack = [root]
+  unfoldLines(text).forEach((line) => {
+    const property = parseContentLine(line)
+    if (!property) return
+    const current = stack[stack.length - 1]
+    if (property.name === "BEGIN") {
+      const component: IcsComponent = { name: property.value.toUpperCase(), properties: [], components: [] }
+      current.components.push(component)
+      stack.push(component)
+    } else if (property.name === "END") {
+      // 多余的 END 忽略 (Stray ENDs are ignored)
+      if (stack.length > 1) stack.pop()
+    } else {
+      current.properties.push(property)
+    }
+  })
+  const calendar = root.components.find((component) => component.name === "VCALENDAR")
+  if (!calendar) throw new Error("Not an iCalendar file")
+  return calendar
+}
+
+export const getProperty = (component: IcsComponent, name: string) =>
+  component.properties.find((property) => property.name === name)
+
+export const getProperties = (component: IcsComponent, name: string) =>
+  component.properties.filter((property) => property.name === name)
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
+
+const escapeText = (value: string) =>
+  value.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n")
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+
+// 不认识的时区按浮动时间处理 (Unknown zones are treated as floating times)
+export const parseIcsDateTime = (value: string, params: Record<string, string>): IcsDateTime | null => {
+  const dateMatch = DATE_PATTERN.exec(value)
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch
+    return { dateKey: `${year}-${month}-${day}`, minutes: 0, allDay: true, timeZone: null }
+  }
+  const match = DATE_TIME_PATTERN.exec(value)
+  if (!match) return null
+  const [, year, month, day, hour, minute, , utc] = match
+  const zone = utc ? "UTC" : params.TZID && isValidTimeZone(params.TZID) ? params.TZID : null
+  return {
+    dateKey: `${year}-${month}-${day}`,
+    minutes: Number(hour) * 60 + Number(minute),
+    allDay: false,
+    timeZone: zone,
+  }
+}
+
+// 一个属性里可以有逗号分隔的多个值，例如 EXDATE (A property may hold several comma-separated values, e.g. EXDATE)
+export const parseIcsDateTimeList = (property: IcsProperty) =>
+  property.value
+    .split(",")
+    .map((value) => parseIcsDateTime(value.trim(), property.params))
+    .filter((value): value is IcsDateTime => value !== null)
+
+// 浮动时间按 fallbackZone 理解 (Floating times are read in fallbackZone)
+export const toInstant = (value: IcsDateTime, fallbackZone: string) =>
+  fromZonedDateTime(value.dateKey, value.minutes, value.timeZone ?? fallbackZone)
+
+// 例如 "PT1H30M" 或 "-P1D"，单位为分钟 (E.g. "PT1H30M" or "-P1D", in minutes)
+export const parseIcsDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value)
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes] = match
+  const total =
+    Number(weeks || 0) * 7 * 1440 + Number(days || 0) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0)
+  return sign === "-" ? -total : total
+}
+
+// 例如 "20261019T090000Z" (E.g. "20261019T090000Z")
+const formatUtcDateTime = (instant: number) =>
+  new Date(instant).toISOString().replace(/\.\d{3}/, "").replace(/[-:]/g, "")
+
+const encoder = new TextEncoder()
+
+// 超过 75 个字节的行折成多行 (Lines longer than 75 octets are folded)
+const foldLine = (line: string) => {
+  const parts: string[] = []
+  let current = ""
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    // 续行开头的空格也算一个字节 (The leading space of a continuation line counts as an octet too)
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ""
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+export interface IcsBuildOptions {
+  calendarName: string
+  timeZone: string // 时间块的本地时间所在的时区 (The zone the blocks' local times are in)
+  now: number // DTSTAMP 的时刻 (The instant used for DTSTAMP)
+}
+
+// 时间写成 UTC，不需要附带 VTIMEZONE (Times are written in UTC, so no VTIMEZONE is needed)
+export const buildIcsFile = (events: CalendarExportEvent[], { calendarName, timeZone, now }: IcsBuildOptions) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Personal Schedule Builder//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ]
+  events.forEach((event) => {
+    const start = fromZonedDateTime(event.dateKey, event.startMinutes, timeZone)
+    const end = fromZonedDateTime(event.dateKey, event.startMinutes + event.durationMinutes, timeZone)
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.taskId}${ICS_UID_SUFFIX}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `DTSTART:${formatUtcDateTime(start)}`,
+      `DTEND:${formatUtcDateTime(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    lines.push("END:VEVENT")
+  })
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
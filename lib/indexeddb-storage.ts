@@ -0,0 +1,120 @@
+// lib/indexeddb-storage.ts
+// 基于 IndexedDB 的存储实现。每个配置文件的元数据和每一天的日程都是单独的记录。
+// IndexedDB implementation of the storage adapter. Each profile's meta data and each of its days is its own record.
+import type { ScheduleData } from "@/types/schedule"
+import type { StorageAdapter, StorageProfile, StoredProfileMeta } from "@/lib/storage-adapter"
+
+const DB_NAME = "personal-schedule-builder"
+const DB_VERSION = 1
+const PROFILES_STORE = "profiles" // { id, name }
+const META_STORE = "meta" // StoredProfileMeta, 键是配置文件ID (keyed by profile ID)
+const DAYS_STORE = "days" // { profileId, dateKey, tasks }
+const SETTINGS_STORE = "settings" // 例如当前的配置文件 (E.g. the active profile)
+const ACTIVE_PROFILE_KEY = "activeProfileId"
+
+interface StoredDay {
+  profileId: string
+  dateKey: string
+  tasks: ScheduleData
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(PROFILES_STORE, { keyPath: "id" })
+      db.createObjectStore(META_STORE)
+      const days = db.createObjectStore(DAYS_STORE, { keyPath: ["profileId", "dateKey"] })
+      days.createIndex("profileId", "profileId")
+      db.createObjectStore(SETTINGS_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== "undefined"
+
+export const createIndexedDBStorageAdapter = (): StorageAdapter => {
+  // 数据库只打开一次 (The database is only opened once)
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const getDatabase = () => (dbPromise ??= openDatabase())
+
+  return {
+    listProfiles: async () => {
+      const db = await getDatabase()
+      return requestToPromise<StorageProfile[]>(db.transaction(PROFILES_STORE).objectStore(PROFILES_STORE).getAll())
+    },
+
+    createProfile: async (name) => {
+      const db = await getDatabase()
+      const profile: StorageProfile = { id: crypto.randomUUID(), name }
+      const transaction = db.transaction(PROFILES_STORE, "readwrite")
+      transaction.objectStore(PROFILES_STORE).add(profile)
+      await transactionDone(transaction)
+      return profile
+    },
+
+    getActiveProfileId: async () => {
+      const db = await getDatabase()
+      const store = db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE)
+      return ((await requestToPromise(store.get(ACTIVE_PROFILE_KEY))) as string | undefined) ?? null
+    },
+
+    setActiveProfileId: async (profileId) => {
+      const db = await getDatabase()
+      const transaction = db.transaction(SETTINGS_STORE, "readwrite")
+      transaction.objectStore(SETTINGS_STORE).put(profileId, ACTIVE_PROFILE_KEY)
+      await transactionDone(transaction)
+    },
+
+    loadProfile: async (profileId) => {
+      const db = await getDatabase()
+      const transaction = db.transaction([META_STORE, DAYS_STORE])
+      const meta = (await requestToPromise(transaction.objectStore(META_STORE).get(profileId))) as
+        | StoredProfileMeta
+        | undefined
+      if (!meta) return null
+      const days = (await requestToPromise(
+        transaction.objectStore(DAYS_STORE).index("profileId").getAll(profileId),
+      )) as StoredDay[]
+      return { ...meta, schedules: Object.fromEntries(days.map((day) => [day.dateKey, day.tasks])) }
+    },
+
+    // 一次事务写入所有修改，要么全部成功要么全部失败 (All changes are written in one transaction, all or nothing)
+    saveChanges: async (profileId, changes) => {
+      const db = await getDatabase()
+      const transaction = db.transaction([META_STORE, DAYS_STORE], "readwrite")
+      if (changes.meta) transaction.objectStore(META_STORE).put(changes.meta, profileId)
+      const daysStore = transaction.objectStore(DAYS_STORE)
+      Object.entries(changes.days ?? {}).forEach(([dateKey, tasks]) => {
+        if (tasks) daysStore.put({ profileId, dateKey, tasks } satisfies StoredDay)
+        else daysStore.delete([profileId, dateKey])
+      })
+      await transactionDone(transaction)
+    },
+
+    clearProfile: async (profileId) => {
+      const db = await getDatabase()
+      const transaction = db.transaction([META_STORE, DAYS_STORE], "readwrite")
+      transaction.objectStore(META_STORE).delete(profileId)
+      const daysStore = transaction.objectStore(DAYS_STORE)
+      const dayKeys = await requestToPromise(daysStore.index("profileId").getAllKeys(profileId))
+      dayKeys.forEach((key) => daysStore.delete(key))
+      await transactionDone(transaction)
+    },
+  }
+}
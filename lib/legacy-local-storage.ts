@@ -0,0 +1,50 @@
+// lib/legacy-local-storage.ts
+// 旧版本把数据保存在 localStorage 中。这里只用于第一次启动时把这些数据搬到新的存储中。
+// Older versions kept their data in localStorage. This is only used once, to move that data into the new storage.
+
+const LEGACY_STORAGE_KEY = "personal-schedule-builder-data"
+// 每天的日程单独存储在这个前缀加日期的键下 (Each day's schedule was stored separately under this prefix plus the date)
+const LEGACY_DAY_KEY_PREFIX = `${LEGACY_STORAGE_KEY}:day:`
+
+const getLegacyDayKeys = (): string[] => {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(LEGACY_DAY_KEY_PREFIX)) keys.push(key)
+  }
+  return keys
+}
+
+// 返回未经迁移的原始数据，没有旧数据时返回 null (Returns the raw, unmigrated data, or null when there is no old data)
+export const readLegacyLocalStorage = (): unknown | null => {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!stored) return null
+
+    const parsed = JSON.parse(stored)
+    const dayKeys = getLegacyDayKeys()
+    if (dayKeys.length > 0) {
+      parsed.schedules = {}
+      dayKeys.forEach((key) => {
+        parsed.schedules[key.slice(LEGACY_DAY_KEY_PREFIX.length)] = JSON.parse(localStorage.getItem(key) || "[]")
+      })
+    }
+    return parsed
+  } catch (error) {
+    console.error("Error reading legacy localStorage data:", error)
+    return null
+  }
+}
+
+export const clearLegacyLocalStorage = () => {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    getLegacyDayKeys().forEach((key) => localStorage.removeItem(key))
+  } catch (error) {
+    console.error("Error clearing legacy localStorage data:", error)
+  }
+}
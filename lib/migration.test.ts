@@ -0,0 +1,149 @@
+// lib/migration.test.ts
+// 数据迁移的测试：最早的数据经过每个步骤到达当前版本，以及验证报告中修复和丢弃的内容。
+// Tests for data migration: the earliest data passes through every step to the current version, and the
+// validation report lists what was repaired or dropped.
+import { describe, expect, it } from "vitest"
+import { APP_VERSION, migrateData } from "@/lib/migration"
+import { PROJECT_COLORS } from "@/lib/schedule-data"
+import { getTodayKey } from "@/lib/date-utils"
+
+// 1.0.0 版本的数据：一个没有日期的日程，按时间段存储，任务复制了项目数据
+// (Data from 1.0.0: a single undated schedule keyed by slot, with tasks copying their project's data)
+const LEGACY_DATA = {
+  projects: [{ id: "p1", name: "Writing", subTasks: [{ id: "s1", text: "Draft", completed: false }] }],
+  schedule: {
+    "slot-morning-09": [
+      {
+        id: "t1",
+        projectId: "p1",
+        projectName: "Writing",
+        projectColor: "bg-blue-500 text-white",
+        originalProjectSubTasks: [{ id: "s1", text: "Draft", completed: false }],
+      },
+    ],
+    "slot-afternoon-14": [
+      {
+        id: "t2",
+        projectId: "old",
+        projectName: "Old project",
+        projectColor: "bg-green-500 text-white",
+        originalProjectSubTasks: [{ id: "s9", text: "Review", completed: true }],
+      },
+      { id: "gcal-evt1", projectId: "google-calendar-project", projectName: "Standup" },
+    ],
+  },
+}
+
+describe("migrateData", () => {
+  it(`migrates 1.0.0 data through every step to ${APP_VERSION}`, () => {
+    const { data, report } = migrateData(LEGACY_DATA)
+    const today = getTodayKey()
+
+    expect(report.fromVersion).toBe("1.0.0")
+    expect(report.toVersion).toBe(APP_VERSION)
+    expect(report.appliedSteps).toHaveLength(11)
+    expect(report.appliedSteps[0]).toMatch(/^1\.0\.0 → 1\.0\.1: /)
+    expect(report.appliedSteps.at(-1)).toMatch(new RegExp(`→ ${APP_VERSION.replace(/\./g, "\\.")}: `))
+    expect(report.issues).toEqual([])
+
+    expect(data.version).toBe(APP_VERSION)
+    expect(data.timeGrid).toEqual({ dayStartHour: 8, dayEndHour: 24, slotMinutes: 60 })
+    expect(data.nextColorIndex).toBe(1)
+    // 1.0.1 补上颜色，1.0.7 用任务复制的数据重建缺少的项目，1.0.9 去掉日历项目
+    // (1.0.1 adds the color, 1.0.7 rebuilds the missing project from task copies, 1.0.9 drops the calendar project)
+    expect(data.projects).toEqual([
+      { id: "p1", name: "Writing", color: PROJECT_COLORS[0], subTasks: [{ id: "s1", text: "Draft", completed: false }] },
+      {
+        id: "old",
+        name: "Old project",
+        color: "bg-green-500 text-white",
+        subTasks: [{ id: "s9", text: "Review", completed: true }],
+      },
+    ])
+    expect(data.schedules).toEqual({
+      [today]: [
+        { id: "t1", projectId: "p1", startMinutes: 540, durationMinutes: 60 },
+        { id: "t2", projectId: "old", startMinutes: 840, durationMinutes: 60 },
+      ],
+    })
+    expect(data.events).toEqual([
+      expect.objectContaining({
+        id: "google:primary:evt1",
+        sourceId: "evt1",
+        title: "Standup",
+        start: `${today}T14:00`,
+        end: `${today}T15:00`,
+        allDay: false,
+      }),
+    ])
+    expect(data.timeEntries).toEqual([])
+  })
+
+  it("applies no steps to current data", () => {
+    const { data, report } = migrateData(migrateData(LEGACY_DATA).data)
+    expect(report.appliedSteps).toEqual([])
+    expect(report.issues).toEqual([])
+    expect(data).toEqual(migrateData(LEGACY_DATA).data)
+  })
+
+  it("reports what validation repaired and dropped", () => {
+    const { data, report } = migrateData({
+      version: APP_VERSION,
+      projects: [
+        {
+          id: "p1",
+          name: "",
+          color: "bg-blue-500 text-white",
+          subTasks: [{ id: "s1", text: "Draft" }, 5],
+          dueDate: "tomorrow",
+        },
+        "not a project",
+      ],
+      schedules: {
+        "2024-10-21": [
+          { id: "t1", projectId: "p1", startMinutes: 60, durationMinutes: 60 },
+          { id: "t2", projectId: "missing", startMinutes: 600, durationMinutes: 60 },
+        ],
+        "not-a-date": [],
+      },
+      events: [{ source: "outlook", sourceId: "a", calendarId: "b" }],
+      timeEntries: [{ id: "e1", projectId: "p1", taskId: "gone", startedAt: "2024-10-21T09:00:00Z" }],
+      nextColorIndex: 1,
+      timeGrid: { dayStartHour: 8, dayEndHour: 20, slotMinutes: 30 },
+    })
+
+    expect(report.appliedSteps).toEqual([])
+    expect(report.issues.map(({ path, action }) => ({ path, action }))).toEqual([
+      { path: "projects[0]", action: "repaired" },
+      { path: "projects[0].subTasks[1]", action: "dropped" },
+      { path: "projects[0].dueDate", action: "repaired" },
+      { path: "projects[1]", action: "dropped" },
+      { path: "schedules.2024-10-21[0]", action: "repaired" },
+      { path: "schedules.2024-10-21[1]", action: "dropped" },
+      { path: "schedules.not-a-date", action: "dropped" },
+      { path: "events[0]", action: "dropped" },
+      { path: "timeEntries[0].taskId", action: "repaired" },
+    ])
+
+    expect(data.projects).toEqual([
+      {
+        id: "p1",
+        name: "Project 1",
+        color: "bg-blue-500 text-white",
+        subTasks: [{ id: "s1", text: "Draft", completed: false }],
+      },
+    ])
+    expect(data.schedules).toEqual({
+      "2024-10-21": [{ id: "t1", projectId: "p1", startMinutes: 480, durationMinutes: 60 }],
+    })
+    expect(data.events).toEqual([])
+    expect(data.timeEntries).toEqual([{ id: "e1", projectId: "p1", startedAt: "2024-10-21T09:00:00.000Z" }])
+  })
+
+  it("starts from empty data when the input is not an object", () => {
+    const { data, report } = migrateData("garbage")
+    expect(report.issues[0]).toMatchObject({ path: "", action: "repaired" })
+    expect(data.version).toBe(APP_VERSION)
+    expect(data.schedules).toEqual({})
+  })
+})
@@ -0,0 +1,613 @@
+// lib/migration.ts
+// 把任何旧版本保存或导入的数据迁移到当前版本，然后按当前的格式验证并生成报告。
+// Migrates data saved or imported by any older version to the current one, then validates it against the
+// current format and reports everything that was repaired or dropped.
+import type {
+  CalendarEvent,
+  CalendarEventAttendee,
+  Project,
+  ProjectDetails,
+  ScheduledTask,
+  SchedulesByDate,
+  SubTask,
+  TimeEntry,
+  TimeGridSettings,
+} from "@/types/schedule"
+import {
+  GOOGLE_CALENDAR_PROJECT_ID,
+  PROJECT_COLORS,
+  PROJECT_PRIORITIES,
+  createGoogleCalendarProject,
+  getCalendarIdOfProject,
+  getInitialProjects,
+  isGoogleCalendarProjectId,
+} from "@/lib/schedule-data"
+import { clampToDay, normalizeTimeGridSettings, parseSlotStartMinutes } from "@/lib/time-grid"
+import { addDays, getTodayKey, isDateKey } from "@/lib/date-utils"
+import {
+  CALENDAR_EVENT_SOURCES,
+  DEFAULT_EVENT_COLOR,
+  getCalendarEventId,
+  isEventDateTime,
+  toEventDateTime,
+} from "@/lib/calendar-events"
+import { sortByStartTime } from "@/lib/task-layout"
+import { isValidTimestamp } from "@/lib/time-tracking"
+import { generateId } from "@/lib/utils"
+
+// 保存和导入的数据格式 (Format of saved and imported data)
+export interface PersistedScheduleData {
+  version: string
+  projects: Project[]
+  schedules: SchedulesByDate
+  events: CalendarEvent[]
+  timeEntries: TimeEntry[]
+  nextColorIndex: number
+  timeGrid: TimeGridSettings
+}
+
+interface MigrationStep {
+  from: string
+  to: string
+  description: string
+  migrate: (data: any) => any // 接收上一步的结果，返回新的对象 (Takes the previous step's result and returns a new object)
+}
+
+export interface ValidationIssue {
+  path: string // 例如 "schedules.2024-10-21[2]" (E.g. "schedules.2024-10-21[2]")
+  action: "repaired" | "dropped"
+  message: string
+}
+
+export interface MigrationReport {
+  fromVersion: string
+  toVersion: string
+  appliedSteps: string[] // 按顺序执行的步骤说明 (Descriptions of the steps that ran, in order)
+  issues: ValidationIssue[]
+}
+
+export interface MigrationResult {
+  data: PersistedScheduleData
+  report: MigrationReport
+}
+
+// 把每一天的任务交给 update，只处理已经是数组的日期 (Passes each day's tasks to update, only for days that are already arrays)
+const mapRawDays = (schedules: any, update: (tasks: any[]) => any[]) => {
+  if (typeof schedules !== "object" || schedules === null) return schedules
+  return Object.fromEntries(
+    Object.entries(schedules).map(([dateKey, day]) => [dateKey, Array.isArray(day) ? update(day) : day]),
+  )
+}
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === "object" && value !== null
+
+// 旧的导入任务ID是 "gcal-<事件ID>"，跨天事件之后的部分加上 ":<日期>"
+// (Old imported task IDs are "gcal-<event ID>", later days of multi-day events add ":<date>")
+const LEGACY_EVENT_TASK_ID_PATTERN = /^gcal-(.+?)(?::\d{4}-\d{2}-\d{2})?$/
+
+// 把日历项目下的旧任务变成事件；跨天事件的各部分合并为一个事件
+// (Turns old tasks of calendar projects into events; the parts of a multi-day event merge into one)
+const moveCalendarTasksToEvents = (data: any) => {
+  const projects: any[] = Array.isArray(data.projects) ? data.projects : []
+  const calendarProjects = new Map<string, any>()
+  projects.forEach((project) => {
+    if (isObject(project) && typeof project.id === "string" && isGoogleCalendarProjectId(project.id)) {
+      calendarProjects.set(project.id, project)
+    }
+  })
+
+  const events = new Map<string, any>()
+  const schedules = !isObject(data.schedules)
+    ? data.schedules
+    : Object.fromEntries(
+        Object.entries(data.schedules).map(([dateKey, day]) => {
+          if (!Array.isArray(day) || !isDateKey(dateKey)) return [dateKey, day]
+          const remaining = day.filter((task) => {
+            if (!isObject(task) || typeof task.projectId !== "string" || !isGoogleCalendarProjectId(task.projectId)) {
+              return true
+            }
+            const project = calendarProjects.get(task.projectId)
+            const calendarId = getCalendarIdOfProject(task.projectId)
+            const sourceId = LEGACY_EVENT_TASK_ID_PATTERN.exec(String(task.id))?.[1] ?? String(task.id)
+            const startMinutes = typeof task.startMinutes === "number" ? task.startMinutes : 0
+            const durationMinutes = typeof task.durationMinutes === "number" ? task.durationMinutes : 60
+            const allDay = task.allDay === true
+            const part = {
+              id: getCalendarEventId("google", calendarId, sourceId),
+              source: "google",
+              sourceId,
+              calendarId,
+              calendarName: project?.name || "Google Calendar",
+              color: project?.color || createGoogleCalendarProject().color,
+              title: task.title || project?.name || "Untitled Event",
+              start: allDay ? dateKey : toEventDateTime(dateKey, startMinutes),
+              end: allDay ? addDays(dateKey, 1) : toEventDateTime(dateKey, startMinutes + durationMinutes),
+              allDay,
+            }
+            const existing = events.get(part.id)
+            events.set(
+              part.id,
+              existing
+                ? {
+                    ...existing,
+                    start: part.start < existing.start ? part.start : existing.start,
+                    end: part.end > existing.end ? part.end : existing.end,
+                  }
+                : part,
+            )
+            return false
+          })
+          return [dateKey, remaining]
+        }),
+      )
+
+  return {
+    ...data,
+    projects: Array.isArray(data.projects)
+      ? data.projects.filter((project: any) => !(isObject(project) && calendarProjects.has(project.id)))
+      : data.projects,
+    schedules,
+    events: [...(Array.isArray(data.events) ? data.events : []), ...events.values()],
+  }
+}
+
+// 迁移步骤，按版本顺序排列。添加新版本时在末尾加一个步骤 (Migration steps in version order. Add a step at the end for each new version)
+const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    from: "1.0.0",
+    to: "1.0.1",
+    description: "Add nextColorIndex and give every project a color",
+    migrate: (data) => ({
+      ...data,
+      nextColorIndex:
+        typeof data.nextColorIndex === "number"
+          ? data.nextColorIndex
+          : (Array.isArray(data.projects) ? data.projects.length : 0) % PROJECT_COLORS.length,
+      projects: Array.isArray(data.projects)
+        ? data.projects.map((project: any, index: number) =>
+            isObject(project)
+              ? { ...project, color: project.color || PROJECT_COLORS[index % PROJECT_COLORS.length] }
+              : project,
+          )
+        : data.projects,
+    }),
+  },
+  {
+    from: "1.0.1",
+    to: "1.0.2",
+    // 在这个版本中添加了本地存储功能，但数据结构没有变化 (Local storage was added, the data structure didn't change)
+    description: "No data changes (local storage added)",
+    migrate: (data) => data,
+  },
+  {
+    from: "1.0.2",
+    to: "1.0.3",
+    // 在这个版本中添加了数据迁移功能，但数据结构没有变化 (Data migration was added, the data structure didn't change)
+    description: "No data changes (data migration added)",
+    migrate: (data) => data,
+  },
+  {
+    from: "1.0.3",
+    to: "1.0.4",
+    // 旧数据只有一个没有日期的日程，把它归入今天 (Old data has a single undated schedule, move it into today)
+    description: "Move the undated schedule into today's date",
+    migrate: ({ schedule, ...data }) => ({
+      ...data,
+      schedules: data.schedules === undefined && schedule !== undefined ? { [getTodayKey()]: schedule } : data.schedules,
+    }),
+  },
+  {
+    from: "1.0.4",
+    to: "1.0.5",
+    // 旧数据使用固定的 08:00-24:00 一小时网格，也就是默认设置 (Old data used the fixed 08:00-24:00 hourly grid, the default)
+    description: "Add working hours and slot length settings",
+    migrate: (data) => ({ ...data, timeGrid: normalizeTimeGridSettings(data.timeGrid) }),
+  },
+  {
+    from: "1.0.5",
+    to: "1.0.6",
+    // 按时间段存储的日程展开成带开始时间和时长的任务列表 (Slot-keyed days become task lists with start time and duration)
+    description: "Give scheduled tasks a start time and duration",
+    migrate: (data) => {
+      if (!isObject(data.schedules)) return data
+      const slotMinutes = normalizeTimeGridSettings(data.timeGrid).slotMinutes
+      const schedules = Object.fromEntries(
+        Object.entries(data.schedules).map(([dateKey, day]) => {
+          if (Array.isArray(day) || !isObject(day)) return [dateKey, day]
+          const tasks: any[] = []
+          for (const slotId in day) {
+            const startMinutes = parseSlotStartMinutes(slotId)
+            if (startMinutes === null || !Array.isArray(day[slotId])) continue
+            // 无效的任务留给验证去报告 (Invalid tasks are left for validation to report)
+            day[slotId].forEach((task: any) => {
+              tasks.push(isObject(task) ? { ...task, startMinutes, durationMinutes: slotMinutes } : task)
+            })
+          }
+          return [dateKey, tasks]
+        }),
+      )
+      return { ...data, schedules }
+    },
+  },
+  {
+    from: "1.0.6",
+    to: "1.0.7",
+    // 任务不再复制项目数据，只保留 projectId；找不到项目的任务用它复制的数据重建项目
+    // (Tasks no longer copy project data, only projectId is kept; projects missing for a task are rebuilt from its copies)
+    description: "Store projects once and reference them from scheduled tasks",
+    migrate: (data) => {
+      if (!Array.isArray(data.projects)) return data
+      const projects = [...data.projects]
+      const knownProjectIds = new Set(projects.map((project: any) => project?.id))
+      const schedules = mapRawDays(data.schedules, (tasks) =>
+        tasks.map((task) => {
+          if (!isObject(task)) return task
+          const { projectName, projectColor, originalProjectSubTasks, ...rest } = task
+          if (task.projectId && !knownProjectIds.has(task.projectId)) {
+            projects.push(
+              task.projectId === GOOGLE_CALENDAR_PROJECT_ID
+                ? createGoogleCalendarProject()
+                : { id: task.projectId, name: projectName, color: projectColor, subTasks: originalProjectSubTasks },
+            )
+            knownProjectIds.add(task.projectId)
+          }
+          // 导入的事件以前把事件标题存在 projectName 中 (Imported events used to keep their title in projectName)
+          if (task.projectId === GOOGLE_CALENDAR_PROJECT_ID && !rest.title && projectName) rest.title = projectName
+          return rest
+        }),
+      )
+      return { ...data, projects, schedules }
+    },
+  },
+  {
+    from: "1.0.7",
+    to: "1.0.8",
+    description: "No data changes (scheduled blocks may pick sub-tasks)",
+    migrate: (data) => data,
+  },
+  {
+    from: "1.0.8",
+    to: "1.0.9",
+    // 导入的日历事件以前是日历项目下的任务 (Imported calendar events used to be tasks of calendar projects)
+    description: "Move imported calendar events out of projects into their own list",
+    migrate: moveCalendarTasksToEvents,
+  },
+  {
+    from: "1.0.9",
+    to: "1.0.10",
+    description: "No data changes (projects may have a due date, an estimate, a priority and a description)",
+    migrate: (data) => data,
+  },
+  {
+    from: "1.0.10",
+    to: "1.0.11",
+    description: "Add an empty list of time entries",
+    migrate: (data) => ({ ...data, timeEntries: data.timeEntries ?? [] }),
+  },
+]
+
+export const APP_VERSION = MIGRATION_STEPS[MIGRATION_STEPS.length - 1].to
+
+// 比较 "1.0.10" 这样的版本号 (Compares version strings like "1.0.10")
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split(".").map(Number)
+  const partsB = b.split(".").map(Number)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
+
+const validateSubTask = (subTask: any, path: string, issues: ValidationIssue[]): SubTask | null => {
+  if (!isObject(subTask)) {
+    issues.push({ path, action: "dropped", message: "Sub-task is not an object" })
+    return null
+  }
+  if (!subTask.id) issues.push({ path, action: "repaired", message: "Missing id, generated a new one" })
+  if (!subTask.text) issues.push({ path, action: "repaired", message: 'Missing text, set to "Untitled Task"' })
+  return {
+    id: subTask.id || generateId(),
+    text: subTask.text || "Untitled Task",
+    completed: Boolean(subTask.completed),
+  }
+}
+
+// 无效的可选信息被去掉，项目本身保留 (Invalid optional details are dropped, the project itself is kept)
+const validateProjectDetails = (project: any, path: string, issues: ValidationIssue[]): ProjectDetails => {
+  const details: ProjectDetails = {}
+  if (project.dueDate !== undefined) {
+    if (isDateKey(project.dueDate)) details.dueDate = project.dueDate
+    else issues.push({ path: `${path}.dueDate`, action: "repaired", message: "Not a valid YYYY-MM-DD date, removed" })
+  }
+  if (project.estimatedHours !== undefined) {
+    if (typeof project.estimatedHours === "number" && project.estimatedHours >= 0) {
+      details.estimatedHours = project.estimatedHours
+    } else {
+      issues.push({ path: `${path}.estimatedHours`, action: "repaired", message: "Not a number of hours, removed" })
+    }
+  }
+  if (project.priority !== undefined) {
+    if (PROJECT_PRIORITIES.includes(project.priority)) details.priority = project.priority
+    else issues.push({ path: `${path}.priority`, action: "repaired", message: "Unknown priority, removed" })
+  }
+  if (project.description !== undefined) {
+    if (typeof project.description === "string") {
+      if (project.description) details.description = project.description
+    } else {
+      issues.push({ path: `${path}.description`, action: "repaired", message: "Not text, removed" })
+    }
+  }
+  return details
+}
+
+const validateProject = (project: any, index: number, issues: ValidationIssue[]): Project | null => {
+  const path = `projects[${index}]`
+  if (!isObject(project)) {
+    issues.push({ path, action: "dropped", message: "Project is not an object" })
+    return null
+  }
+  if (!project.id) issues.push({ path, action: "repaired", message: "Missing id, generated a new one" })
+  if (!project.name) issues.push({ path, action: "repaired", message: `Missing name, set to "Project ${index + 1}"` })
+  if (!project.color) issues.push({ path, action: "repaired", message: "Missing color, picked one from the palette" })
+  if (!Array.isArray(project.subTasks)) {
+    issues.push({ path: `${path}.subTasks`, action: "repaired", message: "Not a list, reset to an empty list" })
+  }
+  return {
+    id: project.id || generateId(),
+    name: project.name || `Project ${index + 1}`,
+    subTasks: Array.isArray(project.subTasks)
+      ? project.subTasks
+          .map((subTask: any, subIndex: number) => validateSubTask(subTask, `${path}.subTasks[${subIndex}]`, issues))
+          .filter((subTask: SubTask | null): subTask is SubTask => subTask !== null)
+      : [],
+    color: project.color || PROJECT_COLORS[index % PROJECT_COLORS.length],
+    ...validateProjectDetails(project, path, issues),
+  }
+}
+
+const validateTask = (
+  task: any,
+  path: string,
+  projectIds: Set<string>,
+  timeGrid: TimeGridSettings,
+  issues: ValidationIssue[],
+): ScheduledTask | null => {
+  if (!isObject(task)) {
+    issues.push({ path, action: "dropped", message: "Task is not an object" })
+    return null
+  }
+  if (!task.projectId || !projectIds.has(task.projectId)) {
+    issues.push({ path, action: "dropped", message: `Refers to missing project "${task.projectId ?? ""}"` })
+    return null
+  }
+  if (!task.id) issues.push({ path, action: "repaired", message: "Missing id, generated a new one" })
+
+  const hasTimes = typeof task.startMinutes === "number" && typeof task.durationMinutes === "number"
+  const fitted = clampToDay(
+    typeof task.startMinutes === "number" ? task.startMinutes : timeGrid.dayStartHour * 60,
+    typeof task.durationMinutes === "number" ? task.durationMinutes : timeGrid.slotMinutes,
+    timeGrid,
+  )
+  if (!hasTimes) {
+    issues.push({ path, action: "repaired", message: "Missing start time or duration, placed at the start of the day" })
+  } else if (fitted.startMinutes !== task.startMinutes || fitted.durationMinutes !== task.durationMinutes) {
+    issues.push({ path, action: "repaired", message: "Moved inside the working hours" })
+  }
+
+  const subTaskIds = Array.isArray(task.subTaskIds)
+    ? task.subTaskIds.filter((id: unknown): id is string => typeof id === "string")
+    : []
+  if (Array.isArray(task.subTaskIds) && subTaskIds.length !== task.subTaskIds.length) {
+    issues.push({ path: `${path}.subTaskIds`, action: "repaired", message: "Removed ids that are not strings" })
+  }
+
+  return {
+    id: task.id || generateId(),
+    projectId: task.projectId,
+    ...(typeof task.title === "string" && task.title ? { title: task.title } : {}),
+    ...(subTaskIds.length > 0 ? { subTaskIds } : {}),
+    ...fitted,
+  }
+}
+
+const validateAttendees = (attendees: any): CalendarEventAttendee[] =>
+  Array.isArray(attendees)
+    ? attendees
+        .filter((attendee) => isObject(attendee) && typeof attendee.email === "string")
+        .map(({ email, name, responseStatus }) => ({
+          email,
+          ...(typeof name === "string" ? { name } : {}),
+          ...(typeof responseStatus === "string" ? { responseStatus } : {}),
+        }))
+    : []
+
+const validateEvent = (event: any, index: number, issues: ValidationIssue[]): CalendarEvent | null => {
+  const path = `events[${index}]`
+  if (!isObject(event)) {
+    issues.push({ path, action: "dropped", message: "Event is not an object" })
+    return null
+  }
+  if (!CALENDAR_EVENT_SOURCES.includes(event.source)) {
+    issues.push({ path, action: "dropped", message: `Unknown source "${event.source ?? ""}"` })
+    return null
+  }
+  if (typeof event.sourceId !== "string" || typeof event.calendarId !== "string") {
+    issues.push({ path, action: "dropped", message: "Missing source or calendar id" })
+    return null
+  }
+  const allDay = event.allDay === true
+  if (!isEventDateTime(event.start, allDay) || !isEventDateTime(event.end, allDay) || event.end < event.start) {
+    issues.push({ path, action: "dropped", message: "Invalid start or end time" })
+    return null
+  }
+  if (!event.title) issues.push({ path, action: "repaired", message: 'Missing title, set to "Untitled Event"' })
+
+  const attendees = validateAttendees(event.attendees)
+  return {
+    id: getCalendarEventId(event.source, event.calendarId, event.sourceId),
+    source: event.source,
+    sourceId: event.sourceId,
+    calendarId: event.calendarId,
+    calendarName: typeof event.calendarName === "string" ? event.calendarName : "",
+    color: typeof event.color === "string" && event.color ? event.color : DEFAULT_EVENT_COLOR,
+    title: typeof event.title === "string" && event.title ? event.title : "Untitled Event",
+    start: event.start,
+    end: event.end,
+    allDay,
+    ...(typeof event.location === "string" && event.location ? { location: event.location } : {}),
+    ...(attendees.length > 0 ? { attendees } : {}),
+    ...(typeof event.url === "string" && event.url ? { url: event.url } : {}),
+  }
+}
+
+// 时间戳统一保存为 UTC 的 ISO 格式 (Timestamps are stored as UTC ISO strings)
+const validateTimeEntry = (
+  entry: any,
+  index: number,
+  projectIds: Set<string>,
+  taskIds: Set<string>,
+  issues: ValidationIssue[],
+): TimeEntry | null => {
+  const path = `timeEntries[${index}]`
+  if (!isObject(entry)) {
+    issues.push({ path, action: "dropped", message: "Time entry is not an object" })
+    return null
+  }
+  if (!entry.projectId || !projectIds.has(entry.projectId)) {
+    issues.push({ path, action: "dropped", message: `Refers to missing project "${entry.projectId ?? ""}"` })
+    return null
+  }
+  const hasEnd = entry.endedAt !== undefined && entry.endedAt !== null
+  if (!isValidTimestamp(entry.startedAt) || (hasEnd && !isValidTimestamp(entry.endedAt))) {
+    issues.push({ path, action: "dropped", message: "Invalid start or end time" })
+    return null
+  }
+  const startedAt = new Date(entry.startedAt).toISOString()
+  const endedAt = hasEnd ? new Date(entry.endedAt).toISOString() : undefined
+  if (endedAt && endedAt < startedAt) {
+    issues.push({ path, action: "dropped", message: "Ends before it starts" })
+    return null
+  }
+  if (!entry.id) issues.push({ path, action: "repaired", message: "Missing id, generated a new one" })
+  const hasTask = typeof entry.taskId === "string" && taskIds.has(entry.taskId)
+  if (entry.taskId !== undefined && !hasTask) {
+    const message = "Refers to a missing block, counted for the project"
+    issues.push({ path: `${path}.taskId`, action: "repaired", message })
+  }
+  return {
+    id: entry.id || generateId(),
+    projectId: entry.projectId,
+    ...(hasTask ? { taskId: entry.taskId } : {}),
+    startedAt,
+    ...(endedAt ? { endedAt } : {}),
+  }
+}
+
+// 按当前的格式验证数据，修复能修复的，丢弃不能修复的 (Validates against the current format, repairing what it can and dropping the rest)
+export const validateData = (data: any): { data: PersistedScheduleData; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = []
+
+  const timeGrid = normalizeTimeGridSettings(data.timeGrid)
+  const timeGridFields = ["dayStartHour", "dayEndHour", "slotMinutes"] as const
+  if (!isObject(data.timeGrid) || timeGridFields.some((field) => data.timeGrid[field] !== timeGrid[field])) {
+    issues.push({ path: "timeGrid", action: "repaired", message: "Invalid working hours, replaced with valid settings" })
+  }
+
+  let projects: Project[]
+  if (Array.isArray(data.projects)) {
+    projects = data.projects
+      .map((project: any, index: number) => validateProject(project, index, issues))
+      .filter((project: Project | null): project is Project => project !== null)
+  } else {
+    issues.push({ path: "projects", action: "repaired", message: "Not a list, reset to the default projects" })
+    projects = getInitialProjects()
+  }
+  const projectIds = new Set(projects.map((project) => project.id))
+
+  const schedules: SchedulesByDate = {}
+  if (isObject(data.schedules) && !Array.isArray(data.schedules)) {
+    for (const dateKey in data.schedules) {
+      const path = `schedules.${dateKey}`
+      const day = data.schedules[dateKey]
+      if (!isDateKey(dateKey)) {
+        issues.push({ path, action: "dropped", message: "Not a valid YYYY-MM-DD date" })
+      } else if (!Array.isArray(day)) {
+        issues.push({ path, action: "dropped", message: "Day is not a list of tasks" })
+      } else {
+        schedules[dateKey] = sortByStartTime(
+          day
+            .map((task, index) => validateTask(task, `${path}[${index}]`, projectIds, timeGrid, issues))
+            .filter((task): task is ScheduledTask => task !== null),
+        )
+      }
+    }
+  } else {
+    issues.push({ path: "schedules", action: "repaired", message: "Not an object, reset to no schedules" })
+  }
+
+  // 同一个事件只保留最后一次出现的 (Only the last copy of the same event is kept)
+  const eventsById = new Map<string, CalendarEvent>()
+  if (Array.isArray(data.events)) {
+    data.events.forEach((raw: any, index: number) => {
+      const event = validateEvent(raw, index, issues)
+      if (event) eventsById.set(event.id, event)
+    })
+  } else {
+    issues.push({ path: "events", action: "repaired", message: "Not a list, reset to no events" })
+  }
+
+  let nextColorIndex = data.nextColorIndex
+  if (typeof nextColorIndex !== "number") {
+    nextColorIndex = projects.length % PROJECT_COLORS.length
+    issues.push({ path: "nextColorIndex", action: "repaired", message: "Not a number, derived from the projects" })
+  }
+
+  let timeEntries: TimeEntry[] = []
+  if (Array.isArray(data.timeEntries)) {
+    const taskIds = new Set(Object.values(schedules).flatMap((day) => day.map((task) => task.id)))
+    timeEntries = data.timeEntries
+      .map((entry: any, index: number) => validateTimeEntry(entry, index, projectIds, taskIds, issues))
+      .filter((entry: TimeEntry | null): entry is TimeEntry => entry !== null)
+  } else {
+    issues.push({ path: "timeEntries", action: "repaired", message: "Not a list, reset to no time entries" })
+  }
+
+  const events = [...eventsById.values()]
+  return {
+    data: { version: APP_VERSION, projects, schedules, events, timeEntries, nextColorIndex, timeGrid },
+    issues,
+  }
+}
+
+// 从数据的版本开始依次执行每个迁移步骤，然后验证结果 (Runs every step from the data's version onwards in order, then validates)
+export const migrateData = (input: any): MigrationResult => {
+  // 如果没有版本信息，假设是最早版本 (If no version info, assume earliest version)
+  const fromVersion = typeof input?.version === "string" ? input.version : MIGRATION_STEPS[0].from
+  const appliedSteps: string[] = []
+  const earlyIssues: ValidationIssue[] = []
+
+  let data = isObject(input) ? { ...input } : {}
+  if (!isObject(input)) {
+    earlyIssues.push({ path: "", action: "repaired", message: "Data is not an object, starting from empty data" })
+  }
+  if (compareVersions(fromVersion, APP_VERSION) > 0) {
+    earlyIssues.push({
+      path: "version",
+      action: "repaired",
+      message: `Version ${fromVersion} is newer than this app (${APP_VERSION}), only validation was applied`,
+    })
+  }
+
+  MIGRATION_STEPS.forEach((step) => {
+    if (compareVersions(step.from, fromVersion) < 0) return
+    data = step.migrate(data)
+    appliedSteps.push(`${step.from} → ${step.to}: ${step.description}`)
+  })
+
+  const validated = validateData(data)
+  return {
+    data: validated.data,
+    report: { fromVersion, toVersion: APP_VERSION, appliedSteps, issues: [...earlyIssues, ...validated.issues] },
+  }
+}
@@ -0,0 +1,32 @@
+// lib/project-store.ts
+// 规范化的项目存储：项目按ID保存一次，已安排的任务只通过 projectId 引用它们。
+// Normalized project store: each project is stored once by ID, scheduled tasks only reference it by projectId.
+import type { Project, ProjectsState } from "@/types/schedule"
+
+export const createProjectsState = (projects: Project[]): ProjectsState => ({
+  byId: Object.fromEntries(projects.map((project) => [project.id, project])),
+  allIds: projects.map((project) => project.id),
+})
+
+export const addProject = (state: ProjectsState, project: Project): ProjectsState => ({
+  byId: { ...state.byId, [project.id]: project },
+  allIds: state.allIds.includes(project.id) ? state.allIds : [...state.allIds, project.id],
+})
+
+// 只替换被修改的项目，其他项目保持相同的引用 (Only the edited project is replaced, others keep their references)
+export const updateProject = (
+  state: ProjectsState,
+  projectId: string,
+  update: (project: Project) => Project,
+): ProjectsState => {
+  const project = state.byId[projectId]
+  if (!project) return state
+  return { ...state, byId: { ...state.byId, [projectId]: update(project) } }
+}
+
+export const removeProject = (state: ProjectsState, projectId: string): ProjectsState => {
+  const { [projectId]: _removed, ...byId } = state.byId
+  return { byId, allIds: state.allIds.filter((id) => id !== projectId) }
+}
+
+export const reorderProjects = (state: ProjectsState, allIds: string[]): ProjectsState => ({ ...state, allIds })
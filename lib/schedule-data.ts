@@ -1,48 +1,56 @@
 // lib/schedule-data.ts
 // 这个文件包含应用的初始数据和常量。
 // This file contains initial data and constants for the application.
-// Updated with generic presentation data.
-import type { Project, TimeSlot } from "@/types/schedule"
+// Time slots are generated from the user's settings in lib/time-grid.ts.
+import type { Project, ProjectPriority } from "@/types/schedule"
 
 export const initialProjectsData: Project[] = []
 
-const generateTimeSlots = (
-  section: "morning" | "afternoon" | "evening",
-  startHour: number,
-  endHour: number,
-): TimeSlot[] => {
-  const slots: TimeSlot[] = []
-  for (let hour = startHour; hour <= endHour; hour++) {
-    const nextHour = hour + 1
-    slots.push({
-      id: `slot-${section}-${hour.toString().padStart(2, "0")}`,
-      label: `${hour.toString().padStart(2, "0")}:00 - ${nextHour.toString().padStart(2, "0")}:00`,
-      section,
-    })
-  }
-  return slots
-}
+// 新项目依次使用这些颜色 (New projects cycle through these colors)
+export const PROJECT_COLORS = [
+  "bg-blue-500 text-white",
+  "bg-pink-500 text-white",
+  "bg-amber-500 text-white",
+  "bg-rose-500 text-white",
+  "bg-sky-500 text-white",
+  "bg-purple-500 text-white",
+  "bg-green-500 text-white",
+  "bg-fuchsia-500 text-white",
+  "bg-teal-500 text-white",
+  "bg-cyan-500 text-white",
+  "bg-lime-500 text-white",
+  "bg-orange-500 text-white",
+]
+
+// 从高到低的优先级和它们的标签 (Priorities from highest to lowest, and their labels)
+export const PROJECT_PRIORITIES: ProjectPriority[] = ["high", "medium", "low"]
 
-export const timeSections: Record<string, { name: string; slots: TimeSlot[]; bgColor: string }> = {
-  morning: {
-    name: "上午",
-    slots: generateTimeSlots("morning", 8, 11), // 8 AM to 12 PM (exclusive of 12)
-    bgColor: "bg-blue-50",
-  },
-  afternoon: {
-    name: "下午",
-    slots: generateTimeSlots("afternoon", 12, 17), // 12 PM to 6 PM (exclusive of 18)
-    bgColor: "bg-amber-50",
-  },
-  evening: {
-    name: "傍晚/晚上",
-    slots: generateTimeSlots("evening", 18, 23), // 6 PM to 12 AM (exclusive of 00)
-    bgColor: "bg-green-50",
-  },
+export const PRIORITY_LABELS: Record<ProjectPriority, string> = {
+  high: "高 (High)",
+  medium: "中 (Medium)",
+  low: "低 (Low)",
 }
 
-export const allTimeSlots: TimeSlot[] = [
-  ...timeSections.morning.slots,
-  ...timeSections.afternoon.slots,
-  ...timeSections.evening.slots,
-]
+export const getInitialProjects = () => JSON.parse(JSON.stringify(initialProjectsData)) as Project[]
+
+// 旧版本中从 Google 日历导入的事件归到这些项目下，现在只在迁移时使用
+// (Older versions put events imported from Google Calendar under these projects, now only used by the migration)
+export const GOOGLE_CALENDAR_PROJECT_ID = "google-calendar-project"
+
+export const createGoogleCalendarProject = (): Project => ({
+  id: GOOGLE_CALENDAR_PROJECT_ID,
+  name: "Google Calendar",
+  subTasks: [],
+  color: "bg-red-600 text-white",
+})
+
+// 每个导入的日历有自己的项目，ID 是 "google-calendar-project:<日历ID>"
+// (Each imported calendar had a project of its own, with the ID "google-calendar-project:<calendar ID>")
+const CALENDAR_PROJECT_PREFIX = `${GOOGLE_CALENDAR_PROJECT_ID}:`
+
+export const isGoogleCalendarProjectId = (projectId: string) =>
+  projectId === GOOGLE_CALENDAR_PROJECT_ID || projectId.startsWith(CALENDAR_PROJECT_PREFIX)
+
+// 最早的单个项目对应主日历 (The original single project maps to the primary calendar)
+export const getCalendarIdOfProject = (projectId: string) =>
+  projectId.startsWith(CALENDAR_PROJECT_PREFIX) ? projectId.slice(CALENDAR_PROJECT_PREFIX.length) : "primary"
@@ -0,0 +1,370 @@
+// lib/schedule-domain.test.ts
+// 日程 reducer 的测试：每个动作的结果，以及 getActionError 拒绝的动作。
+// Tests for the schedule reducer: the result of every action, and the actions getActionError rejects.
+import { describe, expect, it } from "vitest"
+import type { CalendarEvent, Project, ScheduledTask, TimeGridSettings } from "@/types/schedule"
+import {
+  MAX_TASKS_PER_SLOT,
+  getActionError,
+  isOutsideHistory,
+  scheduleReducer,
+  type ScheduleAction,
+  type ScheduleState,
+} from "@/lib/schedule-domain"
+import { createProjectsState } from "@/lib/project-store"
+import { selectRunningEntry } from "@/lib/time-tracking"
+import { applyToAllSteps, createHistory, recordChange, redo, undo, type History } from "@/lib/history"
+
+const DAY = "2024-10-21"
+const TIME_GRID: TimeGridSettings = { dayStartHour: 8, dayEndHour: 20, slotMinutes: 30 }
+
+const createProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+  id,
+  name: `Project ${id}`,
+  color: "bg-blue-500 text-white",
+  subTasks: [
+    { id: `${id}-s1`, text: "First", completed: false },
+    { id: `${id}-s2`, text: "Second", completed: true },
+  ],
+  ...overrides,
+})
+
+const createTask = (id: string, startMinutes: number, durationMinutes = 60, projectId = "p1"): ScheduledTask => ({
+  id,
+  projectId,
+  startMinutes,
+  durationMinutes,
+})
+
+const createState = (overrides: Partial<ScheduleState> = {}): ScheduleState => ({
+  projects: createProjectsState([createProject("p1"), createProject("p2")]),
+  schedules: {},
+  events: {},
+  timeEntries: {},
+  timeGrid: TIME_GRID,
+  nextColorIndex: 2,
+  ...overrides,
+})
+
+const createEvent = (id: string, title = "Standup"): CalendarEvent => ({
+  id: `google:primary:${id}`,
+  source: "google",
+  sourceId: id,
+  calendarId: "primary",
+  calendarName: "Primary",
+  color: "#039be5",
+  title,
+  start: `${DAY}T09:00`,
+  end: `${DAY}T09:30`,
+  allDay: false,
+})
+
+// 断言动作被拒绝并且状态不变 (Asserts that an action is rejected and leaves the state unchanged)
+const expectRejected = (state: ScheduleState, action: ScheduleAction) => {
+  expect(getActionError(state, action)).toEqual(expect.any(String))
+  expect(scheduleReducer(state, action)).toBe(state)
+}
+
+describe("project actions", () => {
+  it("addProject appends a project with the next palette color", () => {
+    const next = scheduleReducer(createState(), { type: "addProject", projectId: "p3" })
+    expect(next.projects.allIds).toEqual(["p1", "p2", "p3"])
+    expect(next.projects.byId.p3).toMatchObject({ name: "New Project", subTasks: [] })
+    expect(next.projects.byId.p3.color).not.toBe("")
+    expect(next.nextColorIndex).toBe(3)
+  })
+
+  it("removeProject also removes its scheduled tasks and time entries", () => {
+    const state = createState({
+      schedules: { [DAY]: [createTask("t1", 540), createTask("t2", 600, 60, "p2")] },
+      timeEntries: { e1: { id: "e1", projectId: "p1", startedAt: "2024-10-21T09:00:00.000Z" } },
+    })
+    const next = scheduleReducer(state, { type: "removeProject", projectId: "p1" })
+    expect(next.projects.allIds).toEqual(["p2"])
+    expect(next.schedules[DAY].map((task) => task.id)).toEqual(["t2"])
+    expect(next.timeEntries).toEqual({})
+  })
+
+  it("renameProject changes only the name", () => {
+    const state = createState()
+    const next = scheduleReducer(state, { type: "renameProject", projectId: "p1", name: "Writing" })
+    expect(next.projects.byId.p1).toEqual({ ...state.projects.byId.p1, name: "Writing" })
+    expect(next.projects.byId.p2).toBe(state.projects.byId.p2)
+  })
+
+  it("updateProjectDetails sets and clears optional details", () => {
+    const state = createState()
+    const withDetails = scheduleReducer(state, {
+      type: "updateProjectDetails",
+      projectId: "p1",
+      details: { dueDate: "2024-10-25", estimatedHours: 4, priority: "high" },
+    })
+    expect(withDetails.projects.byId.p1).toMatchObject({ dueDate: "2024-10-25", estimatedHours: 4, priority: "high" })
+
+    const cleared = scheduleReducer(withDetails, {
+      type: "updateProjectDetails",
+      projectId: "p1",
+      details: { dueDate: undefined },
+    })
+    expect(cleared.projects.byId.p1).not.toHaveProperty("dueDate")
+    expect(cleared.projects.byId.p1.priority).toBe("high")
+  })
+
+  it("rejects invalid project details", () => {
+    const state = createState()
+    expectRejected(state, { type: "updateProjectDetails", projectId: "p1", details: { dueDate: "next friday" } })
+    expectRejected(state, { type: "updateProjectDetails", projectId: "p1", details: { estimatedHours: -1 } })
+  })
+
+  it("reorderProjects moves a project to the position of another", () => {
+    const next = scheduleReducer(createState(), { type: "reorderProjects", activeId: "p2", overId: "p1" })
+    expect(next.projects.allIds).toEqual(["p2", "p1"])
+  })
+})
+
+describe("sub-task actions", () => {
+  it("addSubTask appends an unfinished sub-task", () => {
+    const next = scheduleReducer(createState(), { type: "addSubTask", projectId: "p1", subTaskId: "new" })
+    expect(next.projects.byId.p1.subTasks.at(-1)).toEqual({ id: "new", text: "New Sub-task", completed: false })
+  })
+
+  it("editSubTaskText changes the text", () => {
+    const next = scheduleReducer(createState(), {
+      type: "editSubTaskText",
+      projectId: "p1",
+      subTaskId: "p1-s1",
+      text: "Outline",
+    })
+    expect(next.projects.byId.p1.subTasks[0].text).toBe("Outline")
+  })
+
+  it("toggleSubTask flips completion", () => {
+    const next = scheduleReducer(createState(), { type: "toggleSubTask", projectId: "p1", subTaskId: "p1-s2" })
+    expect(next.projects.byId.p1.subTasks[1].completed).toBe(false)
+  })
+
+  it("removeSubTask drops it from the project and from blocks that picked it", () => {
+    const state = createState({
+      schedules: {
+        [DAY]: [
+          { ...createTask("t1", 540), subTaskIds: ["p1-s1"] },
+          { ...createTask("t2", 660), subTaskIds: ["p1-s1", "p1-s2"] },
+        ],
+      },
+    })
+    const next = scheduleReducer(state, { type: "removeSubTask", projectId: "p1", subTaskId: "p1-s1" })
+    expect(next.projects.byId.p1.subTasks.map((subTask) => subTask.id)).toEqual(["p1-s2"])
+    expect(next.schedules[DAY][0]).not.toHaveProperty("subTaskIds")
+    expect(next.schedules[DAY][1].subTaskIds).toEqual(["p1-s2"])
+  })
+})
+
+describe("scheduling actions", () => {
+  it("scheduleProject adds an hour-long task inside the day", () => {
+    const next = scheduleReducer(createState(), {
+      type: "scheduleProject",
+      taskId: "t1",
+      projectId: "p1",
+      dateKey: DAY,
+      startMinutes: 19 * 60 + 30,
+      subTaskIds: ["p1-s1"],
+    })
+    // 一天在 20:00 结束，所以任务缩短到一个时间段 (The day ends at 20:00, so the task shrinks to one slot)
+    expect(next.schedules[DAY]).toEqual([
+      { id: "t1", projectId: "p1", subTaskIds: ["p1-s1"], startMinutes: 19 * 60 + 30, durationMinutes: 30 },
+    ])
+  })
+
+  it(`scheduleProject rejects a slot that already has ${MAX_TASKS_PER_SLOT} tasks`, () => {
+    const full = Array.from({ length: MAX_TASKS_PER_SLOT }, (_, index) => createTask(`t${index}`, 540))
+    const state = createState({ schedules: { [DAY]: full } })
+    expectRejected(state, { type: "scheduleProject", taskId: "new", projectId: "p2", dateKey: DAY, startMinutes: 570 })
+    expect(
+      getActionError(state, { type: "scheduleProject", taskId: "new", projectId: "p2", dateKey: DAY, startMinutes: 600 }),
+    ).toBeNull()
+  })
+
+  it("scheduleBlocks adds every block in start order", () => {
+    const next = scheduleReducer(createState({ schedules: { [DAY]: [createTask("t1", 600)] } }), {
+      type: "scheduleBlocks",
+      dateKey: DAY,
+      blocks: [
+        { taskId: "b2", projectId: "p2", startMinutes: 720, durationMinutes: 90 },
+        { taskId: "b1", projectId: "p1", startMinutes: 480, durationMinutes: 60 },
+      ],
+    })
+    expect(next.schedules[DAY].map((task) => task.id)).toEqual(["b1", "t1", "b2"])
+    expect(next.schedules[DAY][2].durationMinutes).toBe(90)
+  })
+
+  it("scheduleBlocks checks each block together with the ones before it", () => {
+    const existing = Array.from({ length: MAX_TASKS_PER_SLOT - 1 }, (_, index) => createTask(`t${index}`, 540))
+    const state = createState({ schedules: { [DAY]: existing } })
+    expectRejected(state, {
+      type: "scheduleBlocks",
+      dateKey: DAY,
+      blocks: [
+        { taskId: "b1", projectId: "p1", startMinutes: 540, durationMinutes: 30 },
+        { taskId: "b2", projectId: "p2", startMinutes: 540, durationMinutes: 30 },
+      ],
+    })
+  })
+
+  it("moveTask moves a task to another day and keeps its duration", () => {
+    const state = createState({ schedules: { [DAY]: [createTask("t1", 540, 90)] } })
+    const next = scheduleReducer(state, {
+      type: "moveTask",
+      taskId: "t1",
+      fromDate: DAY,
+      toDate: "2024-10-22",
+      startMinutes: 600,
+    })
+    expect(next.schedules[DAY]).toEqual([])
+    expect(next.schedules["2024-10-22"]).toEqual([createTask("t1", 600, 90)])
+  })
+
+  it("moveTask rejects a move into an overlap with too many tasks", () => {
+    const full = Array.from({ length: MAX_TASKS_PER_SLOT }, (_, index) => createTask(`t${index}`, 600))
+    const state = createState({ schedules: { [DAY]: [...full, createTask("mover", 480)] } })
+    expectRejected(state, { type: "moveTask", taskId: "mover", fromDate: DAY, toDate: DAY, startMinutes: 630 })
+    expectRejected(state, { type: "moveTask", taskId: "missing", fromDate: DAY, toDate: DAY, startMinutes: 480 })
+  })
+
+  it("resizeTask changes the duration, clamped to the end of the day", () => {
+    const state = createState({ schedules: { [DAY]: [createTask("t1", 18 * 60)] } })
+    const next = scheduleReducer(state, { type: "resizeTask", taskId: "t1", dateKey: DAY, durationMinutes: 240 })
+    expect(next.schedules[DAY][0].durationMinutes).toBe(120)
+  })
+
+  it("resizeTask rejects growing into an overlap with too many tasks", () => {
+    const full = Array.from({ length: MAX_TASKS_PER_SLOT - 1 }, (_, index) => createTask(`t${index}`, 600))
+    const state = createState({ schedules: { [DAY]: [...full, createTask("grow", 480), createTask("other", 600)] } })
+    expectRejected(state, { type: "resizeTask", taskId: "grow", dateKey: DAY, durationMinutes: 180 })
+    expect(getActionError(state, { type: "resizeTask", taskId: "grow", dateKey: DAY, durationMinutes: 120 })).toBeNull()
+  })
+
+  it("deleteTask removes the task and keeps its time entries for the project", () => {
+    const state = createState({
+      schedules: { [DAY]: [createTask("t1", 540), createTask("t2", 600)] },
+      timeEntries: {
+        e1: {
+          id: "e1",
+          projectId: "p1",
+          taskId: "t1",
+          startedAt: "2024-10-21T09:00:00.000Z",
+          endedAt: "2024-10-21T09:30:00.000Z",
+        },
+      },
+    })
+    const next = scheduleReducer(state, { type: "deleteTask", taskId: "t1", dateKey: DAY })
+    expect(next.schedules[DAY].map((task) => task.id)).toEqual(["t2"])
+    expect(next.timeEntries.e1).not.toHaveProperty("taskId")
+    expect(next.timeEntries.e1.projectId).toBe("p1")
+  })
+})
+
+describe("calendar and settings actions", () => {
+  it("syncCalendarEvents upserts and removes events", () => {
+    const state = createState({ events: { [createEvent("a").id]: createEvent("a"), [createEvent("b").id]: createEvent("b") } })
+    const next = scheduleReducer(state, {
+      type: "syncCalendarEvents",
+      upserts: [createEvent("a", "Moved standup"), createEvent("c")],
+      removedEventIds: [createEvent("b").id],
+    })
+    expect(Object.keys(next.events).sort()).toEqual([createEvent("a").id, createEvent("c").id])
+    expect(next.events[createEvent("a").id].title).toBe("Moved standup")
+  })
+
+  it("setTimeGrid moves tasks outside the new hours back into the day", () => {
+    const state = createState({ schedules: { [DAY]: [createTask("early", 480), createTask("late", 18 * 60, 120)] } })
+    const next = scheduleReducer(state, {
+      type: "setTimeGrid",
+      timeGrid: { dayStartHour: 9, dayEndHour: 19, slotMinutes: 30 },
+    })
+    expect(next.timeGrid.dayStartHour).toBe(9)
+    expect(next.schedules[DAY]).toEqual([createTask("early", 540), createTask("late", 18 * 60, 60)])
+  })
+
+  it("setTimeGrid rejects hours that would stack more than MAX_TASKS_PER_SLOT tasks", () => {
+    const tasks = [createTask("a", 480), createTask("b", 480), createTask("c", 540), createTask("d", 540)]
+    expectRejected(createState({ schedules: { [DAY]: tasks } }), {
+      type: "setTimeGrid",
+      timeGrid: { dayStartHour: 9, dayEndHour: 20, slotMinutes: 30 },
+    })
+  })
+
+  it("replaceState returns the given state", () => {
+    const replacement = createState({ nextColorIndex: 7 })
+    expect(scheduleReducer(createState(), { type: "replaceState", state: replacement })).toBe(replacement)
+  })
+})
+
+describe("timer actions", () => {
+  it("startTimer adds a running entry", () => {
+    const next = scheduleReducer(createState({ schedules: { [DAY]: [createTask("t1", 540)] } }), {
+      type: "startTimer",
+      entryId: "e1",
+      projectId: "p1",
+      taskId: "t1",
+      at: "2024-10-21T09:00:00.000Z",
+    })
+    expect(next.timeEntries).toEqual({
+      e1: { id: "e1", projectId: "p1", taskId: "t1", startedAt: "2024-10-21T09:00:00.000Z" },
+    })
+    expect(selectRunningEntry(next.timeEntries)?.id).toBe("e1")
+  })
+
+  it("startTimer ends the running entry so only one timer runs", () => {
+    const running = scheduleReducer(createState(), {
+      type: "startTimer",
+      entryId: "e1",
+      projectId: "p1",
+      at: "2024-10-21T09:00:00.000Z",
+    })
+    const next = scheduleReducer(running, {
+      type: "startTimer",
+      entryId: "e2",
+      projectId: "p2",
+      at: "2024-10-21T09:25:00.000Z",
+    })
+    expect(next.timeEntries.e1.endedAt).toBe("2024-10-21T09:25:00.000Z")
+    expect(Object.values(next.timeEntries).filter((entry) => !entry.endedAt)).toEqual([next.timeEntries.e2])
+  })
+
+  it("startTimer rejects an unknown project", () => {
+    expectRejected(createState(), { type: "startTimer", entryId: "e1", projectId: "missing", at: "2024-10-21T09:00:00Z" })
+  })
+
+  it("stopTimer ends the running entry and does nothing without one", () => {
+    const running = scheduleReducer(createState(), {
+      type: "startTimer",
+      entryId: "e1",
+      projectId: "p1",
+      at: "2024-10-21T09:00:00.000Z",
+    })
+    const stopped = scheduleReducer(running, { type: "stopTimer", at: "2024-10-21T10:00:00.000Z" })
+    expect(stopped.timeEntries.e1.endedAt).toBe("2024-10-21T10:00:00.000Z")
+    expect(selectRunningEntry(stopped.timeEntries)).toBeNull()
+    expect(scheduleReducer(stopped, { type: "stopTimer", at: "2024-10-21T11:00:00.000Z" }).timeEntries).toBe(
+      stopped.timeEntries,
+    )
+  })
+
+  it("stay out of the undo history, so undoing other edits keeps the timer", () => {
+    // 与 useUndoableReducer 分派动作的方式相同 (The same way useUndoableReducer dispatches actions)
+    const dispatch = (history: History<ScheduleState>, action: ScheduleAction) =>
+      isOutsideHistory(action)
+        ? applyToAllSteps(history, (state) => scheduleReducer(state, action))
+        : recordChange(history, scheduleReducer(history.present, action))
+
+    let history = dispatch(createHistory(createState()), { type: "renameProject", projectId: "p1", name: "Renamed" })
+    history = dispatch(history, { type: "startTimer", entryId: "e1", projectId: "p1", at: "2024-10-21T09:00:00.000Z" })
+    history = dispatch(history, { type: "stopTimer", at: "2024-10-21T10:00:00.000Z" })
+    expect(history.past).toHaveLength(1)
+
+    const undone = undo(history)
+    expect(undone.present.projects.byId.p1.name).toBe("Project p1")
+    expect(undone.present.timeEntries.e1.endedAt).toBe("2024-10-21T10:00:00.000Z")
+    expect(redo(undone).present.timeEntries).toEqual(history.present.timeEntries)
+  })
+})
@@ -0,0 +1,427 @@
+// lib/schedule-domain.ts
+// 日程的业务规则：纯函数的 reducer，不依赖 React 或浏览器。
+// The schedule's business rules as a pure reducer, independent of React and the browser.
+// IDs are created by the caller and passed in the actions, so the same action always gives the same result.
+import type {
+  CalendarEvent,
+  CalendarEventsById,
+  Project,
+  ProjectDetails,
+  ProjectsState,
+  ScheduledTask,
+  SchedulesByDate,
+  SubTask,
+  TimeEntriesById,
+  TimeEntry,
+  TimeGridSettings,
+} from "@/types/schedule"
+import { APP_VERSION, type PersistedScheduleData } from "@/lib/migration"
+import { selectProjectList } from "@/lib/selectors"
+import { PROJECT_COLORS, getInitialProjects } from "@/lib/schedule-data"
+import { addProject, createProjectsState, removeProject, reorderProjects, updateProject } from "@/lib/project-store"
+import { DEFAULT_TIME_GRID_SETTINGS, clampToDay } from "@/lib/time-grid"
+import { isDateKey } from "@/lib/date-utils"
+import { stopRunningEntries } from "@/lib/time-tracking"
+import { DEFAULT_TASK_DURATION_MINUTES, canPlaceTask, sortByStartTime } from "@/lib/task-layout"
+
+export const MAX_TASKS_PER_SLOT = 3 // 同一时间最多可以重叠的任务数 (Maximum number of tasks overlapping at any moment)
+
+export interface ScheduleState {
+  projects: ProjectsState
+  schedules: SchedulesByDate
+  events: CalendarEventsById // 外部日历的事件，不占用时间段 (External calendar events, they take no slot)
+  timeEntries: TimeEntriesById
+  timeGrid: TimeGridSettings
+  nextColorIndex: number
+}
+
+// 带有时长的新时间块，例如自动安排的结果 (A new block with its own duration, e.g. from auto-planning)
+export interface ScheduledBlock {
+  taskId: string
+  projectId: string
+  startMinutes: number
+  durationMinutes: number
+}
+
+export type ScheduleAction =
+  | { type: "addProject"; projectId: string }
+  | { type: "removeProject"; projectId: string }
+  | { type: "renameProject"; projectId: string; name: string }
+  // 值为 undefined 的字段会被清除 (Fields given as undefined are cleared)
+  | { type: "updateProjectDetails"; projectId: string; details: Partial<ProjectDetails> }
+  | { type: "reorderProjects"; activeId: string; overId: string }
+  | { type: "addSubTask"; projectId: string; subTaskId: string }
+  | { type: "editSubTaskText"; projectId: string; subTaskId: string; text: string }
+  | { type: "toggleSubTask"; projectId: string; subTaskId: string }
+  | { type: "removeSubTask"; projectId: string; subTaskId: string }
+  | {
+      type: "scheduleProject"
+      taskId: string
+      projectId: string
+      dateKey: string
+      startMinutes: number
+      subTaskIds?: string[]
+    }
+  // 一次安排多个时间块，作为一个撤销步骤 (Schedules several blocks at once, as one undo step)
+  | { type: "scheduleBlocks"; dateKey: string; blocks: ScheduledBlock[] }
+  | { type: "moveTask"; taskId: string; fromDate: string; toDate: string; startMinutes: number }
+  | { type: "resizeTask"; taskId: string; dateKey: string; durationMinutes: number }
+  | { type: "deleteTask"; taskId: string; dateKey: string }
+  // 导入的事件替换同ID的事件 (Imported events replace the events with the same ID)
+  | {
+      type: "syncCalendarEvents"
+      upserts: CalendarEvent[]
+      removedEventIds: string[] // 在日历中删除或移走的事件 (Events deleted or moved away in the calendar)
+    }
+  | { type: "setTimeGrid"; timeGrid: TimeGridSettings }
+  // 开始计时会结束正在运行的计时器；时间是 ISO 8601 时间戳
+  // (Starting a timer ends the running one; times are ISO 8601 timestamps)
+  | { type: "startTimer"; entryId: string; projectId: string; taskId?: string; at: string }
+  | { type: "stopTimer"; at: string }
+  | { type: "replaceState"; state: ScheduleState }
+
+export const createInitialScheduleState = (): ScheduleState => ({
+  projects: createProjectsState(getInitialProjects()),
+  schedules: {},
+  events: {},
+  timeEntries: {},
+  timeGrid: DEFAULT_TIME_GRID_SETTINGS,
+  nextColorIndex: getInitialProjects().length % PROJECT_COLORS.length,
+})
+
+export const createScheduleState = (data: PersistedScheduleData): ScheduleState => ({
+  projects: createProjectsState(data.projects),
+  schedules: data.schedules,
+  events: Object.fromEntries(data.events.map((event) => [event.id, event])),
+  timeEntries: Object.fromEntries(data.timeEntries.map((entry) => [entry.id, entry])),
+  timeGrid: data.timeGrid,
+  nextColorIndex: data.nextColorIndex,
+})
+
+export const toPersistedScheduleData = (state: ScheduleState): PersistedScheduleData => ({
+  version: APP_VERSION,
+  projects: selectProjectList(state.projects),
+  schedules: state.schedules,
+  events: Object.values(state.events),
+  timeEntries: Object.values(state.timeEntries),
+  nextColorIndex: state.nextColorIndex,
+  timeGrid: state.timeGrid,
+})
+
+const getDayTasks = (state: ScheduleState, dateKey: string): ScheduledTask[] => state.schedules[dateKey] || []
+
+const setDayTasks = (schedules: SchedulesByDate, dateKey: string, tasks: ScheduledTask[]): SchedulesByDate => ({
+  ...schedules,
+  [dateKey]: sortByStartTime(tasks),
+})
+
+// 对所有日期的已安排任务应用同一个更新 (Apply the same update to the scheduled tasks of every date)
+const mapAllScheduledTasks = (
+  schedules: SchedulesByDate,
+  updateDayTasks: (tasks: ScheduledTask[]) => ScheduledTask[],
+): SchedulesByDate => {
+  const newSchedules: SchedulesByDate = {}
+  for (const dateKey in schedules) {
+    newSchedules[dateKey] = updateDayTasks(schedules[dateKey])
+  }
+  return newSchedules
+}
+
+// 把超出时间范围的任务移回一天之内 (Moves tasks outside the day's hours back into the day)
+const fitTasksToGrid = (schedules: SchedulesByDate, timeGrid: TimeGridSettings) =>
+  mapAllScheduledTasks(schedules, (tasks) =>
+    tasks.map((task) => ({ ...task, ...clampToDay(task.startMinutes, task.durationMinutes, timeGrid) })),
+  )
+
+const updateSubTasks = (state: ScheduleState, projectId: string, update: (subTasks: SubTask[]) => SubTask[]) =>
+  updateProject(state.projects, projectId, (project) => ({ ...project, subTasks: update(project.subTasks) }))
+
+// 从选择了这个子任务的时间块中移除它 (Drop a sub-task from the blocks that picked it)
+const removeSubTaskFromBlocks = (task: ScheduledTask, projectId: string, subTaskId: string): ScheduledTask => {
+  if (task.projectId !== projectId || !task.subTaskIds?.includes(subTaskId)) return task
+  const { subTaskIds, ...rest } = task
+  const remaining = subTaskIds.filter((id) => id !== subTaskId)
+  return remaining.length > 0 ? { ...rest, subTaskIds: remaining } : rest
+}
+
+// 空的值表示清除这个字段 (An empty value clears the field)
+const setProjectDetails = (project: Project, details: Partial<ProjectDetails>): Project => {
+  const updated = { ...project, ...details }
+  ;(Object.keys(details) as (keyof ProjectDetails)[]).forEach((field) => {
+    if (updated[field] === undefined || updated[field] === "") delete updated[field]
+  })
+  return updated
+}
+
+// 只保留满足条件的计时记录 (Keeps only the time entries that pass the check)
+const filterTimeEntries = (entries: TimeEntriesById, keep: (entry: TimeEntry) => boolean): TimeEntriesById =>
+  Object.fromEntries(Object.entries(entries).filter(([, entry]) => keep(entry)))
+
+// 删除时间块后它的计时记录计入整个项目 (After a block is deleted its time entries count for the whole project)
+const detachTimeEntries = (entries: TimeEntriesById, taskId: string): TimeEntriesById => {
+  if (!Object.values(entries).some((entry) => entry.taskId === taskId)) return entries
+  return Object.fromEntries(
+    Object.entries(entries).map(([id, entry]) => {
+      if (entry.taskId !== taskId) return [id, entry]
+      const { taskId: _removed, ...rest } = entry
+      return [id, rest]
+    }),
+  )
+}
+
+// 新任务默认一小时，并移到一天之内 (New tasks default to an hour, moved inside the day)
+export const fitNewTask = (state: ScheduleState, startMinutes: number) =>
+  clampToDay(startMinutes, DEFAULT_TASK_DURATION_MINUTES, state.timeGrid)
+
+const toScheduledTask = (state: ScheduleState, block: ScheduledBlock): ScheduledTask => ({
+  id: block.taskId,
+  projectId: block.projectId,
+  ...clampToDay(block.startMinutes, block.durationMinutes, state.timeGrid),
+})
+
+// 返回动作违反的规则，可以执行时返回 null (Returns the rule an action breaks, or null when it can be applied)
+export const getActionError = (state: ScheduleState, action: ScheduleAction): string | null => {
+  switch (action.type) {
+    case "scheduleProject": {
+      const fitted = fitNewTask(state, action.startMinutes)
+      const dayTasks = getDayTasks(state, action.dateKey)
+      if (!canPlaceTask(dayTasks, fitted.startMinutes, fitted.durationMinutes, MAX_TASKS_PER_SLOT)) {
+        return `Time slot is full. Cannot have more than ${MAX_TASKS_PER_SLOT} tasks at the same time.`
+      }
+      return null
+    }
+    case "updateProjectDetails": {
+      const { dueDate, estimatedHours } = action.details
+      if (dueDate && !isDateKey(dueDate)) return "Due date must be a valid date."
+      if (estimatedHours !== undefined && !(estimatedHours >= 0)) return "Estimated hours can't be negative."
+      return null
+    }
+    case "scheduleBlocks": {
+      // 每个时间块都要和前面的一起检查 (Each block is checked together with the ones before it)
+      const dayTasks = [...getDayTasks(state, action.dateKey)]
+      for (const block of action.blocks) {
+        const task = toScheduledTask(state, block)
+        if (!canPlaceTask(dayTasks, task.startMinutes, task.durationMinutes, MAX_TASKS_PER_SLOT)) {
+          return `Time slot is full. Cannot have more than ${MAX_TASKS_PER_SLOT} tasks at the same time.`
+        }
+        dayTasks.push(task)
+      }
+      return null
+    }
+    case "startTimer":
+      return state.projects.byId[action.projectId] ? null : "Project not found."
+    case "moveTask": {
+      const task = getDayTasks(state, action.fromDate).find((t) => t.id === action.taskId)
+      if (!task) return "Task not found."
+      // 移动时保留时长 (Keep the duration when moving)
+      const fitted = clampToDay(action.startMinutes, task.durationMinutes, state.timeGrid)
+      const targetTasks = getDayTasks(state, action.toDate)
+      if (!canPlaceTask(targetTasks, fitted.startMinutes, fitted.durationMinutes, MAX_TASKS_PER_SLOT, task.id)) {
+        return "Target time is full. Cannot move task here."
+      }
+      return null
+    }
+    case "resizeTask": {
+      const dayTasks = getDayTasks(state, action.dateKey)
+      const task = dayTasks.find((t) => t.id === action.taskId)
+      if (!task) return "Task not found."
+      const fitted = clampToDay(task.startMinutes, action.durationMinutes, state.timeGrid)
+      if (!canPlaceTask(dayTasks, fitted.startMinutes, fitted.durationMinutes, MAX_TASKS_PER_SLOT, task.id)) {
+        return `Cannot extend this task: more than ${MAX_TASKS_PER_SLOT} tasks would overlap.`
+      }
+      return null
+    }
+    case "setTimeGrid": {
+      // 移回一天之内的任务不能超过容量 (Tasks moved back into the day can't go over the capacity)
+      const fittedSchedules = fitTasksToGrid(state.schedules, action.timeGrid)
+      for (const dateKey in fittedSchedules) {
+        const tasks = fittedSchedules[dateKey]
+        const isOverCapacity = tasks.some((task, index) => {
+          const before = state.schedules[dateKey][index]
+          if (task.startMinutes === before.startMinutes && task.durationMinutes === before.durationMinutes) return false
+          return !canPlaceTask(tasks, task.startMinutes, task.durationMinutes, MAX_TASKS_PER_SLOT, task.id)
+        })
+        if (isOverCapacity) {
+          return `Cannot change the hours: more than ${MAX_TASKS_PER_SLOT} tasks would overlap on ${dateKey}.`
+        }
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+// 违反规则的动作不改变状态 (Actions that break a rule leave the state unchanged)
+export const scheduleReducer = (state: ScheduleState, action: ScheduleAction): ScheduleState => {
+  if (getActionError(state, action)) return state
+
+  switch (action.type) {
+    case "addProject": {
+      const newProject: Project = {
+        id: action.projectId,
+        name: "New Project",
+        subTasks: [],
+        color: PROJECT_COLORS[state.nextColorIndex % PROJECT_COLORS.length],
+      }
+      return { ...state, projects: addProject(state.projects, newProject), nextColorIndex: state.nextColorIndex + 1 }
+    }
+    case "removeProject":
+      // 删除项目时一起删除它的已安排任务 (Removing a project also removes its scheduled tasks)
+      return {
+        ...state,
+        projects: removeProject(state.projects, action.projectId),
+        schedules: mapAllScheduledTasks(state.schedules, (tasks) =>
+          tasks.filter((task) => task.projectId !== action.projectId),
+        ),
+        timeEntries: filterTimeEntries(state.timeEntries, (entry) => entry.projectId !== action.projectId),
+      }
+    case "renameProject":
+      return {
+        ...state,
+        projects: updateProject(state.projects, action.projectId, (project) => ({ ...project, name: action.name })),
+      }
+    case "updateProjectDetails":
+      return {
+        ...state,
+        projects: updateProject(state.projects, action.projectId, (project) =>
+          setProjectDetails(project, action.details),
+        ),
+      }
+    case "reorderProjects": {
+      const { allIds } = state.projects
+      const from = allIds.indexOf(action.activeId)
+      const to = allIds.indexOf(action.overId)
+      if (from === -1 || to === -1 || from === to) return state
+      const reordered = allIds.filter((id) => id !== action.activeId)
+      reordered.splice(to, 0, action.activeId)
+      return { ...state, projects: reorderProjects(state.projects, reordered) }
+    }
+    case "addSubTask": {
+      const newSubTask: SubTask = { id: action.subTaskId, text: "New Sub-task", completed: false }
+      return { ...state, projects: updateSubTasks(state, action.projectId, (subTasks) => [...subTasks, newSubTask]) }
+    }
+    case "editSubTaskText":
+      return {
+        ...state,
+        projects: updateSubTasks(state, action.projectId, (subTasks) =>
+          subTasks.map((st) => (st.id === action.subTaskId ? { ...st, text: action.text } : st)),
+        ),
+      }
+    case "toggleSubTask":
+      return {
+        ...state,
+        projects: updateSubTasks(state, action.projectId, (subTasks) =>
+          subTasks.map((st) => (st.id === action.subTaskId ? { ...st, completed: !st.completed } : st)),
+        ),
+      }
+    case "removeSubTask":
+      return {
+        ...state,
+        projects: updateSubTasks(state, action.projectId, (subTasks) =>
+          subTasks.filter((st) => st.id !== action.subTaskId),
+        ),
+        schedules: mapAllScheduledTasks(state.schedules, (tasks) =>
+          tasks.map((task) => removeSubTaskFromBlocks(task, action.projectId, action.subTaskId)),
+        ),
+      }
+    case "scheduleProject": {
+      const newTask: ScheduledTask = {
+        id: action.taskId,
+        projectId: action.projectId,
+        ...(action.subTaskIds?.length ? { subTaskIds: action.subTaskIds } : {}),
+        ...fitNewTask(state, action.startMinutes),
+      }
+      const dayTasks = getDayTasks(state, action.dateKey)
+      return { ...state, schedules: setDayTasks(state.schedules, action.dateKey, [...dayTasks, newTask]) }
+    }
+    case "scheduleBlocks": {
+      const newTasks = action.blocks.map((block) => toScheduledTask(state, block))
+      const dayTasks = getDayTasks(state, action.dateKey)
+      return { ...state, schedules: setDayTasks(state.schedules, action.dateKey, [...dayTasks, ...newTasks]) }
+    }
+    case "moveTask": {
+      const task = getDayTasks(state, action.fromDate).find((t) => t.id === action.taskId)!
+      if (action.fromDate === action.toDate && task.startMinutes === action.startMinutes) return state
+      const fitted = clampToDay(action.startMinutes, task.durationMinutes, state.timeGrid)
+      // 可以在同一天内或跨天移动 (Tasks can move within a day or across days)
+      const withoutTask = setDayTasks(
+        state.schedules,
+        action.fromDate,
+        getDayTasks(state, action.fromDate).filter((t) => t.id !== task.id),
+      )
+      return {
+        ...state,
+        schedules: setDayTasks(withoutTask, action.toDate, [
+          ...(withoutTask[action.toDate] || []),
+          { ...task, ...fitted },
+        ]),
+      }
+    }
+    case "resizeTask": {
+      const resize = (task: ScheduledTask) => ({
+        ...task,
+        ...clampToDay(task.startMinutes, action.durationMinutes, state.timeGrid),
+      })
+      const dayTasks = getDayTasks(state, action.dateKey)
+      return {
+        ...state,
+        schedules: setDayTasks(
+          state.schedules,
+          action.dateKey,
+          dayTasks.map((t) => (t.id === action.taskId ? resize(t) : t)),
+        ),
+      }
+    }
+    case "deleteTask":
+      return {
+        ...state,
+        schedules: setDayTasks(
+          state.schedules,
+          action.dateKey,
+          getDayTasks(state, action.dateKey).filter((t) => t.id !== action.taskId),
+        ),
+        timeEntries: detachTimeEntries(state.timeEntries, action.taskId),
+      }
+    case "syncCalendarEvents": {
+      const events = { ...state.events }
+      action.removedEventIds.forEach((eventId) => delete events[eventId])
+      action.upserts.forEach((event) => {
+        events[event.id] = event
+      })
+      return { ...state, events }
+    }
+    case "setTimeGrid":
+      return { ...state, timeGrid: action.timeGrid, schedules: fitTasksToGrid(state.schedules, action.timeGrid) }
+    case "startTimer": {
+      const entry: TimeEntry = {
+        id: action.entryId,
+        projectId: action.projectId,
+        ...(action.taskId ? { taskId: action.taskId } : {}),
+        startedAt: action.at,
+      }
+      return { ...state, timeEntries: { ...stopRunningEntries(state.timeEntries, action.at), [entry.id]: entry } }
+    }
+    case "stopTimer":
+      return { ...state, timeEntries: stopRunningEntries(state.timeEntries, action.at) }
+    case "replaceState":
+      return action.state
+  }
+}
+
+// 计时器记录实际发生的事情，不能撤销 (The timer records what really happened, so it can't be undone)
+export const isOutsideHistory = (action: ScheduleAction) => action.type === "startTimer" || action.type === "stopTimer"
+
+// 快速连续修改同一个文本字段合并为一个撤销步骤 (Rapid edits of the same text field merge into one undo step)
+export const getHistoryGroupKey = (action: ScheduleAction): string | undefined => {
+  switch (action.type) {
+    case "renameProject":
+      return `name:${action.projectId}`
+    case "updateProjectDetails":
+      return `details:${action.projectId}:${Object.keys(action.details).join(",")}`
+    case "editSubTaskText":
+      return `sub-task:${action.subTaskId}`
+    default:
+      return undefined
+  }
+}
@@ -0,0 +1,70 @@
+// lib/selectors.ts
+// 从规范化的状态中读取显示用的数据。
+// Selectors that read display data out of the normalized state.
+import type {
+  DeadlineStatus,
+  Project,
+  ProjectsState,
+  ScheduledTask,
+  ScheduledTaskView,
+  SchedulesByDate,
+  SubTask,
+  SubTaskProgress,
+  TrackedTime,
+} from "@/types/schedule"
+import { NO_TRACKED_TIME } from "@/lib/time-tracking"
+
+const UNKNOWN_PROJECT_COLOR = "bg-gray-500 text-white"
+
+export const selectProjectList = (projects: ProjectsState): Project[] =>
+  projects.allIds.map((id) => projects.byId[id]).filter((project): project is Project => Boolean(project))
+
+export const selectSubTaskProgress = (subTasks: SubTask[]): SubTaskProgress => ({
+  completed: subTasks.filter((subTask) => subTask.completed).length,
+  total: subTasks.length,
+})
+
+// 截止日期当天及之前安排的时间都算数，没有截止日期或预计时间时返回 null
+// (Time scheduled on or before the due date counts; null without a due date or an estimate)
+export const selectDeadlineStatus = (project: Project, schedules: SchedulesByDate): DeadlineStatus | null => {
+  if (!project.dueDate || project.estimatedHours === undefined) return null
+  let scheduledMinutes = 0
+  for (const dateKey in schedules) {
+    if (dateKey > project.dueDate) continue
+    schedules[dateKey].forEach((task) => {
+      if (task.projectId === project.id) scheduledMinutes += task.durationMinutes
+    })
+  }
+  const estimatedMinutes = Math.round(project.estimatedHours * 60)
+  return { scheduledMinutes, estimatedMinutes, isShort: scheduledMinutes < estimatedMinutes }
+}
+
+// 没有选择子任务的时间块显示项目的全部子任务 (Blocks without picked sub-tasks show all of the project's sub-tasks)
+const selectBlockSubTasks = (project: Project | undefined, task: ScheduledTask): SubTask[] => {
+  const subTasks = project?.subTasks || []
+  if (!task.subTaskIds?.length) return subTasks
+  return subTasks.filter((subTask) => task.subTaskIds!.includes(subTask.id))
+}
+
+// trackedByTask 来自 selectTrackedTime (trackedByTask comes from selectTrackedTime)
+export const selectScheduledTaskView = (
+  projects: ProjectsState,
+  task: ScheduledTask,
+  trackedByTask: Record<string, TrackedTime> = {},
+): ScheduledTaskView => {
+  const project = projects.byId[task.projectId]
+  return {
+    ...task,
+    displayName: task.title || project?.name || "Unknown Project",
+    color: project?.color || UNKNOWN_PROJECT_COLOR,
+    subTasks: selectBlockSubTasks(project, task),
+    projectProgress: selectSubTaskProgress(project?.subTasks || []),
+    tracked: trackedByTask[task.id] ?? NO_TRACKED_TIME,
+  }
+}
+
+export const selectScheduledTaskViews = (
+  projects: ProjectsState,
+  tasks: ScheduledTask[],
+  trackedByTask: Record<string, TrackedTime> = {},
+): ScheduledTaskView[] => tasks.map((task) => selectScheduledTaskView(projects, task, trackedByTask))
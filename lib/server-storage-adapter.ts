@@ -0,0 +1,23 @@
+// lib/server-storage-adapter.ts
+// 登录后使用的存储实现，通过服务器操作把数据保存在服务器上，这样不同的设备显示相同的日程。
+// The storage implementation used when signed in. It saves through server actions, so every device shows the same plan.
+import type { StorageAdapter } from "@/lib/storage-adapter"
+import {
+  clearProfile,
+  createProfile,
+  getActiveProfileId,
+  listProfiles,
+  loadProfile,
+  saveChanges,
+  setActiveProfileId,
+} from "@/lib/storage-actions"
+
+export const createServerStorageAdapter = (): StorageAdapter => ({
+  listProfiles: () => listProfiles(),
+  createProfile: (name) => createProfile(name),
+  getActiveProfileId: () => getActiveProfileId(),
+  setActiveProfileId: (profileId) => setActiveProfileId(profileId),
+  loadProfile: (profileId) => loadProfile(profileId),
+  saveChanges: (profileId, changes) => saveChanges(profileId, changes),
+  clearProfile: (profileId) => clearProfile(profileId),
+})
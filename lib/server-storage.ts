@@ -0,0 +1,271 @@
+// lib/server-storage.ts
+// 服务器端的 SQLite 存储，按登录用户保存配置文件和日程。只能在服务器上使用。
+// Server-side SQLite storage that keeps profiles and schedules per signed-in user. Server only.
+import Database from "better-sqlite3"
+import { randomBytes } from "node:crypto"
+import fs from "node:fs"
+import path from "node:path"
+import { migrateData } from "@/lib/migration"
+import { createScheduleState, toPersistedScheduleData, type ScheduleState } from "@/lib/schedule-domain"
+import {
+  getStorageChanges,
+  type StorageChanges,
+  type StorageProfile,
+  type StoredProfileMeta,
+} from "@/lib/storage-adapter"
+import { mergeOperations, type FieldClocks, type SyncOperation } from "@/lib/sync-operations"
+
+// 数据库文件的位置可以用环境变量修改 (The database file location can be changed with an environment variable)
+const DB_PATH = process.env.SCHEDULE_DB_PATH || path.join(process.cwd(), "data", "schedule.db")
+
+// 开发模式下热更新时复用同一个连接 (Reuse the same connection across hot reloads in development)
+const globalForDb = globalThis as unknown as { scheduleDb?: Database.Database }
+
+const openDatabase = () => {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true })
+  const db = new Database(DB_PATH)
+  db.pragma("journal_mode = WAL")
+  db.pragma("foreign_keys = ON")
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS profiles (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS profiles_user_id ON profiles (user_id);
+    CREATE TABLE IF NOT EXISTS user_settings (
+      user_id TEXT PRIMARY KEY,
+      active_profile_id TEXT
+    );
+    CREATE TABLE IF NOT EXISTS profile_meta (
+      profile_id TEXT PRIMARY KEY REFERENCES profiles (id) ON DELETE CASCADE,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS profile_days (
+      profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+      date_key TEXT NOT NULL,
+      tasks TEXT NOT NULL,
+      PRIMARY KEY (profile_id, date_key)
+    );
+    CREATE TABLE IF NOT EXISTS field_clocks (
+      profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+      entity TEXT NOT NULL,
+      field TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      device_id TEXT NOT NULL,
+      received_at INTEGER NOT NULL,
+      PRIMARY KEY (profile_id, entity, field)
+    );
+    CREATE TABLE IF NOT EXISTS feed_tokens (
+      user_id TEXT PRIMARY KEY,
+      token TEXT NOT NULL UNIQUE,
+      profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+      time_zone TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `)
+  return db
+}
+
+const getDatabase = () => (globalForDb.scheduleDb ??= openDatabase())
+
+// 用户只能访问自己的配置文件 (Users can only access their own profiles)
+const assertProfileOwner = (db: Database.Database, userId: string, profileId: string) => {
+  const row = db.prepare("SELECT 1 FROM profiles WHERE id = ? AND user_id = ?").get(profileId, userId)
+  if (!row) throw new Error("Profile not found")
+}
+
+export const listUserProfiles = (userId: string): StorageProfile[] =>
+  getDatabase()
+    .prepare("SELECT id, name FROM profiles WHERE user_id = ? ORDER BY created_at, rowid")
+    .all(userId) as StorageProfile[]
+
+export const createUserProfile = (userId: string, name: string): StorageProfile => {
+  const profile = { id: crypto.randomUUID(), name }
+  getDatabase()
+    .prepare("INSERT INTO profiles (id, user_id, name, created_at) VALUES (?, ?, ?, ?)")
+    .run(profile.id, userId, name, Date.now())
+  return profile
+}
+
+export const getUserActiveProfileId = (userId: string): string | null => {
+  const row = getDatabase().prepare("SELECT active_profile_id FROM user_settings WHERE user_id = ?").get(userId) as
+    | { active_profile_id: string | null }
+    | undefined
+  return row?.active_profile_id ?? null
+}
+
+export const setUserActiveProfileId = (userId: string, profileId: string) => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  db.prepare(
+    "INSERT INTO user_settings (user_id, active_profile_id) VALUES (?, ?) " +
+      "ON CONFLICT (user_id) DO UPDATE SET active_profile_id = excluded.active_profile_id",
+  ).run(userId, profileId)
+}
+
+// 返回与浏览器存储相同结构的原始数据 (Returns the raw data in the same shape as the browser storage)
+export const loadUserProfile = (userId: string, profileId: string): unknown | null => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  const meta = db.prepare("SELECT data FROM profile_meta WHERE profile_id = ?").get(profileId) as
+    | { data: string }
+    | undefined
+  if (!meta) return null
+  const days = db.prepare("SELECT date_key, tasks FROM profile_days WHERE profile_id = ?").all(profileId) as {
+    date_key: string
+    tasks: string
+  }[]
+  return {
+    ...(JSON.parse(meta.data) as StoredProfileMeta),
+    schedules: Object.fromEntries(days.map((day) => [day.date_key, JSON.parse(day.tasks)])),
+  }
+}
+
+export const saveUserProfileChanges = (userId: string, profileId: string, changes: StorageChanges) => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  const putMeta = db.prepare(
+    "INSERT INTO profile_meta (profile_id, data) VALUES (?, ?) " +
+      "ON CONFLICT (profile_id) DO UPDATE SET data = excluded.data",
+  )
+  const putDay = db.prepare(
+    "INSERT INTO profile_days (profile_id, date_key, tasks) VALUES (?, ?, ?) " +
+      "ON CONFLICT (profile_id, date_key) DO UPDATE SET tasks = excluded.tasks",
+  )
+  const deleteDay = db.prepare("DELETE FROM profile_days WHERE profile_id = ? AND date_key = ?")
+
+  // 一次事务写入所有修改 (All changes are written in one transaction)
+  db.transaction(() => {
+    if (changes.meta) putMeta.run(profileId, JSON.stringify(changes.meta))
+    Object.entries(changes.days ?? {}).forEach(([dateKey, tasks]) => {
+      if (tasks) putDay.run(profileId, dateKey, JSON.stringify(tasks))
+      else deleteDay.run(profileId, dateKey)
+    })
+  })()
+}
+
+export const clearUserProfile = (userId: string, profileId: string) => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  db.transaction(() => {
+    db.prepare("DELETE FROM profile_meta WHERE profile_id = ?").run(profileId)
+    db.prepare("DELETE FROM profile_days WHERE profile_id = ?").run(profileId)
+    db.prepare("DELETE FROM field_clocks WHERE profile_id = ?").run(profileId)
+  })()
+}
+
+const loadFieldClocks = (db: Database.Database, profileId: string): FieldClocks => {
+  const rows = db
+    .prepare("SELECT entity, field, at, device_id, received_at FROM field_clocks WHERE profile_id = ?")
+    .all(profileId) as { entity: string; field: string; at: number; device_id: string; received_at: number }[]
+  const clocks: FieldClocks = {}
+  rows.forEach((row) => {
+    clocks[row.entity] = {
+      ...clocks[row.entity],
+      [row.field]: { at: row.at, deviceId: row.device_id, receivedAt: row.received_at },
+    }
+  })
+  return clocks
+}
+
+// 合并一个设备的操作并返回合并后的完整数据。since 是这个设备上次同步时服务器的时间。
+// 还没有数据时返回 null：初始状态由设备以重置操作发送，服务器不自己创建。
+// Merges one device's operations and returns the full merged data. since is the server time of that device's last sync.
+// Returns null while nothing is stored: a device sends the initial state as a reset, the server never creates one.
+export const syncUserProfile = (userId: string, profileId: string, operations: SyncOperation[], since: number) => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  const putClock = db.prepare(
+    "INSERT INTO field_clocks (profile_id, entity, field, at, device_id, received_at) VALUES (?, ?, ?, ?, ?, ?) " +
+      "ON CONFLICT (profile_id, entity, field) DO UPDATE SET " +
+      "at = excluded.at, device_id = excluded.device_id, received_at = excluded.received_at",
+  )
+  const deleteClock = db.prepare("DELETE FROM field_clocks WHERE profile_id = ? AND entity = ? AND field = ?")
+
+  return db.transaction(() => {
+    const raw = loadUserProfile(userId, profileId)
+    let stored: ScheduleState | null = null
+    let state: ScheduleState | null = null
+    if (raw) {
+      const { data, report } = migrateData(raw)
+      state = createScheduleState(data)
+      // 迁移过的数据重新完整保存 (Migrated data is saved again in full)
+      if (report.appliedSteps.length === 0) stored = state
+    }
+
+    const now = Date.now()
+    const clocks = loadFieldClocks(db, profileId)
+    const merged = mergeOperations(state, clocks, operations, since, now)
+    if (merged.state) {
+      const changes = getStorageChanges(stored, merged.state)
+      if (changes) saveUserProfileChanges(userId, profileId, changes)
+    }
+    // 重置之前的字段记录都不再有效 (The field records from before a reset no longer apply)
+    if (merged.isReset) db.prepare("DELETE FROM field_clocks WHERE profile_id = ?").run(profileId)
+    operations.forEach(({ entity, field }) => {
+      const clock = merged.clocks[entity]?.[field]
+      if (clock?.receivedAt === now) putClock.run(profileId, entity, field, clock.at, clock.deviceId, now)
+      // 恢复的项目或任务不再有删除记录 (A restored project or task no longer has a delete record)
+      if (!merged.isReset && clocks[entity]?.deleted && !merged.clocks[entity]?.deleted) {
+        deleteClock.run(profileId, entity, "deleted")
+      }
+    })
+
+    return {
+      data: merged.state ? toPersistedScheduleData(merged.state) : null,
+      conflicts: merged.conflicts,
+      syncedAt: now,
+    }
+  })()
+}
+
+// 日历订阅链接，每个用户一个 (A calendar subscription link, one per user)
+export interface CalendarFeed {
+  token: string
+  profileId: string // 订阅中显示的配置文件 (The profile shown in the subscription)
+}
+
+export const getUserCalendarFeed = (userId: string): CalendarFeed | null => {
+  const row = getDatabase().prepare("SELECT token, profile_id FROM feed_tokens WHERE user_id = ?").get(userId) as
+    | { token: string; profile_id: string }
+    | undefined
+  return row ? { token: row.token, profileId: row.profile_id } : null
+}
+
+// 新的链接替换旧的，旧链接随之失效。时间块按 timeZone 写入订阅
+// A new link replaces the old one, which stops working. Blocks are written to the feed in timeZone
+export const createUserCalendarFeed = (userId: string, profileId: string, timeZone: string): CalendarFeed => {
+  const db = getDatabase()
+  assertProfileOwner(db, userId, profileId)
+  const feed = { token: randomBytes(24).toString("base64url"), profileId }
+  db.prepare(
+    "INSERT INTO feed_tokens (user_id, token, profile_id, time_zone, created_at) VALUES (?, ?, ?, ?, ?) " +
+      "ON CONFLICT (user_id) DO UPDATE SET " +
+      "token = excluded.token, profile_id = excluded.profile_id, time_zone = excluded.time_zone, " +
+      "created_at = excluded.created_at",
+  ).run(userId, feed.token, profileId, timeZone, Date.now())
+  return feed
+}
+
+export const revokeUserCalendarFeed = (userId: string) => {
+  getDatabase().prepare("DELETE FROM feed_tokens WHERE user_id = ?").run(userId)
+}
+
+// 订阅的日历应用没有登录，只凭链接中的 token 读取 (Subscribed calendar apps aren't signed in, only the token counts)
+export const loadCalendarFeed = (token: string) => {
+  const db = getDatabase()
+  const row = db
+    .prepare(
+      "SELECT feed_tokens.user_id, feed_tokens.profile_id, feed_tokens.time_zone, profiles.name FROM feed_tokens " +
+        "JOIN profiles ON profiles.id = feed_tokens.profile_id WHERE feed_tokens.token = ?",
+    )
+    .get(token) as { user_id: string; profile_id: string; time_zone: string; name: string } | undefined
+  if (!row) return null
+  return {
+    profileName: row.name,
+    timeZone: row.time_zone,
+    data: loadUserProfile(row.user_id, row.profile_id),
+  }
+}
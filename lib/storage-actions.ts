@@ -0,0 +1,75 @@
+"use server"
+
+import { auth } from "@/lib/auth"
+import {
+  clearUserProfile,
+  createUserCalendarFeed,
+  createUserProfile,
+  getUserActiveProfileId,
+  getUserCalendarFeed,
+  listUserProfiles,
+  loadUserProfile,
+  revokeUserCalendarFeed,
+  saveUserProfileChanges,
+  setUserActiveProfileId,
+  syncUserProfile,
+} from "@/lib/server-storage"
+import type { StorageChanges } from "@/lib/storage-adapter"
+import type { SyncOperation } from "@/lib/sync-operations"
+import { isValidTimeZone } from "@/lib/time-zones"
+
+// 数据按 Google 账号的邮箱保存 (Data is stored per Google account email)
+async function getUserId() {
+  const session = await auth()
+
+  if (!session?.user?.email) {
+    throw new Error("Not authenticated")
+  }
+
+  return session.user.email
+}
+
+export async function listProfiles() {
+  return listUserProfiles(await getUserId())
+}
+
+export async function createProfile(name: string) {
+  return createUserProfile(await getUserId(), name)
+}
+
+export async function getActiveProfileId() {
+  return getUserActiveProfileId(await getUserId())
+}
+
+export async function setActiveProfileId(profileId: string) {
+  setUserActiveProfileId(await getUserId(), profileId)
+}
+
+export async function loadProfile(profileId: string) {
+  return loadUserProfile(await getUserId(), profileId)
+}
+
+export async function saveChanges(profileId: string, changes: StorageChanges) {
+  saveUserProfileChanges(await getUserId(), profileId, changes)
+}
+
+export async function clearProfile(profileId: string) {
+  clearUserProfile(await getUserId(), profileId)
+}
+
+export async function syncProfile(profileId: string, operations: SyncOperation[], since: number) {
+  return syncUserProfile(await getUserId(), profileId, operations, since)
+}
+
+export async function getCalendarFeed() {
+  return getUserCalendarFeed(await getUserId())
+}
+
+export async function createCalendarFeed(profileId: string, timeZone: string) {
+  if (!isValidTimeZone(timeZone)) throw new Error("Unknown time zone")
+  return createUserCalendarFeed(await getUserId(), profileId, timeZone)
+}
+
+export async function revokeCalendarFeed() {
+  revokeUserCalendarFeed(await getUserId())
+}
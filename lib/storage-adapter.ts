@@ -0,0 +1,115 @@
+// lib/storage-adapter.ts
+// 持久化存储的接口。数据按配置文件（例如"工作"、"个人"）分开保存，每天的日程是单独的记录。
+// The persistent storage interface. Data is kept per profile (e.g. "Work", "Personal"), with each day's schedule
+// stored as its own record so a change only rewrites what changed.
+import type { CalendarEvent, Project, ScheduleData, TimeEntry, TimeGridSettings } from "@/types/schedule"
+import type { ScheduleState } from "@/lib/schedule-domain"
+import { APP_VERSION } from "@/lib/migration"
+import { selectProjectList } from "@/lib/selectors"
+
+export interface StorageProfile {
+  id: string
+  name: string
+}
+
+// 除日程外的数据，作为一条记录保存 (Everything except the schedules, saved as one record)
+export interface StoredProfileMeta {
+  version: string
+  projects: Project[]
+  events: CalendarEvent[]
+  timeEntries: TimeEntry[]
+  nextColorIndex: number
+  timeGrid: TimeGridSettings
+}
+
+// 一次写入的增量修改；值为 null 的日期会被删除 (An incremental write; dates set to null are deleted)
+export interface StorageChanges {
+  meta?: StoredProfileMeta
+  days?: Record<string, ScheduleData | null>
+}
+
+export interface StorageAdapter {
+  listProfiles(): Promise<StorageProfile[]>
+  createProfile(name: string): Promise<StorageProfile>
+  getActiveProfileId(): Promise<string | null>
+  setActiveProfileId(profileId: string): Promise<void>
+  // 返回未经迁移的原始数据，没有数据时返回 null (Returns the raw, unmigrated data, or null when there is none)
+  loadProfile(profileId: string): Promise<unknown | null>
+  saveChanges(profileId: string, changes: StorageChanges): Promise<void>
+  clearProfile(profileId: string): Promise<void>
+}
+
+export const DEFAULT_PROFILE_NAME = "Personal"
+
+// 比较两个状态，只返回变化的部分；previous 为 null 时写入全部数据 (Diff two states and return only what changed; a null previous writes everything)
+export const getStorageChanges = (previous: ScheduleState | null, next: ScheduleState): StorageChanges | null => {
+  const changes: StorageChanges = {}
+  if (
+    !previous ||
+    previous.projects !== next.projects ||
+    previous.events !== next.events ||
+    previous.timeEntries !== next.timeEntries ||
+    previous.nextColorIndex !== next.nextColorIndex ||
+    previous.timeGrid !== next.timeGrid
+  ) {
+    changes.meta = {
+      version: APP_VERSION,
+      projects: selectProjectList(next.projects),
+      events: Object.values(next.events),
+      timeEntries: Object.values(next.timeEntries),
+      nextColorIndex: next.nextColorIndex,
+      timeGrid: next.timeGrid,
+    }
+  }
+
+  const days: Record<string, ScheduleData | null> = {}
+  const dateKeys = new Set([...Object.keys(previous?.schedules ?? {}), ...Object.keys(next.schedules)])
+  dateKeys.forEach((dateKey) => {
+    const daySchedule = next.schedules[dateKey]
+    if (previous?.schedules[dateKey] === daySchedule) return
+    // 空的日程直接删除 (Empty days are deleted)
+    days[dateKey] = daySchedule && daySchedule.length > 0 ? daySchedule : null
+  })
+  if (Object.keys(days).length > 0) changes.days = days
+
+  return changes.meta || changes.days ? changes : null
+}
+
+// 没有 IndexedDB 时（例如服务器渲染）使用的内存存储 (In-memory storage used where IndexedDB is unavailable, e.g. server rendering)
+export const createMemoryStorageAdapter = (): StorageAdapter => {
+  const profiles: StorageProfile[] = []
+  const metas = new Map<string, StoredProfileMeta>()
+  const days = new Map<string, Map<string, ScheduleData>>()
+  let activeProfileId: string | null = null
+
+  return {
+    listProfiles: async () => [...profiles],
+    createProfile: async (name) => {
+      const profile = { id: crypto.randomUUID(), name }
+      profiles.push(profile)
+      return profile
+    },
+    getActiveProfileId: async () => activeProfileId,
+    setActiveProfileId: async (profileId) => {
+      activeProfileId = profileId
+    },
+    loadProfile: async (profileId) => {
+      const meta = metas.get(profileId)
+      if (!meta) return null
+      return { ...meta, schedules: Object.fromEntries(days.get(profileId) ?? []) }
+    },
+    saveChanges: async (profileId, changes) => {
+      if (changes.meta) metas.set(profileId, changes.meta)
+      const profileDays = days.get(profileId) ?? new Map<string, ScheduleData>()
+      Object.entries(changes.days ?? {}).forEach(([dateKey, daySchedule]) => {
+        if (daySchedule) profileDays.set(dateKey, daySchedule)
+        else profileDays.delete(dateKey)
+      })
+      days.set(profileId, profileDays)
+    },
+    clearProfile: async (profileId) => {
+      metas.delete(profileId)
+      days.delete(profileId)
+    },
+  }
+}
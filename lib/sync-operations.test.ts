@@ -0,0 +1,212 @@
+// lib/sync-operations.test.ts
+// 操作日志的测试：两台设备之间按字段合并、删除与恢复、重新连接后重放队列、冲突，以及重置操作。
+// Tests for the operation log: per-field merges between two devices, deleting and restoring, replaying a queue after
+// reconnecting, conflicts, and the reset operation.
+import { describe, expect, it } from "vitest"
+import type { Project, ScheduledTask } from "@/types/schedule"
+import type { ScheduleState } from "@/lib/schedule-domain"
+import { createProjectsState } from "@/lib/project-store"
+import {
+  applyChanges,
+  createResetChange,
+  diffStates,
+  mergeOperations,
+  type SyncChange,
+  type SyncOperation,
+} from "@/lib/sync-operations"
+
+const createState = (projects: Project[], tasks: ScheduledTask[] = []): ScheduleState => ({
+  projects: createProjectsState(projects),
+  schedules: tasks.length > 0 ? { "2024-10-21": tasks } : {},
+  events: {},
+  timeEntries: {},
+  timeGrid: { dayStartHour: 8, dayEndHour: 20, slotMinutes: 30 },
+  nextColorIndex: projects.length,
+})
+
+const OLD_STATE = createState([{ id: "old", name: "Old", color: "bg-blue-500 text-white", subTasks: [] }])
+const CLEARED_STATE = createState([{ id: "fresh", name: "Fresh", color: "bg-green-500 text-white", subTasks: [] }])
+
+const toOperation = (change: SyncChange, at: number, deviceId = "device-a"): SyncOperation => ({
+  ...change,
+  id: `${change.entity}/${change.field}@${at}`,
+  at,
+  deviceId,
+})
+
+const rename = (projectId: string, name: string, at: number, deviceId?: string) =>
+  toOperation({ entity: `project:${projectId}`, field: "name", value: name }, at, deviceId)
+
+// 一台设备从 previous 改到 next 后排队的操作 (The operations a device queues after editing previous into next)
+const toOperations = (previous: ScheduleState, next: ScheduleState, at: number, deviceId?: string) =>
+  diffStates(previous, next).map((change) => toOperation(change, at, deviceId))
+
+const PROJECT: Project = {
+  id: "p",
+  name: "Thesis",
+  color: "bg-blue-500 text-white",
+  subTasks: [{ id: "s1", text: "Outline", completed: false }],
+}
+const TASK: ScheduledTask = { id: "t", projectId: "p", startMinutes: 540, durationMinutes: 60 }
+const SHARED_STATE = createState([PROJECT], [TASK])
+
+const editProject = (state: ScheduleState, changes: Partial<Project>) =>
+  createState([{ ...state.projects.byId.p, ...changes }], state.schedules["2024-10-21"])
+const moveTask = (state: ScheduleState, startMinutes: number) =>
+  createState(Object.values(state.projects.byId), [{ ...TASK, startMinutes }])
+const removeProject = () => createState([])
+
+describe("mergeOperations between two devices", () => {
+  it("keeps both devices' edits to different fields of the same project", () => {
+    const renamed = editProject(SHARED_STATE, { name: "A" })
+    const fromA = mergeOperations(SHARED_STATE, {}, toOperations(SHARED_STATE, renamed, 100), 0, 1000)
+    const fromB = mergeOperations(
+      fromA.state,
+      fromA.clocks,
+      toOperations(SHARED_STATE, editProject(SHARED_STATE, { color: "bg-green-500 text-white" }), 110, "device-b"),
+      0,
+      2000,
+    )
+    expect(fromB.state?.projects.byId.p).toMatchObject({ name: "A", color: "bg-green-500 text-white" })
+    expect(fromB.conflicts).toEqual([
+      expect.objectContaining({ entity: "project:p", label: "A", fields: [{ field: "color", outcome: "merged" }] }),
+    ])
+  })
+
+  it("keeps the later write of the same field, whichever device sends it first", () => {
+    const later = mergeOperations(SHARED_STATE, {}, [rename("p", "Later", 200)], 0, 1000)
+    const earlier = mergeOperations(later.state, later.clocks, [rename("p", "Earlier", 150, "device-b")], 0, 2000)
+    expect(earlier.state?.projects.byId.p.name).toBe("Later")
+    expect(earlier.conflicts[0].fields).toEqual([{ field: "name", outcome: "kept-remote" }])
+  })
+
+  it("reports a conflict when both devices moved the same scheduled task", () => {
+    const moved = moveTask(SHARED_STATE, 600)
+    const fromA = mergeOperations(SHARED_STATE, {}, toOperations(SHARED_STATE, moved, 100), 0, 1000)
+    const fromB = mergeOperations(
+      fromA.state,
+      fromA.clocks,
+      toOperations(SHARED_STATE, moveTask(SHARED_STATE, 720), 120, "device-b"),
+      0,
+      2000,
+    )
+    expect(fromB.state?.schedules["2024-10-21"].map((task) => task.startMinutes)).toEqual([720])
+    expect(fromB.conflicts).toEqual([
+      expect.objectContaining({
+        entity: "task:t",
+        label: "Thesis (2024-10-21)",
+        fields: [{ field: "placement", outcome: "kept-local" }],
+      }),
+    ])
+  })
+
+  it("doesn't report a conflict for edits the device had already seen", () => {
+    const fromA = mergeOperations(SHARED_STATE, {}, [rename("p", "A", 100)], 0, 1000)
+    const fromB = mergeOperations(fromA.state, fromA.clocks, [rename("p", "B", 200, "device-b")], 1000, 2000)
+    expect(fromB.state?.projects.byId.p.name).toBe("B")
+    expect(fromB.conflicts).toEqual([])
+  })
+
+  it("drops an older edit to a project another device deleted", () => {
+    const deleted = mergeOperations(SHARED_STATE, {}, toOperations(SHARED_STATE, removeProject(), 200), 0, 1000)
+    const late = mergeOperations(deleted.state, deleted.clocks, [rename("p", "Offline edit", 150, "device-b")], 0, 2000)
+    expect(late.state?.projects.allIds).toEqual([])
+    expect(late.state?.schedules["2024-10-21"]).toEqual([])
+    expect(late.conflicts).toEqual([
+      expect.objectContaining({ label: "Deleted item", fields: [{ field: "name", outcome: "kept-remote" }] }),
+    ])
+  })
+
+  it("keeps a project edited after another device's older delete", () => {
+    const edited = mergeOperations(SHARED_STATE, {}, [rename("p", "Still needed", 200)], 0, 1000)
+    const deleted = mergeOperations(
+      edited.state,
+      edited.clocks,
+      toOperations(SHARED_STATE, removeProject(), 150, "device-b"),
+      0,
+      2000,
+    )
+    expect(deleted.state?.projects.byId.p.name).toBe("Still needed")
+  })
+
+  it("restores a deleted project and its blocks when the delete is undone", () => {
+    const removed = removeProject()
+    const deleted = mergeOperations(SHARED_STATE, {}, toOperations(SHARED_STATE, removed, 100), 0, 1000)
+    const undone = mergeOperations(deleted.state, deleted.clocks, toOperations(removed, SHARED_STATE, 200), 1000, 2000)
+    expect(undone.state?.projects.allIds).toEqual(["p"])
+    expect(undone.state?.projects.byId.p).toEqual(PROJECT)
+    expect(undone.state?.schedules["2024-10-21"]).toEqual([TASK])
+    expect(undone.clocks["project:p"].deleted).toBeUndefined()
+
+    // 恢复之后，删除之前的旧修改仍然无效 (After the restore, old edits from before the delete still don't apply)
+    const stale = mergeOperations(undone.state, undone.clocks, [rename("p", "Stale", 50, "device-b")], 0, 3000)
+    expect(stale.state?.projects.byId.p.name).toBe("Thesis")
+  })
+
+  it("replays a queue of offline edits after reconnecting", () => {
+    const fromB = mergeOperations(SHARED_STATE, {}, [rename("p", "From B", 105, "device-b")], 0, 1000)
+    const renamed = editProject(SHARED_STATE, { name: "Offline" })
+    const toggled = editProject(renamed, { subTasks: [{ id: "s1", text: "Outline", completed: true }] })
+    const moved = moveTask(toggled, 660)
+    const queue = [
+      ...toOperations(SHARED_STATE, renamed, 100),
+      ...toOperations(renamed, toggled, 110),
+      ...toOperations(toggled, moved, 120),
+    ]
+    const replayed = mergeOperations(fromB.state, fromB.clocks, queue, 0, 2000)
+    expect(replayed.state?.projects.byId.p).toMatchObject({
+      name: "From B",
+      subTasks: [{ id: "s1", text: "Outline", completed: true }],
+    })
+    expect(replayed.state?.schedules["2024-10-21"].map((task) => task.startMinutes)).toEqual([660])
+  })
+})
+
+describe("mergeOperations with a reset", () => {
+  it("doesn't create a state when the server has no data and no reset arrives", () => {
+    const merged = mergeOperations(null, {}, [rename("old", "Renamed", 100)], 0, 1000)
+    expect(merged.state).toBeNull()
+    expect(merged.clocks).toEqual({})
+  })
+
+  it("starts from the reset state when the server has no data", () => {
+    const merged = mergeOperations(null, {}, [toOperation(createResetChange(CLEARED_STATE), 100)], 0, 1000)
+    expect(merged.state).toEqual(CLEARED_STATE)
+    expect(merged.isReset).toBe(true)
+  })
+
+  it("replaces the stored data and drops edits made before the reset", () => {
+    const stored = mergeOperations(OLD_STATE, {}, [rename("old", "Edited", 100, "device-b")], 0, 1000)
+    const merged = mergeOperations(
+      stored.state,
+      stored.clocks,
+      [
+        rename("old", "Still editing", 150),
+        toOperation(createResetChange(CLEARED_STATE), 200),
+        rename("fresh", "After the clear", 300),
+      ],
+      1000,
+      2000,
+    )
+    expect(merged.state?.projects.allIds).toEqual(["fresh"])
+    expect(merged.state?.projects.byId.fresh.name).toBe("After the clear")
+    expect(Object.keys(merged.clocks).sort()).toEqual(["profile", "project:fresh"])
+    expect(merged.conflicts).toEqual([])
+
+    // 没看到重置的设备稍后发送的旧修改被忽略 (Old edits sent later by a device that missed the reset are ignored)
+    const late = mergeOperations(merged.state, merged.clocks, [rename("old", "Offline edit", 180, "device-b")], 0, 3000)
+    expect(late.state).toEqual(merged.state)
+  })
+})
+
+describe("applyChanges", () => {
+  it("applies only the changes after the last reset", () => {
+    const renamed = diffStates(CLEARED_STATE, {
+      ...CLEARED_STATE,
+      projects: createProjectsState([{ ...CLEARED_STATE.projects.byId.fresh, name: "Renamed" }]),
+    })
+    const state = applyChanges(OLD_STATE, [...renamed, createResetChange(CLEARED_STATE), ...renamed])
+    expect(state.projects.allIds).toEqual(["fresh"])
+    expect(state.projects.byId.fresh.name).toBe("Renamed")
+  })
+})
@@ -0,0 +1,402 @@
+// lib/sync-operations.ts
+// 设备之间同步用的操作日志：把两个状态的差别变成按字段的修改，并按"最后写入者获胜"合并。
+// The operation log used to sync devices: turns the difference between two states into per-field changes
+// and merges them with last-writer-wins. Pure functions, shared by the browser and the server.
+import type {
+  CalendarEvent,
+  CalendarEventsById,
+  Project,
+  ProjectDetails,
+  ScheduledTask,
+  SchedulesByDate,
+  SubTask,
+  TimeEntriesById,
+  TimeEntry,
+} from "@/types/schedule"
+import type { ScheduleState } from "@/lib/schedule-domain"
+import { PROJECT_COLORS } from "@/lib/schedule-data"
+import { DEFAULT_TASK_DURATION_MINUTES, sortByStartTime } from "@/lib/task-layout"
+
+// 一个字段的修改。entity 是 "profile"、"project:<id>"、"task:<id>" 或 "event:<id>"
+// A change to one field. The entity is "profile", "project:<id>", "task:<id>" or "event:<id>"
+//   profile: projectOrder, timeGrid, nextColorIndex,
+//     reset (整个状态，替换之前的一切 / the whole state, replacing everything before it)
+//   project: name, color, dueDate, estimatedHours, priority, description (null 表示清除 / null means cleared),
+//     subTask:<id> (null 表示删除 / null means removed), deleted
+//   task: projectId, placement ({ dateKey, startMinutes }), durationMinutes, title, subTaskIds, deleted
+//   event: data (整个事件，null 表示删除 / the whole event, null means removed)
+//   entry: data (整个计时记录，null 表示删除 / the whole time entry, null means removed)
+export interface SyncChange {
+  entity: string
+  field: string
+  value: unknown
+}
+
+// 记录在日志中的修改 (A change as recorded in the log)
+export interface SyncOperation extends SyncChange {
+  id: string
+  at: number // 修改的时间，用于"最后写入者获胜" (When the edit was made, used for last-writer-wins)
+  deviceId: string
+}
+
+// 服务器记录每个字段最后一次写入 (The server records the last write of every field)
+export interface FieldClock {
+  at: number
+  deviceId: string
+  receivedAt: number // 服务器收到的时间 (When the server received it)
+}
+
+export type FieldClocks = Record<string, Record<string, FieldClock>> // entity -> field -> clock
+
+export type ConflictOutcome = "merged" | "kept-local" | "kept-remote"
+
+// 同一个项目或任务在两个地方都被修改了 (The same project or task was edited in two places)
+export interface SyncConflict {
+  id: string
+  entity: string
+  label: string // 显示用的名称 (Name shown to the user)
+  fields: { field: string; outcome: ConflictOutcome }[]
+  detectedAt: number
+}
+
+const PROFILE_ENTITY = "profile"
+const RESET_FIELD = "reset"
+const projectEntity = (projectId: string) => `project:${projectId}`
+const taskEntity = (taskId: string) => `task:${taskId}`
+// 事件的ID是固定的，删除后可能再次导入，所以不用 "deleted" 字段
+// (Event IDs are stable and may be imported again after removal, so they don't use the "deleted" field)
+const eventEntity = (eventId: string) => `event:${eventId}`
+const entryEntity = (entryId: string) => `entry:${entryId}`
+const SUB_TASK_FIELD_PREFIX = "subTask:"
+const PROJECT_DETAIL_FIELDS: (keyof ProjectDetails)[] = ["dueDate", "estimatedHours", "priority", "description"]
+
+// 清除数据也是日志中的一个操作，和其他修改一起按时间排序 (Clearing the data is an operation in the log too, ordered by time with the other edits)
+export const createResetChange = (state: ScheduleState): SyncChange => ({
+  entity: PROFILE_ENTITY,
+  field: RESET_FIELD,
+  value: state,
+})
+
+export const isResetChange = (change: SyncChange) => change.entity === PROFILE_ENTITY && change.field === RESET_FIELD
+
+// 最后一次重置的状态和它之后的修改 (The state of the last reset and the changes after it)
+const getLastReset = (changes: SyncChange[]) => {
+  const index = changes.map(isResetChange).lastIndexOf(true)
+  return index === -1 ? null : { state: changes[index].value as ScheduleState, after: changes.slice(index + 1) }
+}
+
+// 值都是普通数据，用 JSON 比较即可 (Values are plain data, so comparing their JSON is enough)
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+interface IndexedTask {
+  dateKey: string
+  task: ScheduledTask
+}
+
+const indexTasks = (schedules: SchedulesByDate) => {
+  const index = new Map<string, IndexedTask>()
+  for (const dateKey in schedules) {
+    schedules[dateKey].forEach((task) => index.set(task.id, { dateKey, task }))
+  }
+  return index
+}
+
+const getTaskFields = ({ dateKey, task }: IndexedTask): Record<string, unknown> => ({
+  projectId: task.projectId,
+  placement: { dateKey, startMinutes: task.startMinutes },
+  durationMinutes: task.durationMinutes,
+  title: task.title ?? null,
+  subTaskIds: task.subTaskIds ?? null,
+})
+
+// 返回从 previous 到 next 的所有字段修改 (Returns every field change from previous to next)
+export const diffStates = (previous: ScheduleState, next: ScheduleState): SyncChange[] => {
+  const changes: SyncChange[] = []
+
+  if (previous.projects !== next.projects) {
+    const projectIds = new Set([...previous.projects.allIds, ...next.projects.allIds])
+    projectIds.forEach((projectId) => {
+      const before = previous.projects.byId[projectId]
+      const after = next.projects.byId[projectId]
+      if (before === after) return
+      const entity = projectEntity(projectId)
+      if (!after) {
+        changes.push({ entity, field: "deleted", value: true })
+        return
+      }
+      if (before?.name !== after.name) changes.push({ entity, field: "name", value: after.name })
+      if (before?.color !== after.color) changes.push({ entity, field: "color", value: after.color })
+      PROJECT_DETAIL_FIELDS.forEach((field) => {
+        if (before?.[field] !== after[field]) changes.push({ entity, field, value: after[field] ?? null })
+      })
+      const subTasksBefore = new Map(before?.subTasks.map((st) => [st.id, st]))
+      after.subTasks.forEach((subTask) => {
+        if (!isEqual(subTasksBefore.get(subTask.id), subTask)) {
+          changes.push({ entity, field: SUB_TASK_FIELD_PREFIX + subTask.id, value: subTask })
+        }
+        subTasksBefore.delete(subTask.id)
+      })
+      subTasksBefore.forEach((_, subTaskId) =>
+        changes.push({ entity, field: SUB_TASK_FIELD_PREFIX + subTaskId, value: null }),
+      )
+    })
+    if (!isEqual(previous.projects.allIds, next.projects.allIds)) {
+      changes.push({ entity: PROFILE_ENTITY, field: "projectOrder", value: next.projects.allIds })
+    }
+  }
+
+  if (!isEqual(previous.timeGrid, next.timeGrid)) {
+    changes.push({ entity: PROFILE_ENTITY, field: "timeGrid", value: next.timeGrid })
+  }
+  if (previous.nextColorIndex !== next.nextColorIndex) {
+    changes.push({ entity: PROFILE_ENTITY, field: "nextColorIndex", value: next.nextColorIndex })
+  }
+
+  if (previous.schedules !== next.schedules) {
+    const tasksBefore = indexTasks(previous.schedules)
+    const tasksAfter = indexTasks(next.schedules)
+    new Set([...tasksBefore.keys(), ...tasksAfter.keys()]).forEach((taskId) => {
+      const before = tasksBefore.get(taskId)
+      const after = tasksAfter.get(taskId)
+      const entity = taskEntity(taskId)
+      if (!after) {
+        changes.push({ entity, field: "deleted", value: true })
+        return
+      }
+      if (before?.task === after.task && before.dateKey === after.dateKey) return
+      const fieldsBefore = before ? getTaskFields(before) : {}
+      Object.entries(getTaskFields(after)).forEach(([field, value]) => {
+        if (!before || !isEqual(fieldsBefore[field], value)) changes.push({ entity, field, value })
+      })
+    })
+  }
+
+  if (previous.events !== next.events) {
+    new Set([...Object.keys(previous.events), ...Object.keys(next.events)]).forEach((eventId) => {
+      const after = next.events[eventId] ?? null
+      if (!isEqual(previous.events[eventId] ?? null, after)) {
+        changes.push({ entity: eventEntity(eventId), field: "data", value: after })
+      }
+    })
+  }
+
+  if (previous.timeEntries !== next.timeEntries) {
+    new Set([...Object.keys(previous.timeEntries), ...Object.keys(next.timeEntries)]).forEach((entryId) => {
+      const after = next.timeEntries[entryId] ?? null
+      if (!isEqual(previous.timeEntries[entryId] ?? null, after)) {
+        changes.push({ entity: entryEntity(entryId), field: "data", value: after })
+      }
+    })
+  }
+
+  return changes
+}
+
+const applyProjectChange = (project: Project, field: string, value: unknown): Project => {
+  if (field === "name") return { ...project, name: value as string }
+  if (field === "color") return { ...project, color: value as string }
+  if ((PROJECT_DETAIL_FIELDS as string[]).includes(field)) {
+    const updated: Project = { ...project, [field]: value }
+    if (value === null) delete updated[field as keyof ProjectDetails]
+    return updated
+  }
+  if (!field.startsWith(SUB_TASK_FIELD_PREFIX)) return project
+
+  const subTaskId = field.slice(SUB_TASK_FIELD_PREFIX.length)
+  if (value === null) return { ...project, subTasks: project.subTasks.filter((st) => st.id !== subTaskId) }
+  const subTask = value as SubTask
+  // 新的子任务加在最后 (New sub-tasks are appended)
+  return project.subTasks.some((st) => st.id === subTaskId)
+    ? { ...project, subTasks: project.subTasks.map((st) => (st.id === subTaskId ? subTask : st)) }
+    : { ...project, subTasks: [...project.subTasks, subTask] }
+}
+
+const applyTaskChange = (indexed: Partial<IndexedTask> & { task: ScheduledTask }, field: string, value: unknown) => {
+  const task = { ...indexed.task }
+  let dateKey = indexed.dateKey
+  if (field === "projectId") task.projectId = value as string
+  else if (field === "placement") {
+    const placement = value as { dateKey: string; startMinutes: number }
+    dateKey = placement.dateKey
+    task.startMinutes = placement.startMinutes
+  } else if (field === "durationMinutes") task.durationMinutes = value as number
+  else if (field === "title") {
+    if (value === null) delete task.title
+    else task.title = value as string
+  } else if (field === "subTaskIds") {
+    if (value === null) delete task.subTaskIds
+    else task.subTaskIds = value as string[]
+  }
+  return { dateKey, task }
+}
+
+// 把修改应用到状态上；没有变化的日期保留原来的数组 (Applies changes to a state; dates without changes keep their arrays)
+export const applyChanges = (state: ScheduleState, changes: SyncChange[]): ScheduleState => {
+  if (changes.length === 0) return state
+  const reset = getLastReset(changes)
+  if (reset) return applyChanges(reset.state, reset.after)
+
+  const byId = { ...state.projects.byId }
+  let projectOrder = state.projects.allIds
+  let { timeGrid, nextColorIndex } = state
+  const tasks = new Map<string, Partial<IndexedTask> & { task: ScheduledTask }>(indexTasks(state.schedules))
+  let events: CalendarEventsById = state.events
+  let timeEntries: TimeEntriesById = state.timeEntries
+
+  changes.forEach(({ entity, field, value }) => {
+    if (entity === PROFILE_ENTITY) {
+      if (field === "projectOrder") projectOrder = value as string[]
+      else if (field === "timeGrid") timeGrid = value as ScheduleState["timeGrid"]
+      else if (field === "nextColorIndex") nextColorIndex = value as number
+    } else if (entity.startsWith("project:")) {
+      const projectId = entity.slice("project:".length)
+      if (field === "deleted") {
+        delete byId[projectId]
+        return
+      }
+      // 新项目从第一个字段开始创建 (New projects are created by their first field)
+      const project = byId[projectId] ?? { id: projectId, name: "New Project", subTasks: [], color: PROJECT_COLORS[0] }
+      byId[projectId] = applyProjectChange(project, field, value)
+    } else if (entity.startsWith("task:")) {
+      const taskId = entity.slice("task:".length)
+      if (field === "deleted") {
+        tasks.delete(taskId)
+        return
+      }
+      const indexed = tasks.get(taskId) ?? {
+        task: { id: taskId, projectId: "", startMinutes: 0, durationMinutes: DEFAULT_TASK_DURATION_MINUTES },
+      }
+      tasks.set(taskId, applyTaskChange(indexed, field, value))
+    } else if (entity.startsWith("event:") && field === "data") {
+      const eventId = entity.slice("event:".length)
+      if (events === state.events) events = { ...events }
+      if (value === null) delete events[eventId]
+      else events[eventId] = value as CalendarEvent
+    } else if (entity.startsWith("entry:") && field === "data") {
+      const entryId = entity.slice("entry:".length)
+      if (timeEntries === state.timeEntries) timeEntries = { ...timeEntries }
+      if (value === null) delete timeEntries[entryId]
+      else timeEntries[entryId] = value as TimeEntry
+    }
+  })
+
+  // 保留顺序中仍然存在的项目，其余的加在后面 (Keep the ordered projects that still exist and append the rest)
+  const allIds = projectOrder.filter((id) => byId[id])
+  Object.keys(byId).forEach((id) => {
+    if (!allIds.includes(id)) allIds.push(id)
+  })
+
+  // 删除项目时一起删除它的已安排任务 (Removing a project also removes its scheduled tasks)
+  const tasksByDate: Record<string, ScheduledTask[]> = {}
+  tasks.forEach(({ dateKey, task }) => {
+    if (!dateKey || !byId[task.projectId]) return
+    ;(tasksByDate[dateKey] ??= []).push(task)
+  })
+  const schedules: SchedulesByDate = {}
+  new Set([...Object.keys(state.schedules), ...Object.keys(tasksByDate)]).forEach((dateKey) => {
+    const before = state.schedules[dateKey] ?? []
+    const after = sortByStartTime(tasksByDate[dateKey] ?? [])
+    const unchanged = before.length === after.length && before.every((task, i) => task === after[i])
+    schedules[dateKey] = unchanged ? before : after
+  })
+
+  // 删除项目时也删除它的计时记录 (Removing a project also removes its time entries)
+  if (Object.values(timeEntries).some((entry) => !byId[entry.projectId])) {
+    timeEntries = Object.fromEntries(Object.entries(timeEntries).filter(([, entry]) => byId[entry.projectId]))
+  }
+
+  return { projects: { byId, allIds }, schedules, events, timeEntries, timeGrid, nextColorIndex }
+}
+
+// 找不到时返回 undefined，例如已经被删除 (Returns undefined when not found, e.g. deleted)
+const getConflictLabel = (state: ScheduleState, entity: string): string | undefined => {
+  if (entity.startsWith("project:")) return state.projects.byId[entity.slice("project:".length)]?.name
+  if (entity.startsWith("event:")) return state.events[entity.slice("event:".length)]?.title
+  const indexed = indexTasks(state.schedules).get(entity.slice("task:".length))
+  if (!indexed) return undefined
+  const { dateKey, task } = indexed
+  return `${task.title ?? state.projects.byId[task.projectId]?.name ?? "Task"} (${dateKey})`
+}
+
+// 在服务器上合并一个设备的操作。since 是这个设备上次同步的时间，之后其他设备的写入算作同时修改
+// Merges one device's operations on the server. since is when that device last synced; writes by other devices
+// after that count as concurrent edits.
+// 服务器还没有数据时 state 为 null，直到某个设备发送重置操作 (state is null while the server has no data, until a device sends a reset)
+export const mergeOperations = (
+  state: ScheduleState | null,
+  clocks: FieldClocks,
+  operations: SyncOperation[],
+  since: number,
+  now: number,
+) => {
+  let nextClocks: FieldClocks = { ...clocks }
+  const accepted: SyncChange[] = []
+  const conflicts = new Map<string, SyncConflict>()
+  let isReset = false
+
+  ;[...operations]
+    .sort((a, b) => a.at - b.at)
+    .forEach((operation) => {
+      const { entity, field, at, deviceId } = operation
+      const resetClock = nextClocks[PROFILE_ENTITY]?.[RESET_FIELD]
+      // 重置之前的修改已经被它清除了 (Edits made before a reset were cleared by it)
+      if (resetClock && at < resetClock.at) return
+      // 重置清除所有字段的记录，之后的修改都比它新 (A reset clears the record of every field, later edits are all newer)
+      if (isResetChange(operation)) {
+        accepted.push(operation)
+        nextClocks = { [PROFILE_ENTITY]: { [RESET_FIELD]: { at, deviceId, receivedAt: now } } }
+        isReset = true
+        return
+      }
+      if (!state && !isReset) return
+
+      const entityClocks = nextClocks[entity] ?? {}
+      const clock = entityClocks[field]
+      // 删除只赢过更早的修改；比删除新的写入把它恢复，例如撤销删除
+      // (A delete only wins over older edits; a write newer than the delete restores it, e.g. undoing the delete)
+      const { deleted: deletedClock, ...fieldClocks } = entityClocks
+      const wins =
+        field === "deleted"
+          ? Object.values(entityClocks).every((c) => c.at <= at)
+          : (!clock || clock.at <= at) && (!deletedClock || deletedClock.at <= at)
+
+      // 与合并之前的写入比较 (Compare with the writes from before this merge)
+      const isConcurrent = (c: FieldClock | undefined) => !!c && c.deviceId !== deviceId && c.receivedAt > since
+      const remoteClocks = clocks[entity] ?? {}
+      // 事件只是外部日历的副本，计时记录只会追加或结束，都不算冲突
+      // (Events only mirror an external calendar and time entries are only added or ended, so neither conflicts)
+      const canConflict = entity !== PROFILE_ENTITY && !entity.startsWith("event:") && !entity.startsWith("entry:")
+      if (canConflict && Object.values(remoteClocks).some(isConcurrent)) {
+        const outcome: ConflictOutcome = !wins
+          ? "kept-remote"
+          : isConcurrent(remoteClocks[field])
+            ? "kept-local"
+            : "merged"
+        const conflict = conflicts.get(entity) ?? {
+          id: `${entity}@${now}`,
+          entity,
+          label: "",
+          fields: [],
+          detectedAt: now,
+        }
+        conflict.fields.push({ field, outcome })
+        conflicts.set(entity, conflict)
+      }
+
+      if (wins) {
+        accepted.push(operation)
+        const written = field === "deleted" ? entityClocks : fieldClocks
+        nextClocks[entity] = { ...written, [field]: { at, deviceId, receivedAt: now } }
+      }
+    })
+
+  const reset = getLastReset(accepted)
+  const merged = reset ? applyChanges(reset.state, reset.after) : state && applyChanges(state, accepted)
+  conflicts.forEach((conflict) => {
+    conflict.label =
+      (merged && getConflictLabel(merged, conflict.entity)) ??
+      (state && getConflictLabel(state, conflict.entity)) ??
+      "Deleted item"
+  })
+  return { state: merged, clocks: nextClocks, isReset, conflicts: [...conflicts.values()] }
+}
@@ -0,0 +1,60 @@
+// lib/sync-queue.test.ts
+// 发送队列的测试：压缩排队的操作，以及 localStorage 已满时的处理。
+// Tests for the send queue: compacting queued operations, and what happens when localStorage is full.
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createInitialScheduleState } from "@/lib/schedule-domain"
+import { createResetChange } from "@/lib/sync-operations"
+import { enqueueChanges, readSyncQueue } from "@/lib/sync-queue"
+
+// 内存中的 localStorage，可以设置容量 (An in-memory localStorage with an optional capacity)
+const createStorage = (maxLength = Infinity) => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > maxLength) throw new DOMException("Storage is full", "QuotaExceededError")
+      items.set(key, value)
+    },
+    removeItem: (key: string) => items.delete(key),
+  }
+}
+
+const rename = (name: string) => ({ entity: "project:p", field: "name", value: name })
+const recolor = (color: string) => ({ entity: "project:p", field: "color", value: color })
+
+describe("enqueueChanges", () => {
+  beforeEach(() => vi.stubGlobal("localStorage", createStorage()))
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("keeps only the latest write of each field", () => {
+    enqueueChanges("profile", [rename("First"), recolor("bg-blue-500 text-white")])
+    enqueueChanges("profile", [rename("Second")])
+
+    const { operations } = readSyncQueue("profile")
+    expect(operations.map(({ field, value }) => [field, value])).toEqual([
+      ["color", "bg-blue-500 text-white"],
+      ["name", "Second"],
+    ])
+  })
+
+  it("drops the operations queued before a reset", () => {
+    enqueueChanges("profile", [rename("Before the clear")])
+    enqueueChanges("profile", [createResetChange(createInitialScheduleState())])
+    enqueueChanges("profile", [rename("After the clear")])
+
+    const { operations } = readSyncQueue("profile")
+    expect(operations.map(({ field }) => field)).toEqual(["reset", "name"])
+  })
+
+  it("keeps the queue in memory when localStorage is full", () => {
+    vi.stubGlobal("localStorage", createStorage(200))
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    expect(enqueueChanges("full", [rename("Fits")])).toBe(true)
+    expect(enqueueChanges("full", [recolor("x".repeat(200))])).toBe(false)
+    expect(readSyncQueue("full").operations.map(({ field }) => field)).toEqual(["name", "color"])
+  })
+})
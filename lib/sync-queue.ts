@@ -0,0 +1,88 @@
+// lib/sync-queue.ts
+// 等待发送到服务器的操作，保存在 localStorage 中，所以离线时关闭页面也不会丢失。
+// Operations waiting to be sent to the server. They are kept in localStorage, so closing the page while offline
+// doesn't lose them. The queue is compacted as it grows, and kept in memory when localStorage is full.
+import { isResetChange, type SyncChange, type SyncOperation } from "@/lib/sync-operations"
+
+const SYNC_QUEUE_KEY_PREFIX = "personal-schedule-builder-sync:"
+const DEVICE_ID_KEY = "personal-schedule-builder-device-id"
+
+export interface SyncQueue {
+  operations: SyncOperation[]
+  syncedAt: number // 上次成功同步时服务器的时间 (The server's time at the last successful sync)
+}
+
+const EMPTY_QUEUE: SyncQueue = { operations: [], syncedAt: 0 }
+
+// localStorage 已满时只保存在内存中的队列，页面关闭后丢失
+// (Queues kept only in memory while localStorage is full, lost when the page closes)
+const memoryQueues = new Map<string, SyncQueue>()
+
+const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+
+// 每个浏览器一个ID，用来区分修改来自哪台设备 (One ID per browser, to tell which device an edit came from)
+export const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+export const readSyncQueue = (profileId: string): SyncQueue => {
+  const inMemory = memoryQueues.get(profileId)
+  if (inMemory) return inMemory
+  try {
+    const stored = localStorage.getItem(SYNC_QUEUE_KEY_PREFIX + profileId)
+    return stored ? (JSON.parse(stored) as SyncQueue) : EMPTY_QUEUE
+  } catch (error) {
+    console.error("Error reading sync queue:", error)
+    return EMPTY_QUEUE
+  }
+}
+
+// 返回队列是否保存到了 localStorage (Returns whether the queue was saved to localStorage)
+export const writeSyncQueue = (profileId: string, queue: SyncQueue): boolean => {
+  try {
+    localStorage.setItem(SYNC_QUEUE_KEY_PREFIX + profileId, JSON.stringify(queue))
+    memoryQueues.delete(profileId)
+    return true
+  } catch (error) {
+    if (isQuotaExceeded(error)) {
+      console.warn("Storage is full, the sync queue is only kept in memory until it's sent")
+    } else {
+      console.error("Error saving sync queue:", error)
+    }
+    memoryQueues.set(profileId, queue)
+    return false
+  }
+}
+
+// 重置之前的操作和同一字段较早的写入都不需要发送
+// (Operations before a reset and earlier writes of the same field don't need to be sent)
+const compactOperations = (operations: SyncOperation[]) => {
+  const resetIndex = operations.map(isResetChange).lastIndexOf(true)
+  const kept = resetIndex === -1 ? operations : operations.slice(resetIndex)
+  const latestByField = new Map<string, SyncOperation>()
+  kept.forEach((operation) => latestByField.set(`${operation.entity}/${operation.field}`, operation))
+  return kept.filter((operation) => latestByField.get(`${operation.entity}/${operation.field}`) === operation)
+}
+
+// 把修改记录为操作加入队列，返回是否保存到了 localStorage
+// (Record changes as operations at the end of the queue; returns whether it was saved to localStorage)
+export const enqueueChanges = (profileId: string, changes: SyncChange[]) => {
+  const queue = readSyncQueue(profileId)
+  const deviceId = getDeviceId()
+  const at = Date.now()
+  const operations = changes.map((change) => ({ ...change, id: crypto.randomUUID(), at, deviceId }))
+  return writeSyncQueue(profileId, { ...queue, operations: compactOperations([...queue.operations, ...operations]) })
+}
+
+// 服务器确认后移除已发送的操作 (Remove the sent operations once the server confirmed them)
+export const acknowledgeOperations = (profileId: string, sentIds: Set<string>, syncedAt: number): SyncOperation[] => {
+  const remaining = readSyncQueue(profileId).operations.filter((operation) => !sentIds.has(operation.id))
+  writeSyncQueue(profileId, { operations: remaining, syncedAt })
+  return remaining
+}
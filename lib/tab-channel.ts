@@ -0,0 +1,45 @@
+// lib/tab-channel.ts
+// 同一浏览器中各个标签页之间的消息。优先使用 BroadcastChannel，不支持时通过 localStorage 的 storage 事件传递。
+// Messages between the tabs of the same browser. Uses BroadcastChannel, falling back to localStorage "storage" events
+// where it isn't supported.
+
+const CHANNEL_NAME = "personal-schedule-builder-tabs"
+const STORAGE_MESSAGE_KEY = `${CHANNEL_NAME}:message`
+
+export interface TabChannel<T> {
+  post: (message: T) => void
+  close: () => void
+}
+
+// 消息不会发回给发送它的标签页 (Messages are not delivered back to the tab that sent them)
+export const openTabChannel = <T>(onMessage: (message: T) => void): TabChannel<T> => {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<T>) => onMessage(event.data)
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    }
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_MESSAGE_KEY || !event.newValue) return
+    try {
+      onMessage(JSON.parse(event.newValue).message as T)
+    } catch (error) {
+      console.error("Error reading message from another tab:", error)
+    }
+  }
+  window.addEventListener("storage", handleStorage)
+  return {
+    // 每条消息带一个唯一ID，这样相同的内容也会触发 storage 事件 (Each message gets a unique ID so identical content still fires the event)
+    post: (message) => {
+      try {
+        localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify({ id: crypto.randomUUID(), message }))
+      } catch (error) {
+        console.error("Error sending message to other tabs:", error)
+      }
+    },
+    close: () => window.removeEventListener("storage", handleStorage),
+  }
+}
@@ -0,0 +1,85 @@
+// lib/task-layout.ts
+// 已安排任务的时间计算：重叠检测、容量检查和并排显示的布局。
+// Timing helpers for scheduled tasks: overlap detection, capacity checks and side-by-side layout.
+import type { ScheduledTask } from "@/types/schedule"
+
+export const DEFAULT_TASK_DURATION_MINUTES = 60
+
+export const getTaskEndMinutes = (task: Pick<ScheduledTask, "startMinutes" | "durationMinutes">) =>
+  task.startMinutes + task.durationMinutes
+
+export const sortByStartTime = <T extends Pick<ScheduledTask, "startMinutes">>(tasks: T[]) =>
+  [...tasks].sort((a, b) => a.startMinutes - b.startMinutes)
+
+export const rangesOverlap = (startA: number, endA: number, startB: number, endB: number) =>
+  startA < endB && startB < endA
+
+// 返回在 [startMinutes, endMinutes) 内同时进行的任务的最大数量
+// (Returns the highest number of tasks running at the same time within [startMinutes, endMinutes))
+export const countConcurrentTasks = (
+  tasks: ScheduledTask[],
+  startMinutes: number,
+  endMinutes: number,
+  ignoreTaskId?: string,
+): number => {
+  const overlapping = tasks.filter(
+    (task) =>
+      task.id !== ignoreTaskId && rangesOverlap(startMinutes, endMinutes, task.startMinutes, getTaskEndMinutes(task)),
+  )
+  // 并发数只会在某个任务开始时增加 (Concurrency can only increase where a task starts)
+  const checkpoints = [startMinutes, ...overlapping.map((task) => task.startMinutes).filter((m) => m > startMinutes)]
+  return checkpoints.reduce((max, minute) => {
+    const running = overlapping.filter((task) => task.startMinutes <= minute && minute < getTaskEndMinutes(task)).length
+    return Math.max(max, running)
+  }, 0)
+}
+
+export const canPlaceTask = (
+  tasks: ScheduledTask[],
+  startMinutes: number,
+  durationMinutes: number,
+  maxConcurrentTasks: number,
+  ignoreTaskId?: string,
+): boolean => countConcurrentTasks(tasks, startMinutes, startMinutes + durationMinutes, ignoreTaskId) < maxConcurrentTasks
+
+export interface TaskLayout {
+  lane: number // 任务所在的列 (Column the task is placed in)
+  laneCount: number // 与它重叠的一组任务共用的列数 (Number of columns shared by its group of overlapping tasks)
+}
+
+// 参与布局的时间块，任务和外部事件都可以 (A block taking part in the layout, either a task or an external event)
+type LayoutBlock = Pick<ScheduledTask, "id" | "startMinutes" | "durationMinutes">
+
+// 把重叠的任务分到并排的列中 (Splits overlapping tasks into side-by-side columns)
+export const layoutDayTasks = (tasks: LayoutBlock[]): Record<string, TaskLayout> => {
+  const layout: Record<string, TaskLayout> = {}
+  const sorted = [...tasks].sort((a, b) => a.startMinutes - b.startMinutes || b.durationMinutes - a.durationMinutes)
+
+  let cluster: LayoutBlock[] = []
+  let laneEnds: number[] = []
+  let clusterEnd = -Infinity
+
+  const closeCluster = () => {
+    cluster.forEach((task) => {
+      layout[task.id].laneCount = laneEnds.length
+    })
+    cluster = []
+    laneEnds = []
+  }
+
+  sorted.forEach((task) => {
+    if (task.startMinutes >= clusterEnd) closeCluster()
+    let lane = laneEnds.findIndex((end) => end <= task.startMinutes)
+    if (lane === -1) {
+      lane = laneEnds.length
+      laneEnds.push(0)
+    }
+    laneEnds[lane] = getTaskEndMinutes(task)
+    layout[task.id] = { lane, laneCount: 1 }
+    cluster.push(task)
+    clusterEnd = cluster.length === 1 ? getTaskEndMinutes(task) : Math.max(clusterEnd, getTaskEndMinutes(task))
+  })
+  closeCluster()
+
+  return layout
+}
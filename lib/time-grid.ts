@@ -0,0 +1,128 @@
+// lib/time-grid.ts
+// 时间网格：根据用户设置（一天的开始/结束时间和时间段长度）生成所有时间段。
+// Time grid: generates every time slot from the user's settings (day start/end and slot length).
+// All code that needs slot IDs or slot boundaries should derive them from here.
+import type { TimeGridSettings, TimeSectionKey, TimeSlot } from "@/types/schedule"
+
+export const SLOT_MINUTE_OPTIONS = [15, 30, 60] as const
+
+export const DEFAULT_TIME_GRID_SETTINGS: TimeGridSettings = {
+  dayStartHour: 8,
+  dayEndHour: 24,
+  slotMinutes: 60,
+}
+
+export interface TimeSectionConfig {
+  key: TimeSectionKey
+  name: string
+  slots: TimeSlot[]
+  bgColor: string
+}
+
+interface SectionDefinition {
+  key: TimeSectionKey
+  name: string
+  bgColor: string
+  endHour: number // 这个部分在此小时之前结束 (The section ends before this hour)
+}
+
+const sectionDefinitions: SectionDefinition[] = [
+  { key: "morning", name: "上午", bgColor: "bg-blue-50", endHour: 12 },
+  { key: "afternoon", name: "下午", bgColor: "bg-amber-50", endHour: 18 },
+  { key: "evening", name: "傍晚/晚上", bgColor: "bg-green-50", endHour: 24 },
+]
+
+// 例如 570 -> "09:30"，1440 -> "24:00" (e.g. 570 -> "09:30", 1440 -> "24:00")
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  return `${hours.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}`
+}
+
+export const getSectionForMinutes = (minutes: number): TimeSectionKey => {
+  const hour = Math.floor(minutes / 60)
+  return (sectionDefinitions.find((section) => hour < section.endHour) ?? sectionDefinitions[2]).key
+}
+
+// 时间段ID格式为 "slot-<section>-<HHMM>" (Slot IDs have the format "slot-<section>-<HHMM>")
+export const buildSlotId = (startMinutes: number): string =>
+  `slot-${getSectionForMinutes(startMinutes)}-${formatMinutes(startMinutes).replace(":", "")}`
+
+// 同时支持旧的整点格式 "slot-<section>-<HH>" (Also accepts the legacy whole-hour format "slot-<section>-<HH>")
+export const parseSlotStartMinutes = (slotId: string): number | null => {
+  const match = /^slot-(?:morning|afternoon|evening)-(\d{2})(\d{2})?$/.exec(slotId)
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = match[2] ? Number(match[2]) : 0
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+export const normalizeTimeGridSettings = (settings: any): TimeGridSettings => {
+  const isHour = (value: unknown, min: number, max: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+
+  const dayStartHour = isHour(settings?.dayStartHour, 0, 23)
+    ? settings.dayStartHour
+    : DEFAULT_TIME_GRID_SETTINGS.dayStartHour
+  const dayEndHour = isHour(settings?.dayEndHour, dayStartHour + 1, 24)
+    ? settings.dayEndHour
+    : Math.max(DEFAULT_TIME_GRID_SETTINGS.dayEndHour, dayStartHour + 1)
+  const slotMinutes = SLOT_MINUTE_OPTIONS.includes(settings?.slotMinutes)
+    ? settings.slotMinutes
+    : DEFAULT_TIME_GRID_SETTINGS.slotMinutes
+
+  return { dayStartHour, dayEndHour, slotMinutes }
+}
+
+export const generateTimeSlots = (settings: TimeGridSettings): TimeSlot[] => {
+  const slots: TimeSlot[] = []
+  for (
+    let startMinutes = settings.dayStartHour * 60;
+    startMinutes < settings.dayEndHour * 60;
+    startMinutes += settings.slotMinutes
+  ) {
+    const endMinutes = startMinutes + settings.slotMinutes
+    slots.push({
+      id: buildSlotId(startMinutes),
+      label: `${formatMinutes(startMinutes)} - ${formatMinutes(endMinutes)}`,
+      section: getSectionForMinutes(startMinutes),
+      startMinutes,
+      endMinutes,
+    })
+  }
+  return slots
+}
+
+// 只返回包含时间段的部分 (Only returns sections that contain slots)
+export const buildTimeSections = (settings: TimeGridSettings): TimeSectionConfig[] => {
+  const slots = generateTimeSlots(settings)
+  return sectionDefinitions
+    .map(({ key, name, bgColor }) => ({ key, name, bgColor, slots: slots.filter((slot) => slot.section === key) }))
+    .filter((section) => section.slots.length > 0)
+}
+
+// 返回包含该时间的时间段，超出范围时返回 null (Returns the slot containing the time, or null when out of range)
+export const findSlotForMinutes = (slots: TimeSlot[], minutes: number): TimeSlot | null =>
+  slots.find((slot) => minutes >= slot.startMinutes && minutes < slot.endMinutes) ?? null
+
+// 和 findSlotForMinutes 一样，但超出范围时取最近的时间段 (Like findSlotForMinutes, but clamps to the nearest slot when out of range)
+export const findNearestSlotForMinutes = (slots: TimeSlot[], minutes: number): TimeSlot | null => {
+  if (slots.length === 0) return null
+  if (minutes < slots[0].startMinutes) return slots[0]
+  return findSlotForMinutes(slots, minutes) ?? slots[slots.length - 1]
+}
+
+// 把任务限制在一天的时间范围内，至少保留一个时间段的长度
+// (Keeps a task within the day's hours, at least one slot long)
+export const clampToDay = (
+  startMinutes: number,
+  durationMinutes: number,
+  settings: TimeGridSettings,
+): { startMinutes: number; durationMinutes: number } => {
+  const dayStart = settings.dayStartHour * 60
+  const dayEnd = settings.dayEndHour * 60
+  const clampedStart = Math.min(Math.max(startMinutes, dayStart), dayEnd - settings.slotMinutes)
+  const clampedDuration = Math.min(Math.max(durationMinutes, settings.slotMinutes), dayEnd - clampedStart)
+  return { startMinutes: clampedStart, durationMinutes: clampedDuration }
+}
@@ -0,0 +1,67 @@
+// lib/time-tracking.ts
+// 计时：记录实际花在项目和时间块上的时间。同一时间只有一个计时器在运行，它的记录还没有结束时间。
+// Time tracking: records the time actually spent on projects and scheduled blocks. Only one timer runs at a time,
+// and its entry has no end time yet.
+import type { TimeEntriesById, TimeEntry, TrackedTime } from "@/types/schedule"
+
+export const NO_TRACKED_TIME: TrackedTime = { minutes: 0, runningSince: null }
+
+// 按时间块和项目汇总的实际时间；项目包含它的时间块的时间
+// (Actual time summed per block and per project; a project includes the time of its blocks)
+export interface TrackedTimeIndex {
+  byTask: Record<string, TrackedTime>
+  byProject: Record<string, TrackedTime>
+}
+
+export const isValidTimestamp = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value))
+
+export const getElapsedMinutes = (startedAt: string, endedAt: string | number = Date.now()) =>
+  Math.max(0, (new Date(endedAt).getTime() - Date.parse(startedAt)) / 60000)
+
+// 正常情况下最多只有一个；两台设备同时开始计时时以最近开始的为准
+// (Normally there is at most one; if two devices started timers at once, the latest one counts)
+export const selectRunningEntry = (entries: TimeEntriesById): TimeEntry | null =>
+  Object.values(entries)
+    .filter((entry) => !entry.endedAt)
+    .reduce<TimeEntry | null>((latest, entry) => (!latest || entry.startedAt > latest.startedAt ? entry : latest), null)
+
+// 结束所有正在运行的记录 (Ends every running entry)
+export const stopRunningEntries = (entries: TimeEntriesById, endedAt: string): TimeEntriesById => {
+  const running = Object.values(entries).filter((entry) => !entry.endedAt)
+  if (running.length === 0) return entries
+  const stopped = { ...entries }
+  running.forEach((entry) => {
+    stopped[entry.id] = { ...entry, endedAt: entry.startedAt > endedAt ? entry.startedAt : endedAt }
+  })
+  return stopped
+}
+
+const addEntry = (index: Record<string, TrackedTime>, key: string, entry: TimeEntry) => {
+  const tracked = index[key] ?? NO_TRACKED_TIME
+  index[key] = entry.endedAt
+    ? { ...tracked, minutes: tracked.minutes + getElapsedMinutes(entry.startedAt, entry.endedAt) }
+    : { ...tracked, runningSince: entry.startedAt }
+}
+
+export const selectTrackedTime = (entries: TimeEntriesById): TrackedTimeIndex => {
+  const index: TrackedTimeIndex = { byTask: {}, byProject: {} }
+  Object.values(entries).forEach((entry) => {
+    addEntry(index.byProject, entry.projectId, entry)
+    if (entry.taskId) addEntry(index.byTask, entry.taskId, entry)
+  })
+  return index
+}
+
+// 包括正在运行的计时器到 now 为止的时间 (Includes the running timer's time up to now)
+export const getTrackedMinutes = (tracked: TrackedTime, now = Date.now()) =>
+  tracked.minutes + (tracked.runningSince ? getElapsedMinutes(tracked.runningSince, now) : 0)
+
+// 例如 "0:25" 或 "1:05"，正在计时时加上秒 "1:05:30" (E.g. "0:25" or "1:05", with seconds "1:05:30" while running)
+export const formatTrackedTime = (minutes: number, withSeconds = false) => {
+  const totalSeconds = Math.floor(minutes * 60)
+  const hours = Math.floor(totalSeconds / 3600)
+  const mins = Math.floor((totalSeconds % 3600) / 60)
+  const text = `${hours}:${mins.toString().padStart(2, "0")}`
+  return withSeconds ? `${text}:${(totalSeconds % 60).toString().padStart(2, "0")}` : text
+}
@@ -0,0 +1,65 @@
+// lib/time-zones.ts
+// 时区换算：某一时刻在指定时区中的本地时间，以及反过来。只用 Intl，不需要时区数据库。
+// Time zone conversions: the local time of an instant in a given zone, and back. Only uses Intl, no zone database.
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+// 某一时刻在指定时区中的日期和时间 (The date and time of an instant in the given zone)
+const getZonedParts = (instant: number, timeZone: string) => {
+  const parts: Record<string, number> = {}
+  getFormatter(timeZone)
+    .formatToParts(new Date(instant))
+    .forEach(({ type, value }) => {
+      if (type !== "literal") parts[type] = Number(value)
+    })
+  return parts as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>
+}
+
+export const toZonedDateTime = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone)
+  const dateKey = `${year}-${month.toString().padStart(2, "0")}-${day.toString().padStart(2, "0")}`
+  return { dateKey, minutes: hour * 60 + minute }
+}
+
+// 时区在某一时刻相对 UTC 的偏移（毫秒） (The zone's offset from UTC at an instant, in milliseconds)
+const getTimeZoneOffset = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone)
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000
+}
+
+// 指定时区中的本地时间对应的时刻 (The instant of a local time in the given zone)
+export const fromZonedDateTime = (dateKey: string, minutes: number, timeZone: string) => {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone)
+  // 夏令时切换附近再修正一次 (Correct once more around daylight saving changes)
+  return wallClock - getTimeZoneOffset(guess, timeZone)
+}
+
+// Intl 不认识的时区名称，例如 Outlook 的 Windows 时区 (Zone names Intl doesn't know, e.g. Outlook's Windows zones)
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // better-sqlite3 是原生模块，不能被打包 (better-sqlite3 is a native module and can't be bundled)
+  serverExternalPackages: ["better-sqlite3"],
   eslint: {
     ignoreDuringBuilds: true,
   },
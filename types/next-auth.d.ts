@@ -6,6 +6,8 @@ declare module "next-auth" {
    */
   interface Session {
     accessToken?: string
+    /** Set when the Google access token could not be refreshed and the user has to sign in again */
+    error?: "RefreshTokenError"
     user: {
       /** The user's postal address. */
       address?: string
@@ -19,5 +21,6 @@ declare module "next-auth/jwt" {
     accessToken?: string
     refreshToken?: string
     expiresAt?: number
+    error?: "RefreshTokenError"
   }
 }
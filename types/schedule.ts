@@ -8,26 +8,131 @@ export interface SubTask {
   completed: boolean
 }
 
+export type ProjectPriority = "high" | "medium" | "low"
+
 export interface Project {
   id: string // 项目的唯一标识符 (Unique identifier for the project)
   name: string // 项目名称 (Project name)
   subTasks: SubTask[] // 项目包含的子任务列表 (List of sub-tasks included in the project)
   color: string // 用于显示项目的颜色 (Color used for displaying the project)
+  dueDate?: string // 截止日期 "YYYY-MM-DD" (Due date as "YYYY-MM-DD")
+  estimatedHours?: number // 预计需要的小时数 (Estimated number of hours)
+  priority?: ProjectPriority // 优先级 (Priority)
+  description?: string // 自由填写的说明 (Free-text description)
+}
+
+// 项目的可选信息，不填时没有这些字段 (A project's optional details, the fields are absent when not filled in)
+export type ProjectDetails = Pick<Project, "dueDate" | "estimatedHours" | "priority" | "description">
+
+// 按ID存储的项目，allIds 保存项目列表的顺序 (Projects stored by ID, allIds keeps the order of the project list)
+export interface ProjectsState {
+  byId: Record<string, Project>
+  allIds: string[]
 }
 
+// 已安排的任务只引用项目，显示用的数据通过 lib/selectors.ts 获取
+// Scheduled tasks only reference their project, display data comes from lib/selectors.ts
 export interface ScheduledTask {
   id: string // 已安排任务的唯一标识符 (Unique identifier for the scheduled task)
   projectId: string // 关联的项目ID (Associated project ID)
-  projectName: string // 项目名称 (Project name)
-  projectColor: string // 项目颜色 (Project color)
-  originalProjectSubTasks: SubTask[] // 项目的原始子任务 (Original sub-tasks of the project)
+  startMinutes: number // 开始时间，距午夜的分钟数 (Start time in minutes since midnight)
+  durationMinutes: number // 持续时间（分钟），可以跨越多个时间段 (Duration in minutes, may span several slots)
+  title?: string // 可选的标题，代替项目名称显示 (Optional title shown instead of the project name)
+  subTaskIds?: string[] // 这个时间块要做的子任务，为空时表示整个项目 (Sub-tasks this block is for, empty means the whole project)
+}
+
+// 子任务的完成进度 (Completion progress of sub-tasks)
+export interface SubTaskProgress {
+  completed: number
+  total: number
+}
+
+// 截止日期前安排的时间和预计时间的比较 (Time scheduled before the due date compared with the estimate)
+export interface DeadlineStatus {
+  scheduledMinutes: number
+  estimatedMinutes: number
+  isShort: boolean // 安排的时间少于预计 (Less time is scheduled than estimated)
+}
+
+// 计时器记录的一段实际花费的时间 (A stretch of time actually spent, recorded by the timer)
+export interface TimeEntry {
+  id: string
+  projectId: string
+  taskId?: string // 计时的时间块，没有时计入整个项目 (The scheduled block being timed, absent for the project as a whole)
+  startedAt: string // ISO 8601 时间戳 (ISO 8601 timestamp)
+  endedAt?: string // 正在计时时没有结束时间 (No end time while the timer is running)
+}
+
+// 按ID存储的计时记录 (Time entries stored by ID)
+export type TimeEntriesById = Record<string, TimeEntry>
+
+// 一个时间块或项目的实际时间 (The actual time of a block or project)
+export interface TrackedTime {
+  minutes: number // 已结束的记录的分钟数 (Minutes of the finished entries)
+  runningSince: string | null // 正在运行的计时器的开始时间 (Start of the running timer)
 }
 
+// 已安排任务加上其项目的显示数据 (A scheduled task together with its project's display data)
+export interface ScheduledTaskView extends ScheduledTask {
+  displayName: string
+  color: string
+  subTasks: SubTask[] // 这个时间块的子任务 (The sub-tasks of this block)
+  projectProgress: SubTaskProgress // 整个项目的进度 (Progress of the whole project)
+  tracked: TrackedTime // 这个时间块的实际时间 (The block's actual time)
+}
+
+export type CalendarEventSource = "google" | "ics" // "ics" 是导入的 .ics 文件 ("ics" is an imported .ics file)
+
+export interface CalendarEventAttendee {
+  email: string
+  name?: string
+  responseStatus?: string // 例如 "accepted" 或 "declined" (E.g. "accepted" or "declined")
+}
+
+// 从外部日历导入的事件。它们是只读的，不属于任何项目，也不占用时间段的容量
+// An event imported from an external calendar. Events are read-only, belong to no project and take no slot capacity
+export interface CalendarEvent {
+  id: string // "<来源>:<日历ID>:<来源中的ID>" ("<source>:<calendar ID>:<ID in the source>")
+  source: CalendarEventSource // 事件来自哪里 (Where the event came from)
+  sourceId: string // 事件在来源中的ID (The event's ID in its source)
+  calendarId: string
+  calendarName: string
+  color: string // 日历的颜色，Tailwind 类名或十六进制颜色 (The calendar's color, Tailwind classes or a hex color)
+  title: string
+  // 本地时间 "YYYY-MM-DDTHH:mm"，全天事件为 "YYYY-MM-DD"；结束时间不包含在内
+  // Local time as "YYYY-MM-DDTHH:mm", or "YYYY-MM-DD" for all-day events; the end is exclusive
+  start: string
+  end: string
+  allDay: boolean
+  location?: string
+  attendees?: CalendarEventAttendee[]
+  url?: string // 在来源中打开事件的链接 (Link that opens the event in its source)
+}
+
+export type CalendarEventsById = Record<string, CalendarEvent> // 按ID存储的事件 (Events stored by ID)
+
+export type TimeSectionKey = "morning" | "afternoon" | "evening"
+
 export interface TimeSlot {
-  id: string // 时间段的唯一标识符, e.g., "morning-0800" (Unique identifier for the time slot)
+  id: string // 时间段的唯一标识符, e.g., "slot-morning-0800" (Unique identifier for the time slot)
   label: string // 显示的时间标签, e.g., "08:00 - 09:00" (Display time label)
-  section: "morning" | "afternoon" | "evening" // 所属部分：上午、下午或傍晚 (Section it belongs to: morning, afternoon, or evening)
+  section: TimeSectionKey // 所属部分：上午、下午或傍晚 (Section it belongs to: morning, afternoon, or evening)
+  startMinutes: number // 开始时间，距午夜的分钟数 (Start time in minutes since midnight)
+  endMinutes: number // 结束时间，距午夜的分钟数 (End time in minutes since midnight)
+}
+
+// 时间网格设置：一天的开始/结束时间和每个时间段的长度
+// Time grid settings: day start/end and the length of each slot
+export interface TimeGridSettings {
+  dayStartHour: number // 0-23
+  dayEndHour: number // 1-24, 必须大于 dayStartHour (must be greater than dayStartHour)
+  slotMinutes: 15 | 30 | 60
 }
 
-export type ScheduleData = Record<string, ScheduledTask[]> // 日程数据结构，键是时间段ID，值是该时间段的任务数组
-// Schedule data structure, keys are time slot IDs, values are arrays of tasks for that slot
+export type ScheduleData = ScheduledTask[] // 单日日程数据结构，按开始时间排序的任务数组
+// Single-day schedule data structure, an array of tasks sorted by start time
+
+export type SchedulesByDate = Record<string, ScheduleData> // 按日期存储的日程，键是 "YYYY-MM-DD" 格式的日期
+// Schedules stored per calendar date, keys are dates in "YYYY-MM-DD" format
+
+export type ScheduleViewMode = "day" | "week" // 日程视图：单日或一周七天 (Schedule view: a single day or seven days)
@@ -0,0 +1,16 @@
+// vitest.config.ts
+// 单元测试的配置：测试文件放在被测模块旁边，命名为 *.test.ts。
+// Unit test configuration: test files sit next to the module they cover, named *.test.ts.
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+  },
+})